@@ -1,10 +0,0 @@
-import type { Config } from 'drizzle-kit';
-
-export default {
-  schema: './src/lib/schema.ts',
-  out: './drizzle',
-  dialect: 'postgresql',
-  dbCredentials: {
-    url: process.env.DATABASE_URL!,
-  },
-} satisfies Config; 
\ No newline at end of file
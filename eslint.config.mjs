@@ -11,6 +11,18 @@ const compat = new FlatCompat({
 
 const eslintConfig = [
   ...compat.extends("next/core-web-vitals", "next/typescript"),
+  {
+    // The full fraud rule set is server-only; components use the generated hints
+    files: ["src/components/**", "src/app/**/page.tsx"],
+    rules: {
+      "no-restricted-imports": ["error", {
+        patterns: [{
+          group: ["@/lib/fraud-rules", "@/lib/fraud-rules.json", "@/lib/fraud-rule-stats"],
+          message: "Use @/lib/fraud-rule-hints; the full rule set must not reach the browser.",
+        }],
+      }],
+    },
+  },
 ];
 
 export default eslintConfig;
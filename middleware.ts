@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { hasAdminCredential } from '@/lib/admin-auth'
 
 // Rate limiting store (in production, use Redis or similar)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
@@ -42,11 +43,6 @@ function requireAuth(request: NextRequest): boolean {
     return true // Not a protected path
   }
   
-  // Check for authentication token/header
-  const authHeader = request.headers.get('authorization')
-  const authToken = request.headers.get('x-admin-token')
-  const authCookie = request.cookies.get('admin-session')
-  
   // For credit approval, check for valid token or signed URL
   if (pathname.startsWith('/api/credit-approval')) {
     const token = request.nextUrl.searchParams.get('token')
@@ -57,13 +53,10 @@ function requireAuth(request: NextRequest): boolean {
       // In production, verify the signature against a secret
       return verifySignature(token, signature)
     }
-    
-    // Check for admin authentication
-    return !!(authHeader || authToken || authCookie)
   }
   
-  // For admin endpoints, require proper authentication
-  return !!(authHeader || authToken || authCookie)
+  // Otherwise the request must carry the configured admin token (see src/lib/admin-auth.ts)
+  return hasAdminCredential(request)
 }
 
 // Simple signature verification (implement proper HMAC in production)
@@ -82,8 +75,8 @@ function generateCSRFToken(): string {
 export function middleware(request: NextRequest) {
   const response = NextResponse.next()
   
-  // 1. Rate Limiting
-  if (!rateLimit(request)) {
+  // 1. Rate Limiting (the partner API is limited per API key instead, see src/lib/api-keys.ts)
+  if (!request.nextUrl.pathname.startsWith('/api/v1/') && !rateLimit(request)) {
     console.warn(`Rate limit exceeded for ${request.ip} on ${request.nextUrl.pathname}`)
     return new NextResponse('Too Many Requests', { 
       status: 429,
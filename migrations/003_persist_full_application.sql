@@ -0,0 +1,73 @@
+-- Migration: Persist every field collected by the customer application form
+-- Adds business profile / credit terms columns, trade reference phone numbers,
+-- and tables for the bank reference and additional authorized purchasers.
+
+-- 1. Business profile and credit terms on customer_applications
+ALTER TABLE applications.customer_applications
+    ADD COLUMN IF NOT EXISTS industry                   text,
+    ADD COLUMN IF NOT EXISTS company_type               text,
+    ADD COLUMN IF NOT EXISTS number_of_employees        text,
+    ADD COLUMN IF NOT EXISTS years_since_incorporation  text,
+    ADD COLUMN IF NOT EXISTS state_incorporated         text,
+    ADD COLUMN IF NOT EXISTS company_valuation          text,
+    ADD COLUMN IF NOT EXISTS business_website           text,
+    ADD COLUMN IF NOT EXISTS business_description       text,
+    ADD COLUMN IF NOT EXISTS requested_credit_amount    integer,   -- Whole dollars
+    ADD COLUMN IF NOT EXISTS is_tax_exempt              boolean,
+    ADD COLUMN IF NOT EXISTS uses_payment_portal        boolean,
+    ADD COLUMN IF NOT EXISTS reference_upload_method    text;      -- 'manual' or 'upload'
+
+-- 2. Trade reference phone numbers (collected by the form but previously dropped)
+ALTER TABLE applications.trade_references
+    ADD COLUMN IF NOT EXISTS phone text;
+
+-- 3. Bank references
+CREATE TABLE IF NOT EXISTS applications.bank_references (
+    id              serial PRIMARY KEY,
+    application_id  integer                             NOT NULL,
+    bank_name       text                                NOT NULL,
+    account_number  text,
+    contact_name    text,
+    contact_phone   text,
+    contact_email   text,
+    created_at      timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at      timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    CONSTRAINT bank_references_application_id_fk
+        FOREIGN KEY (application_id) REFERENCES applications.customer_applications(id)
+);
+
+-- 4. Additional authorized purchasers
+CREATE TABLE IF NOT EXISTS applications.authorized_purchasers (
+    id              serial PRIMARY KEY,
+    application_id  integer                             NOT NULL,
+    name            text                                NOT NULL,
+    title           text,
+    email           text,
+    phone           text,
+    created_at      timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at      timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    CONSTRAINT authorized_purchasers_application_id_fk
+        FOREIGN KEY (application_id) REFERENCES applications.customer_applications(id)
+);
+
+-- 5. Indexes
+CREATE INDEX IF NOT EXISTS idx_bank_references_application_id
+ON applications.bank_references (application_id);
+
+CREATE INDEX IF NOT EXISTS idx_authorized_purchasers_application_id
+ON applications.authorized_purchasers (application_id);
+
+-- 6. Update triggers
+CREATE TRIGGER bank_references_updated_at
+    BEFORE UPDATE ON applications.bank_references
+    FOR EACH ROW
+    EXECUTE FUNCTION applications.update_updated_at_column();
+
+CREATE TRIGGER authorized_purchasers_updated_at
+    BEFORE UPDATE ON applications.authorized_purchasers
+    FOR EACH ROW
+    EXECUTE FUNCTION applications.update_updated_at_column();
+
+-- 7. Permissions
+ALTER TABLE applications.bank_references OWNER TO "default";
+ALTER TABLE applications.authorized_purchasers OWNER TO "default";
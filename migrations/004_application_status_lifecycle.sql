@@ -0,0 +1,52 @@
+-- Migration: Application status lifecycle
+-- draft → submitted → signed → analyzed → pending_decision → approved / denied / withdrawn / expired
+-- Every transition is recorded in application_status_history with who made it and when.
+
+-- 1. Status column on customer_applications
+ALTER TABLE applications.customer_applications
+    ADD COLUMN IF NOT EXISTS status text DEFAULT 'submitted' NOT NULL;
+
+ALTER TABLE applications.customer_applications
+    ADD CONSTRAINT customer_applications_status_check
+    CHECK (status IN ('draft', 'submitted', 'signed', 'analyzed', 'pending_decision',
+                      'approved', 'denied', 'withdrawn', 'expired'));
+
+-- 2. Backfill existing applications: decided ones from credit_approvals,
+--    everything else already had its AI report sent and is waiting on a decision
+UPDATE applications.customer_applications ca
+SET status = CASE cap.decision WHEN 'APPROVE' THEN 'approved' ELSE 'denied' END
+FROM applications.credit_approvals cap
+WHERE cap.application_id = ca.id
+  AND cap.decision IN ('APPROVE', 'DENY');
+
+UPDATE applications.customer_applications
+SET status = 'pending_decision'
+WHERE status = 'submitted';
+
+-- 3. Status history
+CREATE TABLE IF NOT EXISTS applications.application_status_history (
+    id              serial PRIMARY KEY,
+    application_id  integer                             NOT NULL,
+    from_status     text,                                         -- NULL for the initial status
+    to_status       text                                NOT NULL,
+    changed_by      text                                NOT NULL, -- 'customer', 'ai-processor', 'system' or approver email
+    reason          text,
+    created_at      timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    CONSTRAINT application_status_history_application_id_fk
+        FOREIGN KEY (application_id) REFERENCES applications.customer_applications(id)
+);
+
+-- Seed history with the backfilled status so every application has a starting row
+INSERT INTO applications.application_status_history (application_id, from_status, to_status, changed_by, reason)
+SELECT id, NULL, status, 'system', 'Backfilled by 004_application_status_lifecycle'
+FROM applications.customer_applications;
+
+-- 4. Indexes
+CREATE INDEX IF NOT EXISTS idx_customer_applications_status
+ON applications.customer_applications (status);
+
+CREATE INDEX IF NOT EXISTS idx_application_status_history_application_id
+ON applications.application_status_history (application_id);
+
+-- 5. Permissions
+ALTER TABLE applications.application_status_history OWNER TO "default";
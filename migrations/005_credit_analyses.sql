@@ -0,0 +1,37 @@
+-- Migration: Versioned credit analysis results
+-- Every AI analysis run (on submission or a manual re-run) is stored with its input,
+-- output, model and rule versions so decisions can be audited and compared later.
+
+-- 1. Credit analyses
+CREATE TABLE IF NOT EXISTS applications.credit_analyses (
+    id                serial PRIMARY KEY,
+    application_id    integer                             NOT NULL,
+    version           integer                             NOT NULL, -- 1, 2, 3... per application
+    trigger           text                                NOT NULL, -- 'submission' or 'rerun'
+    status            text                                NOT NULL, -- 'completed' or 'failed'
+    rule_version      text                                NOT NULL,
+    fraud_model       text,                                         -- NULL when the rules-only fallback was used
+    credit_model      text,                                         -- NULL when the rules-only fallback was used
+    decision          text,                                         -- 'APPROVE', 'CONDITIONAL', 'DECLINE', 'REVIEW'
+    credit_score      integer,
+    risk_level        text,
+    credit_limit      integer,                                      -- Whole dollars
+    payment_terms     text,
+    fraud_risk_score  integer,
+    input             jsonb                               NOT NULL,
+    output            jsonb,
+    error             text,
+    started_at        timestamp                           NOT NULL,
+    completed_at      timestamp                           NOT NULL,
+    duration_ms       integer                             NOT NULL,
+    created_at        timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    CONSTRAINT credit_analyses_application_id_fk
+        FOREIGN KEY (application_id) REFERENCES applications.customer_applications(id)
+);
+
+-- 2. Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_analyses_application_version
+ON applications.credit_analyses (application_id, version);
+
+-- 3. Permissions
+ALTER TABLE applications.credit_analyses OWNER TO "default";
@@ -0,0 +1,82 @@
+-- Migration: Structured address columns
+-- Replaces the combined "City, ST 12345" strings on customer_applications and
+-- trade_references with separate city, state, postal code and country columns,
+-- backfilled from the existing strings. Rows written before this change may
+-- contain "undefined" for parts the customer left blank; those become NULL.
+
+-- 1. New columns
+ALTER TABLE applications.customer_applications
+    ADD COLUMN IF NOT EXISTS bill_to_city         text,
+    ADD COLUMN IF NOT EXISTS bill_to_state        text,
+    ADD COLUMN IF NOT EXISTS bill_to_postal_code  text,
+    ADD COLUMN IF NOT EXISTS bill_to_country      text DEFAULT 'US' NOT NULL,
+    ADD COLUMN IF NOT EXISTS ship_to_city         text,
+    ADD COLUMN IF NOT EXISTS ship_to_state        text,
+    ADD COLUMN IF NOT EXISTS ship_to_postal_code  text,
+    ADD COLUMN IF NOT EXISTS ship_to_country      text DEFAULT 'US' NOT NULL;
+
+ALTER TABLE applications.trade_references
+    ADD COLUMN IF NOT EXISTS city         text,
+    ADD COLUMN IF NOT EXISTS state        text,
+    ADD COLUMN IF NOT EXISTS postal_code  text,
+    ADD COLUMN IF NOT EXISTS country      text DEFAULT 'US' NOT NULL;
+
+-- 2. Backfill from the combined strings ("City, ST 12345")
+CREATE FUNCTION pg_temp.address_part(value text) RETURNS text AS $$
+    SELECT NULLIF(NULLIF(trim(value), ''), 'undefined');
+$$ LANGUAGE sql IMMUTABLE;
+
+WITH parsed AS (
+    SELECT id,
+           trim(split_part(bill_to_city_state_zip, ',', 1)) AS city,
+           trim(substring(bill_to_city_state_zip FROM strpos(bill_to_city_state_zip, ',') + 1)) AS state_zip
+    FROM applications.customer_applications
+    WHERE strpos(bill_to_city_state_zip, ',') > 0
+)
+UPDATE applications.customer_applications ca
+SET bill_to_city        = pg_temp.address_part(p.city),
+    bill_to_state       = upper(pg_temp.address_part(split_part(p.state_zip, ' ', 1))),
+    bill_to_postal_code = pg_temp.address_part(substring(p.state_zip FROM length(split_part(p.state_zip, ' ', 1)) + 1))
+FROM parsed p
+WHERE p.id = ca.id
+  AND ca.bill_to_city IS NULL;
+
+WITH parsed AS (
+    SELECT id,
+           trim(split_part(ship_to_city_state_zip, ',', 1)) AS city,
+           trim(substring(ship_to_city_state_zip FROM strpos(ship_to_city_state_zip, ',') + 1)) AS state_zip
+    FROM applications.customer_applications
+    WHERE strpos(ship_to_city_state_zip, ',') > 0
+)
+UPDATE applications.customer_applications ca
+SET ship_to_city        = pg_temp.address_part(p.city),
+    ship_to_state       = upper(pg_temp.address_part(split_part(p.state_zip, ' ', 1))),
+    ship_to_postal_code = pg_temp.address_part(substring(p.state_zip FROM length(split_part(p.state_zip, ' ', 1)) + 1))
+FROM parsed p
+WHERE p.id = ca.id
+  AND ca.ship_to_city IS NULL;
+
+WITH parsed AS (
+    SELECT id,
+           trim(split_part(city_state_zip, ',', 1)) AS city,
+           trim(substring(city_state_zip FROM strpos(city_state_zip, ',') + 1)) AS state_zip
+    FROM applications.trade_references
+    WHERE strpos(city_state_zip, ',') > 0
+)
+UPDATE applications.trade_references tr
+SET city        = pg_temp.address_part(p.city),
+    state       = upper(pg_temp.address_part(split_part(p.state_zip, ' ', 1))),
+    postal_code = pg_temp.address_part(substring(p.state_zip FROM length(split_part(p.state_zip, ' ', 1)) + 1))
+FROM parsed p
+WHERE p.id = tr.id
+  AND tr.city IS NULL;
+
+-- 3. The combined columns are no longer written by the application.
+--    Kept (nullable) until the backfill has been verified, then dropped in a later migration.
+ALTER TABLE applications.customer_applications
+    ALTER COLUMN bill_to_city_state_zip DROP NOT NULL,
+    ALTER COLUMN ship_to_city_state_zip DROP NOT NULL;
+
+-- 4. Indexes
+CREATE INDEX IF NOT EXISTS idx_customer_applications_bill_to_state
+ON applications.customer_applications (bill_to_state);
@@ -0,0 +1,120 @@
+-- Migration: Customer accounts
+-- Links every application from the same business to one customers row, keyed on
+-- normalized EIN (or normalized legal name when no valid EIN was given), and
+-- classifies each application as new / repeat / reapplication / credit_limit_revision.
+
+-- 1. Normalization functions (must match normalizeEin / normalizeLegalName in src/lib/customers.ts)
+CREATE OR REPLACE FUNCTION applications.normalize_ein(ein text) RETURNS text AS $$
+    SELECT CASE WHEN length(regexp_replace(coalesce(ein, ''), '\D', '', 'g')) = 9
+                THEN regexp_replace(ein, '\D', '', 'g')
+           END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION applications.normalize_legal_name(name text) RETURNS text AS $$
+    SELECT trim(regexp_replace(
+               regexp_replace(
+                   regexp_replace(replace(lower(coalesce(name, '')), '&', ' and '), '[^a-z0-9\s]', '', 'g'),
+                   '\s+', ' ', 'g'),
+               '(\S)(\s+(inc|incorporated|llc|corp|corporation|co|company|ltd|limited|lp|llp|pllc))+\s*$', '\1'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2. Customers
+CREATE TABLE IF NOT EXISTS applications.customers (
+    id                 serial PRIMARY KEY,
+    normalized_ein     text,                                         -- 9 digits, NULL when no valid EIN
+    normalized_name    text                                NOT NULL,
+    legal_entity_name  text                                NOT NULL, -- As given on the most recent application
+    created_at         timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at         timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- 3. Link applications to customers
+ALTER TABLE applications.customer_applications
+    ADD COLUMN IF NOT EXISTS customer_id       integer,
+    ADD COLUMN IF NOT EXISTS application_type  text DEFAULT 'new' NOT NULL;
+
+ALTER TABLE applications.customer_applications
+    ADD CONSTRAINT customer_applications_customer_id_fk
+    FOREIGN KEY (customer_id) REFERENCES applications.customers(id);
+
+ALTER TABLE applications.customer_applications
+    ADD CONSTRAINT customer_applications_application_type_check
+    CHECK (application_type IN ('new', 'repeat', 'reapplication', 'credit_limit_revision'));
+
+-- 4. Backfill customers from existing applications (latest legal name wins)
+INSERT INTO applications.customers (normalized_ein, normalized_name, legal_entity_name, created_at)
+SELECT DISTINCT ON (applications.normalize_ein(tax_ein))
+       applications.normalize_ein(tax_ein),
+       applications.normalize_legal_name(legal_entity_name),
+       legal_entity_name,
+       created_at
+FROM applications.customer_applications
+WHERE applications.normalize_ein(tax_ein) IS NOT NULL
+ORDER BY applications.normalize_ein(tax_ein), created_at DESC;
+
+INSERT INTO applications.customers (normalized_ein, normalized_name, legal_entity_name, created_at)
+SELECT DISTINCT ON (applications.normalize_legal_name(legal_entity_name))
+       NULL,
+       applications.normalize_legal_name(legal_entity_name),
+       legal_entity_name,
+       created_at
+FROM applications.customer_applications ca
+WHERE applications.normalize_ein(tax_ein) IS NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM applications.customers c
+      WHERE c.normalized_name = applications.normalize_legal_name(ca.legal_entity_name)
+  )
+ORDER BY applications.normalize_legal_name(legal_entity_name), created_at DESC;
+
+UPDATE applications.customer_applications ca
+SET customer_id = c.id
+FROM applications.customers c
+WHERE ca.customer_id IS NULL
+  AND c.normalized_ein = applications.normalize_ein(ca.tax_ein);
+
+UPDATE applications.customer_applications ca
+SET customer_id = (
+    SELECT c.id FROM applications.customers c
+    WHERE c.normalized_name = applications.normalize_legal_name(ca.legal_entity_name)
+    ORDER BY c.updated_at DESC
+    LIMIT 1
+)
+WHERE ca.customer_id IS NULL;
+
+-- 5. Classify backfilled applications against the ones before them
+WITH ordered AS (
+    SELECT id,
+           lag(status) OVER w AS previous_status,
+           bool_or(status = 'approved') OVER (w ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING) AS previously_approved
+    FROM applications.customer_applications
+    WHERE customer_id IS NOT NULL
+    WINDOW w AS (PARTITION BY customer_id ORDER BY created_at, id)
+)
+UPDATE applications.customer_applications ca
+SET application_type = CASE
+        WHEN o.previous_status IS NULL THEN 'new'
+        WHEN o.previous_status = 'denied' THEN 'reapplication'
+        WHEN o.previously_approved THEN 'credit_limit_revision'
+        ELSE 'repeat'
+    END
+FROM ordered o
+WHERE o.id = ca.id;
+
+-- 6. Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_normalized_ein
+ON applications.customers (normalized_ein);
+
+CREATE INDEX IF NOT EXISTS idx_customers_normalized_name
+ON applications.customers (normalized_name);
+
+CREATE INDEX IF NOT EXISTS idx_customer_applications_customer_id
+ON applications.customer_applications (customer_id);
+
+-- 7. Update triggers
+CREATE TRIGGER customers_updated_at
+    BEFORE UPDATE ON applications.customers
+    FOR EACH ROW
+    EXECUTE FUNCTION applications.update_updated_at_column();
+
+-- 8. Permissions
+ALTER TABLE applications.customers OWNER TO "default";
@@ -0,0 +1,27 @@
+-- Migration: Field-level encryption for EIN and bank account numbers
+-- tax_ein and bank_references.account_number now hold AES-256-GCM ciphertext written
+-- by the application (src/lib/field-encryption.ts). Ciphertext can't be compared, so
+-- duplicate-EIN lookups use HMAC blind index columns instead.
+--
+-- Encryption keys live outside the database, so existing rows are encrypted by the
+-- application: after deploying, run POST /api/admin/field-encryption until it
+-- reports nothing remaining. Until then plaintext rows keep working.
+
+-- 1. Blind index columns
+ALTER TABLE applications.customer_applications
+    ADD COLUMN IF NOT EXISTS tax_ein_hash text;
+
+ALTER TABLE applications.customers
+    ADD COLUMN IF NOT EXISTS ein_hash text;
+
+-- 2. customers.normalized_ein held the plaintext EIN. The backfill moves it to
+--    ein_hash and clears it; the column is dropped once the backfill has run.
+
+-- 3. Indexes (the plain tax_ein index is useless on ciphertext)
+DROP INDEX IF EXISTS applications.idx_customer_applications_tax_ein;
+
+CREATE INDEX IF NOT EXISTS idx_customer_applications_tax_ein_hash
+ON applications.customer_applications (tax_ein_hash);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_ein_hash
+ON applications.customers (ein_hash);
@@ -0,0 +1,14 @@
+-- Migration: International shipping request status workflow
+-- Requests move pending → quoted → shipped (see src/lib/international-shipping.ts).
+
+-- 1. Status is always set
+UPDATE alliance_chemical.international_shipping_requests
+SET status = 'pending'
+WHERE status IS NULL;
+
+ALTER TABLE alliance_chemical.international_shipping_requests
+    ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE alliance_chemical.international_shipping_requests
+    ADD CONSTRAINT international_shipping_requests_status_check
+    CHECK (status IN ('pending', 'quoted', 'shipped'));
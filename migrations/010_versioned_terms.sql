@@ -0,0 +1,70 @@
+-- Migration: Versioned terms & conditions
+-- The signature step renders the current version from alliance_chemical.terms (one row
+-- per section, grouped by version) and every signature records which version was signed
+-- and a SHA-256 of its text (see src/lib/terms.ts).
+
+-- 1. Seed version 1.0 with the terms previously hardcoded in the signature step
+--    Lines starting with "• " are rendered as list items.
+INSERT INTO alliance_chemical.terms (title, content, version, order_index, is_active, effective_date)
+SELECT seed.title, seed.content, '1.0', seed.order_index, true, TIMESTAMP '2024-01-01 00:00:00'
+FROM (VALUES
+    (1, 'Use of Information',
+     'The information you provide will be used to: (a) Establish an account with Alliance Chemical, and (b) Assess your creditworthiness if you request credit terms. You expressly authorize Alliance Chemical to contact all provided references and credit agencies to verify your credit and financial responsibility.'),
+    (2, 'Payment Terms',
+     'All invoices are due and payable according to the terms specified therein. If your account becomes past due, Alliance Chemical reserves the right, at its sole discretion, to suspend or cancel any future orders until your account is brought current. Alliance Chemical may also terminate any agreements or arrangements without further notice.'),
+    (3, 'Late Payments and Collection Costs',
+     'Should your account become delinquent and be placed for collection; you agree to pay a finance charge of 1.5% per month (18% per annum) on the unpaid balance. Additionally, you agree to reimburse Alliance Chemical for all costs of collection, including but not limited to collection agency fees, court costs, and reasonable attorney''s fees.'),
+    (4, 'Returned Payments',
+     'Any returned or dishonored payments, including checks and electronic transfers, will incur a $30.00 service charge. Alliance Chemical reserves the right to require alternative payment methods following a returned payment.'),
+    (5, 'Product Returns',
+     '• Return Authorization: No returns will be accepted without prior written authorization in the form of a Return Goods Authorization (RGA) issued by Alliance Chemical.' || E'\n' ||
+     '• Restocking Fees: All authorized returns are subject to restocking fees and return freight charges, which will be determined at Alliance Chemical''s sole discretion.' || E'\n' ||
+     '• Condition of Products: Returned products must be in their original, unopened containers and in resalable condition. Alliance Chemical reserves the right to reject any returns that do not meet these criteria.'),
+    (6, 'Compliance with Laws and Regulations',
+     'You are responsible for complying with all applicable federal, state, and local laws and regulations related to the purchase, storage, handling, and use of chemical products supplied by Alliance Chemical. This includes obtaining any necessary permits or licenses required for the possession and use of such chemicals.'),
+    (7, 'Product Handling and Safety',
+     '• Assessment of Suitability: It is your sole responsibility to determine the suitability and safety of the chemical products and containers supplied by Alliance Chemical for your intended use.' || E'\n' ||
+     '• Safety Data Sheets (SDS): You acknowledge receipt of, or access to, Safety Data Sheets for all chemical products purchased and agree to review and understand all safety information prior to use.' || E'\n' ||
+     '• Proper Use: You agree to use the products in accordance with the manufacturer''s guidelines and all applicable laws and regulations, including those related to health, safety, and the environment.' || E'\n' ||
+     '• Indemnification: You agree to indemnify and hold harmless Alliance Chemical from any and all claims, damages, or liabilities arising from your handling, storage, or use of the products.'),
+    (8, 'Limitation of Liability',
+     'Alliance Chemical shall not be liable for any indirect, incidental, consequential, or special damages arising out of or in connection with the products or services provided, including but not limited to damages for loss of profits, business interruption, or any other commercial damages or losses.'),
+    (9, 'Force Majeure',
+     'Alliance Chemical shall not be responsible for any delays or failures in performance resulting from acts beyond its reasonable control, including but not limited to natural disasters, acts of war, terrorism, labor disputes, or governmental regulations.'),
+    (10, 'Governing Law',
+     'These terms and conditions shall be governed by and construed in accordance with the laws of the state in which Alliance Chemical is headquartered, without regard to its conflict of law provisions.')
+) AS seed (order_index, title, content)
+WHERE NOT EXISTS (SELECT 1 FROM alliance_chemical.terms WHERE version = '1.0');
+
+-- 2. Published wording is immutable - changes go out as a new version, otherwise the
+--    hash stored with earlier signatures would no longer match
+CREATE OR REPLACE FUNCTION alliance_chemical.prevent_terms_content_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.version IS DISTINCT FROM OLD.version
+        OR NEW.order_index IS DISTINCT FROM OLD.order_index THEN
+        RAISE EXCEPTION 'Terms version % is published and cannot be edited; insert a new version instead', OLD.version;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS terms_immutable_content ON alliance_chemical.terms;
+CREATE TRIGGER terms_immutable_content
+    BEFORE UPDATE ON alliance_chemical.terms
+    FOR EACH ROW
+    EXECUTE FUNCTION alliance_chemical.prevent_terms_content_change();
+
+-- 3. Which terms each signature agreed to (NULL for signatures captured before this migration)
+ALTER TABLE applications.digital_signatures
+    ADD COLUMN IF NOT EXISTS terms_version text,
+    ADD COLUMN IF NOT EXISTS terms_content_hash text;
+
+-- 4. Indexes
+CREATE INDEX IF NOT EXISTS idx_terms_version
+ON alliance_chemical.terms (version);
+
+CREATE INDEX IF NOT EXISTS idx_digital_signatures_terms_version
+ON applications.digital_signatures (terms_version);
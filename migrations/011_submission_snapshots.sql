@@ -0,0 +1,45 @@
+-- Migration: Immutable submission snapshots
+-- The validated request body of every POST /api/applications, stored as canonical JSON
+-- (encrypted, see src/lib/field-encryption.ts) with its SHA-256, request IP and user agent.
+
+-- 1. Snapshot table
+CREATE TABLE IF NOT EXISTS applications.application_submissions (
+    id              serial PRIMARY KEY,
+    application_id  integer                             NOT NULL,
+    payload         text                                NOT NULL, -- enc:v1:... ciphertext of the canonical JSON
+    payload_hash    text                                NOT NULL, -- SHA-256 hex of the plaintext JSON
+    ip_address      text                                NOT NULL,
+    user_agent      text                                NOT NULL,
+    created_at      timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    CONSTRAINT application_submissions_application_id_fk
+        FOREIGN KEY (application_id) REFERENCES applications.customer_applications(id)
+);
+
+-- 2. Snapshots are never edited. The payload may only be rewritten by the key
+--    rotation backfill, which leaves payload_hash (and so the plaintext) unchanged.
+CREATE OR REPLACE FUNCTION applications.prevent_submission_snapshot_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.application_id IS DISTINCT FROM OLD.application_id
+        OR NEW.payload_hash IS DISTINCT FROM OLD.payload_hash
+        OR NEW.ip_address IS DISTINCT FROM OLD.ip_address
+        OR NEW.user_agent IS DISTINCT FROM OLD.user_agent
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Submission snapshot % is immutable', OLD.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS application_submissions_immutable ON applications.application_submissions;
+CREATE TRIGGER application_submissions_immutable
+    BEFORE UPDATE ON applications.application_submissions
+    FOR EACH ROW
+    EXECUTE FUNCTION applications.prevent_submission_snapshot_change();
+
+-- 3. Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_application_submissions_application_id
+ON applications.application_submissions (application_id);
+
+-- 4. Permissions
+ALTER TABLE applications.application_submissions OWNER TO "default";
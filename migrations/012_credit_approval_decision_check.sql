@@ -0,0 +1,16 @@
+-- Migration: Constrain credit_approvals.decision to the values the app writes
+-- /api/credit-approval stores 'APPROVE' / 'DENY' (and reads 'PENDING'). The old
+-- migrations/credit_approvals.sql allowed 'APPROVED' / 'DENIED' instead, so any row
+-- written under that constraint is normalized first.
+
+-- 1. Normalize legacy values
+UPDATE applications.credit_approvals SET decision = 'APPROVE' WHERE decision = 'APPROVED';
+UPDATE applications.credit_approvals SET decision = 'DENY' WHERE decision = 'DENIED';
+
+-- 2. Decision check (matches creditApprovals in src/lib/schema.ts)
+ALTER TABLE applications.credit_approvals
+    DROP CONSTRAINT IF EXISTS credit_approvals_decision_check;
+
+ALTER TABLE applications.credit_approvals
+    ADD CONSTRAINT credit_approvals_decision_check
+    CHECK (decision IN ('APPROVE', 'DENY', 'PENDING'));
@@ -0,0 +1,35 @@
+-- Migration: Data retention and legal holds
+-- The retention job (/api/retention-purge, src/lib/retention.ts) deletes applications and
+-- uploaded documents past their retention period unless the application is on legal hold,
+-- and records every deletion in retention_purges.
+
+-- 1. Legal hold flags
+ALTER TABLE applications.customer_applications
+    ADD COLUMN IF NOT EXISTS legal_hold         boolean DEFAULT false NOT NULL,
+    ADD COLUMN IF NOT EXISTS legal_hold_reason  text,
+    ADD COLUMN IF NOT EXISTS legal_hold_set_by  text,
+    ADD COLUMN IF NOT EXISTS legal_hold_set_at  timestamp;
+
+-- 2. Purge audit trail (no foreign keys - the purged rows no longer exist)
+CREATE TABLE IF NOT EXISTS applications.retention_purges (
+    id              serial PRIMARY KEY,
+    record_type     text                                NOT NULL, -- 'draft_application', 'closed_application', 'approved_application', 'vendor_form'
+    record_id       integer                             NOT NULL,
+    application_id  integer,
+    retention_days  integer                             NOT NULL,
+    details         jsonb,
+    purged_at       timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- 3. Indexes
+CREATE INDEX IF NOT EXISTS idx_customer_applications_legal_hold
+ON applications.customer_applications (legal_hold) WHERE legal_hold;
+
+CREATE INDEX IF NOT EXISTS idx_vendor_forms_uploaded_at
+ON applications.vendor_forms (uploaded_at);
+
+CREATE INDEX IF NOT EXISTS idx_retention_purges_application_id
+ON applications.retention_purges (application_id);
+
+-- 4. Permissions
+ALTER TABLE applications.retention_purges OWNER TO "default";
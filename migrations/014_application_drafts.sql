@@ -0,0 +1,9 @@
+-- Migration: Save-and-resume drafts
+-- A draft is a customer_applications row in status 'draft'. Until it is submitted the
+-- partial form lives in draft_data (encrypted JSON, see src/lib/field-encryption.ts);
+-- the buyer gets back to it through an emailed link whose token is stored only as a hash.
+
+-- 1. Draft columns
+ALTER TABLE applications.customer_applications
+ADD COLUMN IF NOT EXISTS draft_data text,
+ADD COLUMN IF NOT EXISTS resume_token_hash text;
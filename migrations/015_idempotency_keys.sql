@@ -0,0 +1,27 @@
+-- Migration: Idempotency keys
+-- POST /api/applications accepts an Idempotency-Key header. The first request with a key
+-- claims it here; repeats within the window get the stored response instead of creating
+-- another application (see src/lib/idempotency.ts).
+
+-- 1. Key store
+CREATE TABLE IF NOT EXISTS applications.idempotency_keys (
+    id               serial PRIMARY KEY,
+    endpoint         text                                NOT NULL,
+    idempotency_key  text                                NOT NULL,
+    request_hash     text                                NOT NULL, -- SHA-256 of the canonical request body
+    status_code      integer,                                      -- null while the first request is running
+    response_body    jsonb,
+    application_id   integer,
+    created_at       timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    completed_at     timestamp
+);
+
+-- 2. Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_idempotency_keys_endpoint_key
+ON applications.idempotency_keys (endpoint, idempotency_key);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at
+ON applications.idempotency_keys (created_at);
+
+-- 3. Permissions
+ALTER TABLE applications.idempotency_keys OWNER TO "default";
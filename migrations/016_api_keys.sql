@@ -0,0 +1,30 @@
+-- Migration: Partner API keys
+-- /api/v1 authenticates partners with bearer API keys. Only the SHA-256 of each key is
+-- stored, with its scopes and per-minute rate limit (see src/lib/api-keys.ts).
+-- Applications submitted through the API record the key, which alone can read them back.
+
+-- 1. Key store
+CREATE TABLE IF NOT EXISTS applications.api_keys (
+    id                     serial PRIMARY KEY,
+    name                   text                                NOT NULL,
+    key_prefix             text                                NOT NULL,
+    key_hash               text                                NOT NULL,
+    scopes                 jsonb                               NOT NULL, -- e.g. ["applications:submit", "applications:read"]
+    rate_limit_per_minute  integer   DEFAULT 60                NOT NULL,
+    rate_window_start      timestamp,
+    rate_window_count      integer   DEFAULT 0                 NOT NULL,
+    created_by             text                                NOT NULL,
+    last_used_at           timestamp,
+    revoked_at             timestamp,
+    created_at             timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_hash
+ON applications.api_keys (key_hash);
+
+-- 2. Submitting key on applications
+ALTER TABLE applications.customer_applications
+ADD COLUMN IF NOT EXISTS api_key_id integer REFERENCES applications.api_keys(id);
+
+-- 3. Permissions
+ALTER TABLE applications.api_keys OWNER TO "default";
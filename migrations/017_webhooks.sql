@@ -0,0 +1,44 @@
+-- Migration: Outbound webhooks
+-- Subscribers (ERP, CRM, Teams) receive signed application lifecycle events. Every
+-- delivery and its retries are logged in webhook_deliveries (see src/lib/webhooks.ts).
+
+-- 1. Subscriptions
+CREATE TABLE IF NOT EXISTS applications.webhook_subscriptions (
+    id           serial PRIMARY KEY,
+    url          text                                NOT NULL,
+    description  text,
+    events       jsonb                               NOT NULL, -- e.g. ["application.approved", "application.denied"]
+    secret       text                                NOT NULL, -- HMAC signing secret, encrypted like tax_ein
+    created_by   text                                NOT NULL,
+    disabled_at  timestamp,
+    created_at   timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- 2. Delivery log
+CREATE TABLE IF NOT EXISTS applications.webhook_deliveries (
+    id                    serial PRIMARY KEY,
+    subscription_id       integer                             NOT NULL REFERENCES applications.webhook_subscriptions(id),
+    event                 text                                NOT NULL,
+    event_id              text                                NOT NULL,
+    application_id        integer,
+    payload               jsonb                               NOT NULL,
+    status                text      DEFAULT 'pending'         NOT NULL,
+    attempts              integer   DEFAULT 0                 NOT NULL,
+    next_attempt_at       timestamp DEFAULT CURRENT_TIMESTAMP,          -- null once delivered or given up
+    last_attempt_at       timestamp,
+    last_response_status  integer,
+    last_error            text,
+    delivered_at          timestamp,
+    created_at            timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_next_attempt
+ON applications.webhook_deliveries (next_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_application_id
+ON applications.webhook_deliveries (application_id);
+
+-- 3. Permissions
+ALTER TABLE applications.webhook_subscriptions OWNER TO "default";
+ALTER TABLE applications.webhook_deliveries OWNER TO "default";
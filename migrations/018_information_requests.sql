@@ -0,0 +1,32 @@
+-- Migration: Requests for more information
+-- Staff ask the customer for documents or answers about an application; the customer
+-- responds through an emailed link and uploads land in vendor_forms (see
+-- src/lib/information-requests.ts).
+
+-- 1. Requests
+CREATE TABLE IF NOT EXISTS applications.information_requests (
+    id                serial PRIMARY KEY,
+    application_id    integer                             NOT NULL REFERENCES applications.customer_applications(id),
+    items             jsonb                               NOT NULL, -- e.g. [{"label": "2024 financial statements", "kind": "document"}]
+    message           text                                NOT NULL,
+    sent_to           text                                NOT NULL,
+    token_hash        text                                NOT NULL, -- SHA-256 of the link token
+    status            text      DEFAULT 'open'            NOT NULL,
+    requested_by      text                                NOT NULL,
+    answers           jsonb,                                        -- [{"itemIndex": 1, "answer": "..."}]
+    response_message  text,
+    fulfilled_at      timestamp,
+    cancelled_at      timestamp,
+    created_at        timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    CONSTRAINT information_requests_status_check CHECK (status IN ('open', 'fulfilled', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_information_requests_application_id
+ON applications.information_requests (application_id);
+
+-- 2. Documents uploaded in answer to a request
+ALTER TABLE applications.vendor_forms
+ADD COLUMN IF NOT EXISTS information_request_id integer REFERENCES applications.information_requests(id);
+
+-- 3. Permissions
+ALTER TABLE applications.information_requests OWNER TO "default";
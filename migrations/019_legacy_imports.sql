@@ -0,0 +1,24 @@
+-- Migration: Legacy application imports
+-- Paper and spreadsheet credit applications from before the online form are imported
+-- from CSV (see src/lib/legacy-import.ts). Imported applications keep their original
+-- decision and are marked so they are never analyzed or emailed about.
+
+-- 1. Import batches
+CREATE TABLE IF NOT EXISTS applications.legacy_imports (
+    id             serial PRIMARY KEY,
+    file_name      text                                NOT NULL,
+    imported_by    text                                NOT NULL,
+    total_rows     integer                             NOT NULL,
+    imported_rows  integer   DEFAULT 0                 NOT NULL,
+    skipped_rows   integer   DEFAULT 0                 NOT NULL, -- invalid, duplicate or failed rows
+    created_at     timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    completed_at   timestamp
+);
+
+-- 2. Legacy marker on applications
+ALTER TABLE applications.customer_applications
+ADD COLUMN IF NOT EXISTS legacy_import_id integer REFERENCES applications.legacy_imports(id),
+ADD COLUMN IF NOT EXISTS legacy_reference text;
+
+-- 3. Permissions
+ALTER TABLE applications.legacy_imports OWNER TO "default";
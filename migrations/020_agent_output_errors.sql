@@ -0,0 +1,11 @@
+-- Migration: Agent output validation failures
+-- The fraud and credit agents' answers are checked against a schema (src/lib/agent-outputs.ts)
+-- and sent back once for repair. When the repaired answer is still unusable the analysis
+-- falls back to rules, and the reason is kept on the run for review.
+
+-- 1. Failure reasons on analysis runs
+ALTER TABLE applications.credit_analyses
+ADD COLUMN IF NOT EXISTS fraud_output_error text;
+
+ALTER TABLE applications.credit_analyses
+ADD COLUMN IF NOT EXISTS credit_output_error text;
@@ -0,0 +1,21 @@
+-- Migration: Fraud rule hit statistics
+-- The rule-based fraud check now runs the rules in src/lib/fraud-rules.json. Every rule
+-- that fires on an analysis is logged here, so hit counts can be compared with the
+-- approver's final decision to find rules that flag good customers.
+
+-- 1. Hit log
+CREATE TABLE IF NOT EXISTS applications.fraud_rule_hits (
+    id                serial PRIMARY KEY,
+    rule_id           text                                NOT NULL,
+    rule_set_version  text                                NOT NULL,
+    application_id    integer                             NOT NULL REFERENCES applications.customer_applications(id),
+    matches           jsonb                               NOT NULL, -- e.g. ["hell"]
+    points            integer                             NOT NULL,
+    created_at        timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_rule_hits_rule_id
+ON applications.fraud_rule_hits (rule_id);
+
+-- 2. Permissions
+ALTER TABLE applications.fraud_rule_hits OWNER TO "default";
@@ -0,0 +1,24 @@
+-- Migration: Versioned credit scorecards
+-- Score points, decision thresholds, credit limits and payment terms move out of the code
+-- into scorecards that credit staff edit (see src/lib/scorecard.ts). Each save is a new
+-- version and the latest is in force; version 1 is the built-in scorecard and is not stored.
+
+-- 1. Scorecard versions
+CREATE TABLE IF NOT EXISTS applications.scorecards (
+    id           serial PRIMARY KEY,
+    version      integer                             NOT NULL,
+    definition   jsonb                               NOT NULL,
+    change_note  text                                NOT NULL,
+    created_by   text                                NOT NULL,
+    created_at   timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scorecards_version
+ON applications.scorecards (version);
+
+-- 2. Scorecard used by each analysis run
+ALTER TABLE applications.credit_analyses
+ADD COLUMN IF NOT EXISTS scorecard_version integer;
+
+-- 3. Permissions
+ALTER TABLE applications.scorecards OWNER TO "default";
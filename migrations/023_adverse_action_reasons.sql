@@ -0,0 +1,8 @@
+-- Migration: Adverse-action reason codes
+-- Each analysis run stores the standard reasons (R01, R04, ...) that counted against the
+-- application, ranked by score impact (see src/lib/reason-codes.ts). Denial notices and
+-- the approver report are written from them.
+
+-- 1. Ranked reasons on analysis runs
+ALTER TABLE applications.credit_analyses
+ADD COLUMN IF NOT EXISTS reason_codes jsonb; -- e.g. [{"code": "R04", "description": "...", "impact": 40}]
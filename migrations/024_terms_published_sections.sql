@@ -0,0 +1,55 @@
+-- Migration: Freeze the sections of published terms versions
+-- 010 blocked edits to a section's wording, but a section could still be added to or
+-- deleted from a published version, changing the text getTermsVersion hashes so the
+-- terms_content_hash stored with earlier signatures no longer matched.
+
+-- 1. A version is published once a customer has signed it or its effective date has
+--    passed. Rows written by the current transaction don't count, so a new version can
+--    still be inserted section by section (or in one statement) with a past date.
+CREATE OR REPLACE FUNCTION alliance_chemical.terms_version_published(terms_version text)
+RETURNS boolean AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM applications.digital_signatures
+        WHERE digital_signatures.terms_version = $1
+    ) OR EXISTS (
+        SELECT 1 FROM alliance_chemical.terms
+        WHERE terms.version = $1
+          AND terms.effective_date <= now()
+          AND terms.xmin::text::bigint <> txid_current() % 4294967296
+    );
+$$ LANGUAGE sql VOLATILE;
+
+-- 2. Wording stays immutable on update; sections of published versions can't be added or removed
+CREATE OR REPLACE FUNCTION alliance_chemical.prevent_terms_content_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        IF NEW.title IS DISTINCT FROM OLD.title
+            OR NEW.content IS DISTINCT FROM OLD.content
+            OR NEW.version IS DISTINCT FROM OLD.version
+            OR NEW.order_index IS DISTINCT FROM OLD.order_index THEN
+            RAISE EXCEPTION 'Terms version % is published and cannot be edited; insert a new version instead', OLD.version;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' AND alliance_chemical.terms_version_published(NEW.version) THEN
+        RAISE EXCEPTION 'Terms version % is published; sections cannot be added, insert a new version instead', NEW.version;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        IF alliance_chemical.terms_version_published(OLD.version) THEN
+            RAISE EXCEPTION 'Terms version % is published; sections cannot be removed, deactivate the version instead', OLD.version;
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS terms_immutable_content ON alliance_chemical.terms;
+CREATE TRIGGER terms_immutable_content
+    BEFORE INSERT OR UPDATE OR DELETE ON alliance_chemical.terms
+    FOR EACH ROW
+    EXECUTE FUNCTION alliance_chemical.prevent_terms_content_change();
@@ -1,9 +1,17 @@
 #!/bin/bash
 
 # Database Migration Script
-# This script applies the schema reorganization changes
+# migrations/NNN_*.sql is the only source of schema changes. Each file runs once, in
+# order, inside its own transaction; applied files are recorded in public.schema_migrations.
+#
+# Usage:
+#   ./run_migration.sh                  Apply every migration that hasn't run yet
+#   ./run_migration.sh --baseline 011   Record 001-011 as applied without running them
+#                                       (databases migrated before migrations were tracked)
+#
+# After migrating, compare the database with src/lib/schema.ts: npm run db:check
 
-echo "🚀 Starting database schema reorganization..."
+echo "🚀 Starting database migration..."
 echo "📊 Current time: $(date)"
 
 # Check if DATABASE_URL is set
@@ -15,72 +23,106 @@ fi
 
 echo "✅ DATABASE_URL is configured"
 
-# Function to run SQL file
-run_sql_file() {
-    local file=$1
-    local description=$2
-    
-    echo ""
-    echo "📋 Running: $description"
-    echo "📁 File: $file"
-    
-    if [ ! -f "$file" ]; then
-        echo "❌ ERROR: File $file not found"
-        return 1
+if ! command -v psql &> /dev/null; then
+    echo "❌ ERROR: psql command not found. Please install PostgreSQL client tools."
+    exit 1
+fi
+
+run_psql() {
+    psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -q "$@"
+}
+
+# Applied-migration log
+run_psql -c "CREATE TABLE IF NOT EXISTS public.schema_migrations (
+    filename    text PRIMARY KEY,
+    applied_at  timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);" || exit 1
+
+is_applied() {
+    local filename=$1
+    [ "$(run_psql -tA -c "SELECT 1 FROM public.schema_migrations WHERE filename = '$filename'")" = "1" ]
+}
+
+if [ "$1" = "--baseline" ]; then
+    if [ -z "$2" ]; then
+        echo "❌ ERROR: --baseline needs the number of the last migration already applied (e.g. 011)"
+        exit 1
     fi
-    
-    # Use psql to run the SQL file
-    if command -v psql &> /dev/null; then
-        psql "$DATABASE_URL" -f "$file"
-        if [ $? -eq 0 ]; then
-            echo "✅ Successfully applied: $description"
-        else
-            echo "❌ ERROR: Failed to apply $description"
-            return 1
+
+    for file in migrations/[0-9][0-9][0-9]_*.sql; do
+        filename=$(basename "$file")
+        if [[ "${filename:0:3}" > "$2" ]]; then
+            break
         fi
-    else
-        echo "❌ ERROR: psql command not found. Please install PostgreSQL client tools."
-        return 1
+        run_psql -c "INSERT INTO public.schema_migrations (filename) VALUES ('$filename') ON CONFLICT DO NOTHING;" || exit 1
+        echo "📌 Recorded as applied: $filename"
+    done
+    exit 0
+fi
+
+# Run pending migrations in order
+applied_count=0
+for file in migrations/[0-9][0-9][0-9]_*.sql; do
+    filename=$(basename "$file")
+
+    if is_applied "$filename"; then
+        continue
     fi
-}
 
-# Run migrations in order
-echo ""
-echo "🔄 Step 1: Creating new applications schema..."
-run_sql_file "migrations/001_create_applications_schema.sql" "Applications Schema Creation"
+    echo ""
+    echo "🔄 Applying: $filename"
 
-if [ $? -ne 0 ]; then
-    echo "❌ Migration failed at step 1"
-    exit 1
-fi
+    # The migration and its log entry commit together, so a failed file can be fixed and re-run
+    run_psql --single-transaction \
+        -f "$file" \
+        -c "INSERT INTO public.schema_migrations (filename) VALUES ('$filename');"
 
-echo ""
-echo "🔄 Step 2: Updating alliance_chemical schema..."
-run_sql_file "migrations/002_update_alliance_chemical_schema.sql" "Alliance Chemical Schema Update"
+    if [ $? -ne 0 ]; then
+        echo "❌ Migration failed: $filename"
+        echo "Nothing from this file was applied. Fix it and run this script again."
+        exit 1
+    fi
 
-if [ $? -ne 0 ]; then
-    echo "❌ Migration failed at step 2"
-    exit 1
-fi
+    echo "✅ Successfully applied: $filename"
+    applied_count=$((applied_count + 1))
+done
 
 echo ""
-echo "🎉 Migration completed successfully!"
+if [ $applied_count -eq 0 ]; then
+    echo "✅ Database is up to date - no pending migrations"
+else
+    echo "🎉 Applied $applied_count migration(s) successfully!"
+fi
 echo "📊 Completion time: $(date)"
 echo ""
 echo "📋 Next steps:"
-echo "1. Test your application with: npm run build"
-echo "2. Check database schema with your preferred DB client"
-echo "3. If you have existing data, uncomment the data migration sections in the SQL files"
-echo "4. After confirming everything works, you can drop the old tables"
+echo "1. Check the database matches src/lib/schema.ts: npm run db:check"
+echo "2. Test your application with: npm run build"
+echo "3. Encrypt existing EINs and bank account numbers: POST /api/admin/field-encryption"
 echo ""
-echo "🗄️  New schema structure:"
+echo "🗄️  Schema structure:"
 echo "   📁 applications.*"
+echo "      ├── customers"
 echo "      ├── customer_applications"
+echo "      ├── application_status_history"
+echo "      ├── application_submissions"
 echo "      ├── trade_references"
+echo "      ├── bank_references"
+echo "      ├── authorized_purchasers"
+echo "      ├── credit_analyses"
+echo "      ├── retention_purges"
+echo "      ├── idempotency_keys"
+echo "      ├── api_keys"
+echo "      ├── webhook_subscriptions"
+echo "      ├── webhook_deliveries"
+echo "      ├── information_requests"
+echo "      ├── legacy_imports"
+echo "      ├── fraud_rule_hits"
+echo "      ├── scorecards"
 echo "      ├── digital_signatures"
 echo "      ├── vendor_forms"
 echo "      └── credit_approvals"
 echo ""
 echo "   📁 alliance_chemical.*"
 echo "      ├── terms"
-echo "      └── international_shipping_requests" 
\ No newline at end of file
+echo "      └── international_shipping_requests"
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+/**
+ * Schema drift check
+ *
+ * Asks a deployment (typically the preview build about to be promoted) to compare its
+ * database with src/lib/schema.ts, and exits non-zero if tables, columns, indexes,
+ * foreign keys or check constraints are missing or different.
+ *
+ *   DRIFT_CHECK_URL=https://preview.example.com ADMIN_TOKEN=... npm run db:check
+ */
+
+const BASE_URL = process.env.DRIFT_CHECK_URL || 'http://localhost:3000';
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+function printList(title, items, format = item => item) {
+  if (items.length === 0) return;
+  console.log(`\n${title}:`);
+  items.forEach(item => console.log(`  - ${format(item)}`));
+}
+
+async function main() {
+  if (!ADMIN_TOKEN) {
+    console.error('❌ ADMIN_TOKEN is not set (sent as x-admin-token to /api/admin/schema-drift)');
+    process.exit(2);
+  }
+
+  console.log(`🔍 Checking schema drift via ${BASE_URL}/api/admin/schema-drift`);
+  const response = await fetch(`${BASE_URL}/api/admin/schema-drift`, {
+    headers: { 'x-admin-token': ADMIN_TOKEN },
+  });
+  const report = await response.json();
+
+  if (!response.ok) {
+    console.error(`❌ Drift check failed (${response.status}): ${report.error}${report.details ? ` - ${report.details}` : ''}`);
+    process.exit(2);
+  }
+
+  console.log(`📋 Checked ${report.checkedTables.length} tables`);
+  printList('❌ Missing tables', report.missingTables);
+  printList('❌ Missing columns', report.missingColumns);
+  printList('❌ Column mismatches', report.columnMismatches,
+    item => `${item.column}: expected ${item.expected}, database has ${item.actual}`);
+  printList('❌ Missing indexes', report.missingIndexes);
+  printList('❌ Missing foreign keys', report.missingForeignKeys);
+  printList('❌ Check constraint mismatches', report.constraintMismatches,
+    item => `${item.constraint}: expected (${item.expected}), database has ${item.actual === null ? 'no constraint' : `(${item.actual})`}`);
+  printList('ℹ️  Columns in the database but not in schema.ts', report.extraColumns);
+
+  if (!report.ok) {
+    console.log('\n❌ Database does not match schema.ts. Run ./run_migration.sh or add the missing migration.');
+    process.exit(1);
+  }
+
+  console.log('\n✅ Database matches schema.ts');
+}
+
+main().catch(error => {
+  console.error('❌ Drift check error:', error.message);
+  process.exit(2);
+});
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+/**
+ * Fraud rule hints
+ *
+ * Writes src/lib/fraud-rule-hints.json from src/lib/fraud-rules.json: the fields, matcher
+ * and hint of each enabled rule that has a hint, and nothing else. The application form
+ * bundles that file, so rule IDs, weights, severities, reasons and rules without a hint
+ * never reach the browser. Runs before every build; --check exits non-zero instead of
+ * writing when the committed file is out of date.
+ *
+ *   npm run fraud-rules:hints
+ */
+
+import fs from 'fs';
+
+const RULES_FILE = new URL('../src/lib/fraud-rules.json', import.meta.url);
+const HINTS_FILE = new URL('../src/lib/fraud-rule-hints.json', import.meta.url);
+
+function buildHints(ruleSet) {
+  return {
+    version: ruleSet.version,
+    hints: ruleSet.rules
+      .filter(rule => rule.enabled && rule.hint)
+      .map(rule => ({ fields: rule.fields, matcher: rule.matcher, hint: rule.hint })),
+  };
+}
+
+function main() {
+  const ruleSet = JSON.parse(fs.readFileSync(RULES_FILE, 'utf8'));
+  const hints = buildHints(ruleSet);
+  const content = `${JSON.stringify(hints, null, 2)}\n`;
+
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(HINTS_FILE) ? fs.readFileSync(HINTS_FILE, 'utf8') : '';
+    if (current !== content) {
+      console.error('❌ src/lib/fraud-rule-hints.json is out of date; run npm run fraud-rules:hints');
+      process.exit(1);
+    }
+    console.log('✅ Fraud rule hints are up to date');
+    return;
+  }
+
+  fs.writeFileSync(HINTS_FILE, content);
+  console.log(`✅ Wrote ${hints.hints.length} fraud rule hints (rule set ${hints.version})`);
+}
+
+main();
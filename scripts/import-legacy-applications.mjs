@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+
+/**
+ * Legacy application import
+ *
+ * Sends a CSV of paper/spreadsheet credit applications to /api/admin/legacy-imports and
+ * prints the per-row report. Without --commit it is a dry run and nothing is written.
+ * With --documents, each row's documentsFolder column names a subfolder whose files are
+ * uploaded to the imported application through /api/upload (a dry run only checks that
+ * the folders exist). Uploads that hit the rate limit wait out its Retry-After and retry.
+ *
+ *   IMPORT_URL=https://app.example.com ADMIN_TOKEN=... npm run import:legacy -- \
+ *     applications.csv --imported-by "Jane Doe" [--documents ./scans] [--commit]
+ *
+ * Exits 1 if any row is invalid, failed or missing its documents folder, 2 on errors.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const BASE_URL = process.env.IMPORT_URL || 'http://localhost:3000';
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const MAX_UPLOAD_ATTEMPTS = 5;
+
+// The extensions /api/upload accepts and the content type it expects for each
+const MIME_TYPES_BY_EXTENSION = JSON.parse(
+  fs.readFileSync(new URL('../src/lib/upload-file-types.json', import.meta.url), 'utf8')
+);
+
+function parseArgs(argv) {
+  const args = { csvPath: null, importedBy: null, documentsDir: null, commit: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--commit') args.commit = true;
+    else if (arg === '--imported-by') args.importedBy = argv[++i];
+    else if (arg === '--documents') args.documentsDir = argv[++i];
+    else if (!args.csvPath) args.csvPath = arg;
+    else throw new Error(`Unexpected argument: ${arg}`);
+  }
+  if (!args.csvPath || !args.importedBy) {
+    throw new Error('Usage: import-legacy-applications.mjs <file.csv> --imported-by <name> [--documents <dir>] [--commit]');
+  }
+  return args;
+}
+
+function describeRow(row) {
+  const name = row.legalEntityName || '(no name)';
+  if (row.status === 'invalid' || row.status === 'failed') {
+    const errors = row.errors.map(error => error.field ? `${error.field}: ${error.message}` : error.message).join('; ');
+    return `❌ Row ${row.row} ${name}: ${errors}`;
+  }
+  if (row.status === 'duplicate') {
+    const of = row.duplicateOf.row ? `row ${row.duplicateOf.row}` : `application #${row.duplicateOf.applicationId}`;
+    return `⏭️  Row ${row.row} ${name}: same EIN as ${of}, skipped`;
+  }
+  if (row.status === 'imported') {
+    return `✅ Row ${row.row} ${name}: application #${row.applicationId}`;
+  }
+  return `✅ Row ${row.row} ${name}: valid`;
+}
+
+function documentFiles(documentsDir, folder) {
+  const dir = path.join(documentsDir, folder);
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return null;
+  return fs.readdirSync(dir)
+    .filter(name => !name.startsWith('.'))
+    .map(name => path.join(dir, name))
+    .filter(file => fs.statSync(file).isFile());
+}
+
+async function uploadDocument(applicationId, file) {
+  const extension = path.extname(file).slice(1).toLowerCase();
+  const type = MIME_TYPES_BY_EXTENSION[extension]?.[0];
+  if (!type) {
+    throw new Error(`.${extension} files are not accepted (allowed: ${Object.keys(MIME_TYPES_BY_EXTENSION).join(', ')})`);
+  }
+  const contents = fs.readFileSync(file);
+
+  for (let attempt = 1; ; attempt++) {
+    const formData = new FormData();
+    formData.append('file', new Blob([contents], { type }), path.basename(file));
+    formData.append('applicationId', String(applicationId));
+
+    const response = await fetch(`${BASE_URL}/api/upload`, { method: 'POST', body: formData });
+    if (response.status === 429 && attempt < MAX_UPLOAD_ATTEMPTS) {
+      const waitSeconds = parseInt(response.headers.get('retry-after') || '', 10) || 60;
+      console.log(`⏳ Upload rate limit reached, retrying ${path.basename(file)} in ${waitSeconds}s`);
+      await new Promise(resolve => setTimeout(resolve, waitSeconds * 1000));
+      continue;
+    }
+    if (response.ok) return;
+
+    const result = await response.json().catch(() => ({}));
+    throw new Error(`${response.status} ${result.error || ''}${result.details ? ` - ${result.details}` : ''}`);
+  }
+}
+
+async function main() {
+  if (!ADMIN_TOKEN) {
+    console.error('❌ ADMIN_TOKEN is not set (sent as x-admin-token to /api/admin/legacy-imports)');
+    process.exit(2);
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  const formData = new FormData();
+  formData.append('file', new Blob([fs.readFileSync(args.csvPath)], { type: 'text/csv' }), path.basename(args.csvPath));
+  formData.append('importedBy', args.importedBy);
+  formData.append('dryRun', args.commit ? 'false' : 'true');
+
+  console.log(`📥 ${args.commit ? 'Importing' : 'Dry run of'} ${args.csvPath} via ${BASE_URL}/api/admin/legacy-imports`);
+  const response = await fetch(`${BASE_URL}/api/admin/legacy-imports`, {
+    method: 'POST',
+    headers: { 'x-admin-token': ADMIN_TOKEN },
+    body: formData,
+  });
+  const report = await response.json();
+
+  if (!response.ok) {
+    console.error(`❌ Import failed (${response.status}): ${report.error}${report.details ? ` - ${typeof report.details === 'string' ? report.details : JSON.stringify(report.details)}` : ''}`);
+    process.exit(2);
+  }
+
+  report.rows.forEach(row => console.log(describeRow(row)));
+  if (report.unmappedColumns.length > 0) {
+    console.log(`\nℹ️  Columns ignored (not application fields): ${report.unmappedColumns.join(', ')}`);
+  }
+
+  let documentProblems = 0;
+  if (args.documentsDir) {
+    console.log(`\n📎 Documents from ${args.documentsDir}`);
+    for (const row of report.rows) {
+      if (!row.documentsFolder || !['valid', 'imported'].includes(row.status)) continue;
+
+      const files = documentFiles(args.documentsDir, row.documentsFolder);
+      if (!files) {
+        console.log(`❌ Row ${row.row}: folder ${row.documentsFolder} not found`);
+        documentProblems++;
+        continue;
+      }
+      if (row.status === 'valid') {
+        console.log(`📁 Row ${row.row}: ${files.length} file(s) in ${row.documentsFolder}`);
+        continue;
+      }
+
+      for (const file of files) {
+        try {
+          await uploadDocument(row.applicationId, file);
+          console.log(`✅ Row ${row.row}: uploaded ${path.basename(file)} to application #${row.applicationId}`);
+        } catch (error) {
+          console.log(`❌ Row ${row.row}: ${path.basename(file)} failed (${error.message})`);
+          documentProblems++;
+        }
+      }
+    }
+  }
+
+  console.log(`\n📋 ${report.totalRows} rows: ${report.validRows} ${report.dryRun ? 'valid' : 'imported'}, ${report.invalidRows} invalid, ${report.duplicateRows} duplicate, ${report.failedRows} failed`);
+  if (report.importId) {
+    console.log(`   Recorded as legacy import #${report.importId}`);
+  } else if (report.dryRun) {
+    console.log('   Dry run: nothing was written. Re-run with --commit to import.');
+  }
+
+  if (report.invalidRows > 0 || report.failedRows > 0 || documentProblems > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Legacy import error:', error.message);
+  process.exit(2);
+});
@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+
+/**
+ * OpenAPI contract test
+ *
+ * Fetches /api/openapi from a running deployment and checks that every route with a
+ * validated JSON body rejects what the spec says it rejects:
+ *   1. an empty object must fail with exactly the spec's required properties in `details`
+ *   2. a value breaking each property's enum / pattern / format / maxLength (or type,
+ *      for required non-string properties) must fail with that property in `details`
+ * Only invalid bodies are sent, so nothing is written. Admin routes are skipped without
+ * ADMIN_TOKEN and partner routes without PARTNER_API_KEY (needs applications:submit).
+ *
+ *   CONTRACT_TEST_URL=https://preview.example.com ADMIN_TOKEN=... PARTNER_API_KEY=... npm run test:contract
+ */
+
+const BASE_URL = process.env.CONTRACT_TEST_URL || 'http://localhost:3000';
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const PARTNER_API_KEY = process.env.PARTNER_API_KEY;
+
+function resolve(spec, schema) {
+  if (schema && schema.$ref) {
+    return spec.components.schemas[schema.$ref.replace('#/components/schemas/', '')];
+  }
+  return schema;
+}
+
+// The non-null branch of a nullable property
+function unwrapNullable(schema) {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.filter(branch => branch.type !== 'null');
+    if (branches.length === 1) return branches[0];
+  }
+  return schema;
+}
+
+// A value the property's schema rejects, or undefined if it can't be broken reliably
+function invalidValue(schema, required) {
+  if (schema.type === 'string') {
+    if (schema.enum) return '__not_an_option__';
+    if (schema.pattern || schema.format === 'uri') return '%% not valid %%';
+    if (schema.format === 'email') return 'not-an-email';
+    if (schema.maxLength !== undefined) return 'x'.repeat(schema.maxLength + 1);
+    return undefined;
+  }
+  // A wrong type only fails the whole body for properties the route always validates
+  if (!required) return undefined;
+  if (schema.type === 'integer' || schema.type === 'number' || schema.type === 'boolean') return 'not-a-value';
+  if (schema.const !== undefined) return typeof schema.const === 'string' ? '__not_the_value__' : 'not-a-value';
+  return undefined;
+}
+
+function headersFor(operation) {
+  const headers = { 'Content-Type': 'application/json', 'User-Agent': 'openapi-contract-test/1.0' };
+  const scheme = operation.security && Object.keys(operation.security[0])[0];
+  if (scheme === 'admin') {
+    if (!ADMIN_TOKEN) return null;
+    headers['x-admin-token'] = ADMIN_TOKEN;
+  } else if (scheme === 'partnerApiKey') {
+    if (!PARTNER_API_KEY) return null;
+    headers.Authorization = `Bearer ${PARTNER_API_KEY}`;
+  }
+  return headers;
+}
+
+async function send(method, path, headers, body) {
+  const response = await fetch(`${BASE_URL}${path}`, { method: method.toUpperCase(), headers, body: JSON.stringify(body) });
+  const text = await response.text();
+  let json = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Reported as a missing details array below
+  }
+  return { status: response.status, json };
+}
+
+// Top-level properties named in a ValidationError response
+function rejectedFields(json) {
+  if (!json || !Array.isArray(json.details)) return null;
+  return new Set(json.details.map(detail => String(detail.field).split('.')[0]));
+}
+
+async function checkOperation(spec, method, path, operation, failures) {
+  const name = `${method.toUpperCase()} ${path}`;
+  const headers = headersFor(operation);
+  if (!headers) {
+    console.log(`⏭️  ${name}: skipped (no credentials)`);
+    return;
+  }
+
+  const schema = resolve(spec, operation.requestBody.content['application/json'].schema);
+  const required = new Set(schema.required || []);
+  const failuresBefore = failures.length;
+  const fail = message => failures.push(`${name}: ${message}`);
+
+  // 1. Empty body: exactly the required properties are reported
+  const empty = await send(method, path, headers, {});
+  const emptyFields = rejectedFields(empty.json);
+  if (empty.status !== 400 || !emptyFields) {
+    fail(`empty body returned ${empty.status} without validation details`);
+  } else {
+    const missing = [...required].filter(field => !emptyFields.has(field));
+    const extra = [...emptyFields].filter(field => !required.has(field));
+    if (missing.length > 0) fail(`spec requires ${missing.join(', ')} but the route accepts them missing`);
+    if (extra.length > 0) fail(`route requires ${extra.join(', ')} but the spec marks them optional`);
+  }
+
+  // 2. One invalid value per constrained property, all in one body
+  const body = {};
+  for (const [property, propertySchema] of Object.entries(schema.properties || {})) {
+    const value = invalidValue(unwrapNullable(propertySchema), required.has(property));
+    if (value !== undefined) body[property] = value;
+  }
+  const checked = Object.keys(body);
+  if (checked.length > 0) {
+    const invalid = await send(method, path, headers, body);
+    const invalidFields = rejectedFields(invalid.json);
+    if (invalid.status !== 400 || !invalidFields) {
+      fail(`invalid values returned ${invalid.status} without validation details`);
+    } else {
+      const accepted = checked.filter(field => !invalidFields.has(field));
+      if (accepted.length > 0) {
+        fail(`route accepts values the spec rejects for ${accepted.map(field => `${field}=${JSON.stringify(body[field]).slice(0, 40)}`).join(', ')}`);
+      }
+    }
+  }
+
+  console.log(`${failures.length > failuresBefore ? '❌' : '✅'} ${name}: ${required.size} required, ${checked.length} constrained properties checked`);
+}
+
+async function main() {
+  console.log(`🔍 Checking ${BASE_URL} against ${BASE_URL}/api/openapi`);
+  const response = await fetch(`${BASE_URL}/api/openapi`);
+  if (!response.ok) {
+    console.error(`❌ Could not load the spec (${response.status})`);
+    process.exit(2);
+  }
+  const spec = await response.json();
+
+  const failures = [];
+  for (const [path, methods] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const json = operation.requestBody && operation.requestBody.content['application/json'];
+      const validationError = operation.responses['400'] && operation.responses['400'].content;
+      if (!json || !json.schema.$ref || !validationError || path.includes('{')) continue;
+      await checkOperation(spec, method, path, operation, failures);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.log('\n❌ Routes diverge from the OpenAPI spec:');
+    failures.forEach(failure => console.log(`  - ${failure}`));
+    console.log('\nUpdate the zod schema in src/lib/validation.ts or the route metadata in src/lib/openapi.ts.');
+    process.exit(1);
+  }
+
+  console.log('\n✅ Routes match the OpenAPI spec');
+}
+
+main().catch(error => {
+  console.error('❌ Contract test error:', error.message);
+  process.exit(2);
+});
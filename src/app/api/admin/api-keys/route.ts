@@ -0,0 +1,107 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { apiKeyCreateSchema } from '@/lib/validation';
+import { createApiKey, listApiKeys, revokeApiKey } from '@/lib/api-keys';
+
+// Partner API keys, newest first. Hashes are never returned.
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const apiKeys = await listApiKeys();
+    return NextResponse.json({ apiKeys });
+  } catch (error) {
+    console.error('❌ Failed to list API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to list API keys', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Issue a key: { name, scopes, rateLimitPerMinute?, createdBy }. The key is in this
+// response only; pass it to the partner now, it can't be shown again.
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = apiKeyCreateSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, key } = await createApiKey(validationResult.data);
+    return NextResponse.json({ success: true, apiKey, key }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Failed to create API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke a key (?id=). Revoked keys stay listed for the record.
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const id = parseInt(request.nextUrl.searchParams.get('id') ?? '', 10);
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid API key ID', details: 'id query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = await revokeApiKey(id);
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, apiKey });
+  } catch (error) {
+    console.error('❌ Failed to revoke API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { customerApplications } from '@/lib/schema';
+import { eq } from 'drizzle-orm';
+import { completeAnalysisReview, LegacyApplicationError, loadAnalysisReportData, processApplicationWithAI } from '@/lib/ai-processor';
+import { canTransition } from '@/lib/application-status';
+import { getCreditAnalysisHistory } from '@/lib/credit-analyses';
+
+function parseApplicationId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+async function applicationExists(applicationId: number): Promise<boolean> {
+  const [application] = await db!
+    .select({ id: customerApplications.id })
+    .from(customerApplications)
+    .where(eq(customerApplications.id, applicationId))
+    .limit(1);
+  return !!application;
+}
+
+// All analysis runs for an application, newest first, compared with the approver's decision
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const applicationId = parseApplicationId(request.nextUrl.searchParams.get('applicationId'));
+    if (!applicationId) {
+      return NextResponse.json(
+        { error: 'Invalid application ID', details: 'applicationId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await applicationExists(applicationId))) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await getCreditAnalysisHistory(applicationId);
+    return NextResponse.json({ applicationId, ...history });
+  } catch (error) {
+    console.error('❌ Failed to load credit analyses:', error);
+    return NextResponse.json(
+      { error: 'Failed to load credit analyses', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Re-run the AI analysis for an application. The new run is stored as the next
+// version. Applications that already reached the approver keep their status and no
+// email is sent; one that never got there (its first analysis or report failed) is
+// moved on and the approver gets the report, as the first run would have done.
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let body: { applicationId?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const applicationId = parseApplicationId(body.applicationId);
+    if (!applicationId) {
+      return NextResponse.json(
+        { error: 'Invalid application ID', details: 'applicationId must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const [application] = await db
+      .select({ status: customerApplications.status })
+      .from(customerApplications)
+      .where(eq(customerApplications.id, applicationId))
+      .limit(1);
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`🔁 Re-running credit analysis for application #${applicationId}`);
+    const decision = await processApplicationWithAI(applicationId, { trigger: 'rerun' });
+
+    if (canTransition(application.status, 'analyzed') || application.status === 'analyzed') {
+      await completeAnalysisReview(
+        applicationId,
+        decision,
+        await loadAnalysisReportData(applicationId),
+        `AI decision (re-run): ${decision.decision}`
+      );
+    }
+    const history = await getCreditAnalysisHistory(applicationId);
+
+    return NextResponse.json({ applicationId, decision, latest: history.analyses[0] ?? null });
+  } catch (error) {
+    if (error instanceof LegacyApplicationError) {
+      return NextResponse.json(
+        { error: 'Cannot analyze application', details: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Credit analysis re-run failed:', error);
+    return NextResponse.json(
+      { error: 'Credit analysis re-run failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
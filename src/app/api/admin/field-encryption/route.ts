@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getFieldEncryptionStatus, reencryptFields } from '@/lib/field-encryption-backfill';
+
+// How many rows still need encrypting under the current key
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(await getFieldEncryptionStatus());
+  } catch (error) {
+    console.error('❌ Failed to load field encryption status:', error);
+    return NextResponse.json(
+      { error: 'Failed to load field encryption status', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Encrypt one batch of plaintext / old-key values. Call repeatedly until nothing remains.
+export async function POST() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const processed = await reencryptFields();
+    const status = await getFieldEncryptionStatus();
+    return NextResponse.json({ processed, ...status });
+  } catch (error) {
+    console.error('❌ Field encryption backfill failed:', error);
+    return NextResponse.json(
+      { error: 'Field encryption backfill failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
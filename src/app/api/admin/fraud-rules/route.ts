@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { getFraudRuleStats } from '@/lib/fraud-rule-stats';
+
+// The fraud rules in force with how often each fired and how those applications were
+// decided, optionally only counting hits since a date (?since=2025-01-01)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const sinceParam = request.nextUrl.searchParams.get('since');
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid since date', details: 'Use an ISO date such as 2025-01-01' },
+        { status: 400 }
+      );
+    }
+
+    const stats = await getFraudRuleStats(since);
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error('❌ Failed to load fraud rule statistics:', error);
+    return NextResponse.json(
+      { error: 'Failed to load fraud rule statistics', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { informationRequestCreateSchema } from '@/lib/validation';
+import {
+  cancelInformationRequest,
+  createInformationRequest,
+  InformationRequestConflictError,
+  listInformationRequests,
+} from '@/lib/information-requests';
+
+// Information requests for an application, newest first (?applicationId=)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const applicationId = parseInt(request.nextUrl.searchParams.get('applicationId') ?? '', 10);
+    if (!Number.isInteger(applicationId) || applicationId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid application ID', details: 'applicationId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const informationRequests = await listInformationRequests(applicationId);
+    return NextResponse.json({ informationRequests });
+  } catch (error) {
+    console.error('❌ Failed to list information requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to list information requests', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Ask the buyer for more information and email them the link:
+// { applicationId, items: [{ label, kind: 'document' | 'answer' }], message, requestedBy }
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = informationRequestCreateSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const informationRequest = await createInformationRequest(validationResult.data);
+    if (!informationRequest) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, informationRequest }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InformationRequestConflictError) {
+      return NextResponse.json(
+        { error: 'Cannot request information', details: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Failed to create information request:', error);
+    return NextResponse.json(
+      { error: 'Failed to create information request', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Withdraw an open request (?id=)
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const id = parseInt(request.nextUrl.searchParams.get('id') ?? '', 10);
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid information request ID', details: 'id query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const informationRequest = await cancelInformationRequest(id);
+    if (!informationRequest) {
+      return NextResponse.json(
+        { error: 'Information request not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, informationRequest });
+  } catch (error) {
+    if (error instanceof InformationRequestConflictError) {
+      return NextResponse.json(
+        { error: 'Cannot cancel information request', details: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Failed to cancel information request:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel information request', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
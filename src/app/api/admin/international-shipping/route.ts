@@ -0,0 +1,97 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import {
+  listShippingRequests,
+  updateShippingRequestStatus,
+  InvalidShippingStatusError,
+  type ShippingRequestStatus,
+} from '@/lib/international-shipping';
+import { SHIPPING_REQUEST_STATUSES, shippingRequestStatusUpdateSchema } from '@/lib/validation';
+
+// Shipping requests for staff, optionally filtered with ?status=pending|quoted|shipped
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !(SHIPPING_REQUEST_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: `status must be one of: ${SHIPPING_REQUEST_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const shippingRequests = await listShippingRequests((status as ShippingRequestStatus) || undefined);
+    return NextResponse.json({ shippingRequests });
+  } catch (error) {
+    console.error('❌ Failed to load shipping requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to load shipping requests', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Move a shipping request along pending → quoted → shipped
+export async function PATCH(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = shippingRequestStatusUpdateSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id, status } = validationResult.data;
+    const shippingRequest = await updateShippingRequestStatus(id, status);
+    if (!shippingRequest) {
+      return NextResponse.json(
+        { error: 'Shipping request not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, shippingRequest });
+  } catch (error) {
+    if (error instanceof InvalidShippingStatusError) {
+      return NextResponse.json(
+        { error: 'Invalid status change', details: error.message },
+        { status: 409 }
+      );
+    }
+    console.error('❌ Failed to update shipping request status:', error);
+    return NextResponse.json(
+      { error: 'Failed to update shipping request status', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
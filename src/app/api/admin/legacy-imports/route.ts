@@ -0,0 +1,105 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { legacyImportRequestSchema } from '@/lib/validation';
+import { importLegacyApplications, LegacyImportFormatError, listLegacyImports } from '@/lib/legacy-import';
+
+const MAX_CSV_SIZE = 5 * 1024 * 1024; // 5MB
+
+// Past import batches, newest first
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const imports = await listLegacyImports();
+    return NextResponse.json({ imports });
+  } catch (error) {
+    console.error('❌ Failed to list legacy imports:', error);
+    return NextResponse.json(
+      { error: 'Failed to list legacy imports', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Import legacy applications from a CSV (multipart: file, importedBy, dryRun). Runs as a
+// dry run unless dryRun=false; the report lists every row either way. Documents are
+// uploaded afterwards through /api/upload with the returned application IDs.
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid form data', details: 'Send the CSV as multipart/form-data' },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided', details: 'Attach the CSV as the file field' },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_CSV_SIZE) {
+      return NextResponse.json(
+        { error: 'File too large', details: `The CSV must be ${MAX_CSV_SIZE / 1024 / 1024}MB or smaller` },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = legacyImportRequestSchema.safeParse({
+      importedBy: formData.get('importedBy') ?? undefined,
+      dryRun: formData.get('dryRun') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await importLegacyApplications(await file.text(), {
+      fileName: file.name,
+      importedBy: validationResult.data.importedBy,
+      dryRun: validationResult.data.dryRun === 'true',
+      ipAddress: request.headers.get('x-forwarded-for') || request.ip || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+    });
+
+    return NextResponse.json(report, { status: report.importId ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof LegacyImportFormatError) {
+      return NextResponse.json(
+        { error: 'Invalid CSV', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Legacy import failed:', error);
+    return NextResponse.json(
+      { error: 'Legacy import failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { legalHoldUpdateSchema } from '@/lib/validation';
+import { listLegalHolds, setLegalHold } from '@/lib/retention';
+
+// Applications currently exempt from retention purges
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const legalHolds = await listLegalHolds();
+    return NextResponse.json({ legalHolds });
+  } catch (error) {
+    console.error('❌ Failed to list legal holds:', error);
+    return NextResponse.json(
+      { error: 'Failed to list legal holds', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Place or lift a legal hold: { applicationId, legalHold, reason, setBy }
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = legalHoldUpdateSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { applicationId, ...hold } = validationResult.data;
+    const application = await setLegalHold(applicationId, hold);
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      applicationId,
+      legalHold: application.legalHold,
+      legalHoldReason: application.legalHoldReason,
+      legalHoldSetBy: application.legalHoldSetBy,
+      legalHoldSetAt: application.legalHoldSetAt,
+    });
+  } catch (error) {
+    console.error('❌ Failed to update legal hold:', error);
+    return NextResponse.json(
+      { error: 'Failed to update legal hold', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { checkSchemaDrift } from '@/lib/schema-drift';
+
+// Differences between the connected database and schema.ts (npm run db:check calls this before deploy)
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const report = await checkSchemaDrift();
+    if (!report.ok) {
+      console.warn('⚠️ Schema drift detected:', JSON.stringify(report));
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('❌ Schema drift check failed:', error);
+    return NextResponse.json(
+      { error: 'Schema drift check failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { scorecardSaveSchema } from '@/lib/validation';
+import { listScorecards, saveScorecard, ScorecardConflictError } from '@/lib/scorecard';
+
+// The scorecard in force and every earlier version, newest first
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const versions = await listScorecards();
+    return NextResponse.json({ current: versions[0], versions });
+  } catch (error) {
+    console.error('❌ Failed to list scorecards:', error);
+    return NextResponse.json(
+      { error: 'Failed to list scorecards', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save an edited scorecard: { basedOnVersion, definition, changeNote, createdBy }. It is
+// stored as the next version and used by every analysis from then on.
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = scorecardSaveSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const scorecard = await saveScorecard(validationResult.data);
+    return NextResponse.json({ success: true, scorecard }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScorecardConflictError) {
+      return NextResponse.json(
+        { error: 'Scorecard has changed', details: error.message, currentVersion: error.currentVersion },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Failed to save scorecard:', error);
+    return NextResponse.json(
+      { error: 'Failed to save scorecard', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
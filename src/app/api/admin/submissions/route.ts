@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { getSubmissionSnapshot } from '@/lib/submission-snapshots';
+
+// The original submission for an application, as the customer sent it (for disputes and collections)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const applicationId = parseInt(request.nextUrl.searchParams.get('applicationId') ?? '', 10);
+    if (!Number.isInteger(applicationId) || applicationId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid application ID', details: 'applicationId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const submission = await getSubmissionSnapshot(applicationId);
+    if (!submission) {
+      return NextResponse.json(
+        { error: 'Submission not found', details: 'No submission snapshot is stored for this application' },
+        { status: 404 }
+      );
+    }
+
+    if (!submission.hashVerified) {
+      console.error(`🚨 Submission snapshot for application #${applicationId} does not match its stored hash`);
+    }
+
+    return NextResponse.json({ submission });
+  } catch (error) {
+    console.error('❌ Failed to load submission snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to load submission snapshot', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { webhookRedeliverySchema } from '@/lib/validation';
+import { listWebhookDeliveries, redeliverWebhook } from '@/lib/webhooks';
+
+function positiveInt(value: string | null): number | undefined {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+// Webhook delivery log, newest first (?subscriptionId=&applicationId=&status=)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const deliveries = await listWebhookDeliveries({
+      subscriptionId: positiveInt(searchParams.get('subscriptionId')),
+      applicationId: positiveInt(searchParams.get('applicationId')),
+      status: searchParams.get('status') ?? undefined,
+    });
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('❌ Failed to list webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to list webhook deliveries', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Send a delivered or failed delivery again now: { deliveryId }
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = webhookRedeliverySchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await redeliverWebhook(validationResult.data.deliveryId);
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Delivery not available', details: 'The delivery does not exist or is still being retried' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: delivery.status === 'delivered', delivery });
+  } catch (error) {
+    console.error('❌ Failed to redeliver webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeliver webhook', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { webhookSubscriptionCreateSchema } from '@/lib/validation';
+import { createWebhookSubscription, disableWebhookSubscription, listWebhookSubscriptions } from '@/lib/webhooks';
+
+// Webhook subscriptions, newest first. Signing secrets are never returned.
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const subscriptions = await listWebhookSubscriptions();
+    return NextResponse.json({ subscriptions });
+  } catch (error) {
+    console.error('❌ Failed to list webhook subscriptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list webhook subscriptions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Subscribe: { url, description?, events, createdBy }. The signing secret is in this
+// response only; give it to the receiving system now, it can't be shown again.
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = webhookSubscriptionCreateSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { subscription, secret } = await createWebhookSubscription(validationResult.data);
+    return NextResponse.json({ success: true, subscription, secret }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Failed to create webhook subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook subscription', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Disable a subscription (?id=). Its delivery log is kept.
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const id = parseInt(request.nextUrl.searchParams.get('id') ?? '', 10);
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid subscription ID', details: 'id query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const subscription = await disableWebhookSubscription(id);
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, subscription });
+  } catch (error) {
+    console.error('❌ Failed to disable webhook subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to disable webhook subscription', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { createDraft, draftResumeUrl, extractEmailAddress, getDraft, updateDraft } from '@/lib/drafts';
+import { sendDraftResumeLink } from '@/lib/email';
+import { draftSaveSchema, validationErrorDetails, type DraftSaveData } from '@/lib/validation';
+
+// Save the application form to finish later. Without a draftId a new draft is created
+// and the resume link is emailed to the buyer; with draftId + resumeToken the draft is overwritten.
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = draftSaveSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationErrorDetails(validationResult.error)
+        },
+        { status: 400 }
+      );
+    }
+
+    const { draftId, resumeToken, data }: DraftSaveData = validationResult.data;
+
+    if (draftId && resumeToken) {
+      const draft = await updateDraft(draftId, resumeToken, data);
+      if (!draft) {
+        return NextResponse.json(
+          { error: 'Draft not found', details: 'This draft no longer exists or has already been submitted' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, draft: { id: draft.id, updatedAt: draft.updatedAt } });
+    }
+
+    // The resume link is only ever sent to the buyer named on the form
+    const buyerEmail = extractEmailAddress(data.buyerNameEmail);
+    if (!buyerEmail) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [{ field: 'data.buyerNameEmail', code: 'required', message: "Enter the buyer's email address so we can send you a link to finish later" }]
+        },
+        { status: 400 }
+      );
+    }
+
+    const { draft, resumeToken: newResumeToken } = await createDraft(data);
+    await sendDraftResumeLink({
+      to: buyerEmail,
+      applicationId: draft.id,
+      legalEntityName: data.legalEntityName,
+      resumeUrl: draftResumeUrl(draft.id, newResumeToken),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Draft saved. A link to finish your application was sent to ${buyerEmail}.`,
+      draft: { id: draft.id, updatedAt: draft.updatedAt },
+      resumeToken: newResumeToken,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Failed to save draft application:', error);
+    return NextResponse.json(
+      { error: 'Failed to save draft', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Load a saved draft from a resume link (?draftId=&token=)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const draftId = parseInt(request.nextUrl.searchParams.get('draftId') ?? '', 10);
+    const token = request.nextUrl.searchParams.get('token');
+    if (!Number.isInteger(draftId) || draftId <= 0 || !token) {
+      return NextResponse.json(
+        { error: 'Invalid resume link', details: 'draftId and token query parameters are required' },
+        { status: 400 }
+      );
+    }
+
+    const draft = await getDraft(draftId, token);
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found', details: 'This draft no longer exists or has already been submitted' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ draft });
+  } catch (error) {
+    console.error('❌ Failed to load draft application:', error);
+    return NextResponse.json(
+      { error: 'Failed to load draft', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,29 @@
 import { NextResponse, type NextRequest } from 'next/server';
 import { waitUntil } from '@vercel/functions';
 import { db } from '@/lib/db';
-import { customerApplications, tradeReferences } from '@/lib/schema';
-import { sendApplicationSummary } from '@/lib/email';
-import { customerApplicationSchema, type CustomerApplicationData } from '@/lib/validation';
+import { InvalidStatusTransitionError } from '@/lib/application-status';
+import { customerApplicationSchema, draftReferenceSchema, validationErrorDetails, type CustomerApplicationData, type DraftReferenceData } from '@/lib/validation';
+import { getDraft, type SavedDraft } from '@/lib/drafts';
+import { recordApplication, processSubmittedApplication, submissionResponseBody } from '@/lib/intake';
+import { claimIdempotencyKey, completeIdempotencyKey, isValidIdempotencyKey, releaseIdempotencyKey } from '@/lib/idempotency';
+
+const IDEMPOTENCY_ENDPOINT = 'POST /api/applications';
 
 // This endpoint is no longer needed since we removed the admin dashboard
 // Applications are now handled directly via email notifications with full details
 
 export async function POST(request: NextRequest) {
   console.log('🚀 Applications API called');
+
+  // Set once this request owns an Idempotency-Key; released if the submission fails
+  let claimedIdempotencyKey: string | null = null;
+  const releaseClaimedKey = async () => {
+    if (claimedIdempotencyKey) {
+      await releaseIdempotencyKey(IDEMPOTENCY_ENDPOINT, claimedIdempotencyKey).catch(error => {
+        console.error('❌ Failed to release Idempotency-Key:', error);
+      });
+    }
+  };
   
   try {
     // Log database connection status
@@ -65,10 +79,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           error: 'Validation failed', 
-          details: validationResult.error.issues.map(issue => ({
-            field: issue.path.join('.'),
-            message: issue.message
-          }))
+          details: validationErrorDetails(validationResult.error)
         },
         { 
           status: 400,
@@ -82,11 +93,73 @@ export async function POST(request: NextRequest) {
     console.log('✅ Request data validated successfully');
 
     const data: CustomerApplicationData = validationResult.data;
+
+    // Submitting a saved draft promotes that draft instead of creating a new application
+    let draftReference: DraftReferenceData | null = null;
+    if (requestData && typeof requestData === 'object' && 'draftId' in requestData) {
+      const draftReferenceResult = draftReferenceSchema.safeParse(requestData);
+      if (!draftReferenceResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationErrorDetails(draftReferenceResult.error)
+          },
+          { status: 400 }
+        );
+      }
+      draftReference = draftReferenceResult.data;
+    }
+
+    // A repeated submission (double-click, client retry) with the same Idempotency-Key
+    // gets the original response instead of creating another application
+    const idempotencyKey = request.headers.get('idempotency-key');
+    if (idempotencyKey !== null) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        return NextResponse.json(
+          { error: 'Invalid Idempotency-Key', details: 'Idempotency-Key must be 1-255 printable ASCII characters without spaces' },
+          { status: 400 }
+        );
+      }
+
+      const claim = await claimIdempotencyKey(IDEMPOTENCY_ENDPOINT, idempotencyKey, requestData);
+      if (claim.state === 'replay') {
+        console.log(`🔁 Replaying response for Idempotency-Key ${idempotencyKey}`);
+        return NextResponse.json(claim.responseBody, {
+          status: claim.statusCode,
+          headers: { 'Idempotent-Replayed': 'true' }
+        });
+      }
+      if (claim.state === 'in_progress') {
+        return NextResponse.json(
+          { error: 'Submission in progress', details: 'A request with this Idempotency-Key is still being processed. Retry shortly.' },
+          { status: 409, headers: { 'Retry-After': '5' } }
+        );
+      }
+      if (claim.state === 'mismatch') {
+        return NextResponse.json(
+          { error: 'Idempotency-Key reused', details: 'This Idempotency-Key was already used with a different request body' },
+          { status: 422 }
+        );
+      }
+      claimedIdempotencyKey = idempotencyKey;
+    }
+
+    let draft: SavedDraft | null = null;
+    if (draftReference) {
+      draft = await getDraft(draftReference.draftId, draftReference.resumeToken);
+      if (!draft) {
+        await releaseClaimedKey();
+        return NextResponse.json(
+          { error: 'Draft not found', details: 'This draft no longer exists or has already been submitted' },
+          { status: 404 }
+        );
+      }
+    }
     
     // Log what we're about to insert
     console.log('💾 Preparing to insert application data:', {
       legalEntityName: data.legalEntityName,
-      taxEIN: data.taxEIN,
+      hasTaxEIN: !!data.taxEIN,
       phoneNo: data.phoneNo
     });
     
@@ -98,140 +171,28 @@ export async function POST(request: NextRequest) {
     });
     
     try {
-      // Combine separate address fields for database storage
-      const billToCityStateZip = `${data.billToCity}, ${data.billToState} ${data.billToZip}`;
-      const shipToCityStateZip = `${data.shipToCity}, ${data.shipToState} ${data.shipToZip}`;
-      
-      const [application] = await db.insert(customerApplications).values({
-        legalEntityName: data.legalEntityName || '',
-        dba: data.dba,
-        taxEIN: data.taxEIN || '',
-        dunsNumber: data.dunsNumber,
-        phoneNo: data.phoneNo || '',
-        billToAddress: data.billToAddress || '',
-        billToCityStateZip: billToCityStateZip,
-        shipToAddress: data.shipToAddress || '',
-        shipToCityStateZip: shipToCityStateZip,
-        buyerNameEmail: data.buyerNameEmail || '',
-        accountsPayableNameEmail: data.accountsPayableNameEmail || '',
-        wantInvoicesEmailed: data.wantInvoicesEmailed,
-        invoiceEmail: data.invoiceEmail,
-        termsAgreed: data.termsAgreed,
-      }).returning();
-
-      console.log('✅ Application inserted successfully:', {
-        id: application.id,
-        legalEntityName: application.legalEntityName,
-        createdAt: application.createdAt
+      const intake = await recordApplication(data, {
+        ipAddress: clientIP,
+        userAgent,
+        changedBy: 'customer',
+        draft,
+        // Stored with the application, so a retry can never see the application without its response
+        beforeCommit: async (tx, result) => {
+          if (claimedIdempotencyKey) {
+            await completeIdempotencyKey(IDEMPOTENCY_ENDPOINT, claimedIdempotencyKey, {
+              statusCode: 201,
+              body: submissionResponseBody(result),
+              applicationId: result.application.id,
+            }, tx);
+          }
+        },
       });
 
-      if (!application) {
-        throw new Error('Failed to create application record');
-      }
-
-      // Insert trade references if provided
-      const tradeReferencesToInsert = [];
-      
-      if (data.trade1Name) {
-        const trade1CityStateZip = data.trade1City && data.trade1State && data.trade1Zip 
-          ? `${data.trade1City}, ${data.trade1State} ${data.trade1Zip}` 
-          : '';
-        tradeReferencesToInsert.push({
-          applicationId: application.id,
-          name: data.trade1Name,
-          faxNo: data.trade1FaxNo,
-          address: data.trade1Address,
-          email: data.trade1Email,
-          cityStateZip: trade1CityStateZip,
-          attn: data.trade1Attn,
-        });
-      }
-
-      if (data.trade2Name) {
-        const trade2CityStateZip = data.trade2City && data.trade2State && data.trade2Zip 
-          ? `${data.trade2City}, ${data.trade2State} ${data.trade2Zip}` 
-          : '';
-        tradeReferencesToInsert.push({
-          applicationId: application.id,
-          name: data.trade2Name,
-          faxNo: data.trade2FaxNo,
-          address: data.trade2Address,
-          email: data.trade2Email,
-          cityStateZip: trade2CityStateZip,
-          attn: data.trade2Attn,
-        });
-      }
-
-      if (data.trade3Name) {
-        const trade3CityStateZip = data.trade3City && data.trade3State && data.trade3Zip 
-          ? `${data.trade3City}, ${data.trade3State} ${data.trade3Zip}` 
-          : '';
-        tradeReferencesToInsert.push({
-          applicationId: application.id,
-          name: data.trade3Name,
-          faxNo: data.trade3FaxNo,
-          address: data.trade3Address,
-          email: data.trade3Email,
-          cityStateZip: trade3CityStateZip,
-          attn: data.trade3Attn,
-        });
-      }
-
-      // Insert all trade references at once if any exist
-      if (tradeReferencesToInsert.length > 0) {
-        console.log(`🔍 Inserting ${tradeReferencesToInsert.length} trade references...`);
-        await db.insert(tradeReferences).values(tradeReferencesToInsert);
-        console.log('✅ Trade references inserted successfully');
-      } else {
-        console.log('ℹ️ No trade references to insert');
-      }
-
       // Send basic response immediately
-      const response = NextResponse.json({
-        success: true,
-        message: 'Application submitted successfully',
-        application: {
-          id: application.id,
-          legalEntityName: application.legalEntityName,
-          createdAt: application.createdAt,
-        },
-      }, { status: 201 });
+      const response = NextResponse.json(submissionResponseBody(intake), { status: 201 });
 
-      // Use waitUntil for background processing
-      waitUntil(
-        Promise.all([
-          // Send application summary email
-          sendApplicationSummary({
-            id: application.id,
-            ...data,
-            // Include combined fields for backward compatibility
-            billToCityStateZip,
-            shipToCityStateZip,
-          }).catch(error => {
-            console.error('❌ Failed to send application summary:', error);
-          }),
-          
-          // Process with AI
-          import('@/lib/ai-processor').then(({ processApplicationWithAI, sendAIAnalysisReport }) => 
-            processApplicationWithAI(application.id)
-              .then(aiDecision => {
-                console.log('✅ AI processing completed:', aiDecision.decision);
-                return sendAIAnalysisReport({
-                  id: application.id,
-                  ...data,
-                  // Include combined fields for backward compatibility
-                  billToCityStateZip,
-                  shipToCityStateZip,
-                }, aiDecision);
-              })
-              .then(() => {
-                console.log('📧 AI analysis report sent successfully');
-              })
-          ).catch(error => {
-            console.error('❌ AI processing failed:', error);
-          })
-        ])
-      );
+      // Use waitUntil for background processing, which only starts once the intake has committed
+      waitUntil(processSubmittedApplication(data, intake));
 
       return response;
 
@@ -252,6 +213,7 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('💥 Error in /api/applications:', error);
+    await releaseClaimedKey();
     
     // Log detailed error information
     if (error instanceof Error) {
@@ -262,6 +224,14 @@ export async function POST(request: NextRequest) {
       });
     }
     
+    // The draft was submitted (or withdrawn) by another request in the meantime
+    if (error instanceof InvalidStatusTransitionError) {
+      return NextResponse.json(
+        { error: 'Draft already submitted', details: 'This draft has already been submitted' },
+        { status: 409 }
+      );
+    }
+
     // Handle specific database errors
     if (error instanceof Error) {
       // Handle unique constraint violations
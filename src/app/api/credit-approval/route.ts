@@ -1,9 +1,15 @@
 import { NextResponse, type NextRequest } from 'next/server';
+import { waitUntil } from '@vercel/functions';
 import { db } from '@/lib/db';
-import { creditApprovals, customerApplications } from '@/lib/schema';
+import { creditApprovals, customerApplications, type CreditApproval } from '@/lib/schema';
 import { sendEmail } from '@/lib/email';
 import { eq, and } from 'drizzle-orm';
 import crypto from 'crypto';
+import { canTransition, InvalidStatusTransitionError, transitionApplicationStatus } from '@/lib/application-status';
+import { emitApplicationEvent } from '@/lib/webhooks';
+import { getLatestPaymentTerms, getLatestReasonCodes } from '@/lib/credit-analyses';
+import { getCurrentScorecard } from '@/lib/scorecard';
+import { NOTICE_REASON_LIMIT, type AdverseActionReason } from '@/lib/reason-codes';
 
 // Security utilities for signed URLs
 function generateSignedUrl(applicationId: string, decision: string, amount?: string): string {
@@ -132,43 +138,89 @@ export async function GET(request: NextRequest) {
 
     const finalDecision = decision.toUpperCase(); // Use raw values: 'APPROVE' or 'DENY'
     const approvedAmount = finalDecision === 'APPROVE' ? parseInt(amount || '1000000', 10) : null; // Default $10k in cents
+    const targetStatus = finalDecision === 'APPROVE' ? 'approved' : 'denied';
 
-    // Insert or update approval record
-    if (existingApproval) {
-      await db
-        .update(creditApprovals)
-        .set({
-          decision: finalDecision,
-          approvedAmount: approvedAmount,
-          approvedTerms: 'Net 30',
-          approverEmail: 'andre@alliancechemical.com',
-          customerNotified: false,
-          updatedAt: new Date(),
-        })
-        .where(eq(creditApprovals.id, existingApproval.id));
-    } else {
-      await db.insert(creditApprovals).values({
-        applicationId: appId,
-        decision: finalDecision,
-        approvedAmount: approvedAmount,
-        approvedTerms: 'Net 30',
-        approverEmail: 'andre@alliancechemical.com',
-        customerNotified: false,
+    // Decisions are only accepted once the AI report has been sent for review
+    if (!canTransition(application.status, targetStatus)) {
+      return notAwaitingDecision(application.status, targetStatus);
+    }
+
+    // Approvals get the terms the analysis recommended from its scorecard tier, or the
+    // current scorecard's APPROVE terms when no analysis recorded any
+    const approvedTerms = finalDecision === 'APPROVE'
+      ? (await getLatestPaymentTerms(appId)) ?? (await getCurrentScorecard()).definition.tiers.APPROVE.paymentTerms
+      : null;
+
+    // Record the decision and move the status together, so a failed transition
+    // doesn't leave a decision on an application that never moved
+    let approval: CreditApproval;
+    try {
+      approval = await db.transaction(async (tx) => {
+        // Insert or update approval record
+        const [recorded] = existingApproval
+          ? await tx
+              .update(creditApprovals)
+              .set({
+                decision: finalDecision,
+                approvedAmount: approvedAmount,
+                approvedTerms,
+                approverEmail: 'andre@alliancechemical.com',
+                customerNotified: false,
+                updatedAt: new Date(),
+              })
+              .where(eq(creditApprovals.id, existingApproval.id))
+              .returning()
+          : await tx.insert(creditApprovals).values({
+              applicationId: appId,
+              decision: finalDecision,
+              approvedAmount: approvedAmount,
+              approvedTerms,
+              approverEmail: 'andre@alliancechemical.com',
+              customerNotified: false,
+            }).returning();
+
+        await transitionApplicationStatus(appId, targetStatus, {
+          changedBy: 'andre@alliancechemical.com',
+          reason: finalDecision === 'APPROVE'
+            ? `Approved for $${((approvedAmount || 1000000) / 100).toLocaleString()}`
+            : 'Denied by approver',
+        }, tx);
+
+        return recorded;
       });
+    } catch (error) {
+      if (!(error instanceof InvalidStatusTransitionError)) {
+        throw error;
+      }
+      // The application moved on (e.g. was withdrawn) after we checked it
+      return notAwaitingDecision(error.fromStatus, targetStatus);
     }
 
     console.log(`✅ Decision recorded: ${finalDecision} for application ${appId}`);
 
+    // Notify webhook subscribers (ERP, CRM) without holding up the approver's page
+    waitUntil(finalDecision === 'APPROVE'
+      ? emitApplicationEvent('application.approved', appId, {
+          approvedAmount: (approvedAmount || 1000000) / 100, // Dollars
+          approvedTerms: approval.approvedTerms,
+          decidedBy: 'andre@alliancechemical.com',
+        })
+      : emitApplicationEvent('application.denied', appId, { decidedBy: 'andre@alliancechemical.com' }));
+
     // Send customer notification emails
     if (finalDecision === 'APPROVE') {
-      await sendCustomerApprovalEmail(application, approvedAmount || 1000000);
+      await sendCustomerApprovalEmail(application, approvedAmount || 1000000, approval.approvedTerms ?? '');
     } else {
-      await sendCustomerDenialEmail(application);
+      const reasons = await getLatestReasonCodes(appId).catch(error => {
+        console.error('❌ Failed to load reason codes for denial notice:', error);
+        return [];
+      });
+      await sendCustomerDenialEmail(application, reasons);
     }
 
     // Return success page
     const successMessage = finalDecision === 'APPROVE' 
-      ? `Application APPROVED for $${((approvedAmount || 1000000) / 100).toLocaleString()} credit limit with Net 30 terms.`
+      ? `Application APPROVED for $${((approvedAmount || 1000000) / 100).toLocaleString()} credit limit with ${approval.approvedTerms} terms.`
       : 'Application DENIED.';
 
     return new Response(`
@@ -226,8 +278,20 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Page shown when the application is not in a status that accepts the decision
+function notAwaitingDecision(status: string, targetStatus: string): Response {
+  return new Response(`
+    <html>
+      <body style="font-family: Arial, sans-serif; text-align: center; padding: 50px;">
+        <h2>⚠️ Not Awaiting Decision</h2>
+        <p>This application is currently <strong>${status.replace('_', ' ')}</strong> and cannot be ${targetStatus} right now.</p>
+      </body>
+    </html>
+  `, { status: 409, headers: { 'Content-Type': 'text/html' } });
+}
+
 // Send approval email to customer
-async function sendCustomerApprovalEmail(application: any, approvedAmountCents: number) {
+async function sendCustomerApprovalEmail(application: any, approvedAmountCents: number, paymentTerms: string) {
   const approvedAmount = approvedAmountCents / 100;
   
   // Collect all customer email contacts
@@ -277,7 +341,7 @@ async function sendCustomerApprovalEmail(application: any, approvedAmountCents:
       <h3 style="color: #059669; margin-top: 0;">📋 Your Credit Terms</h3>
       <ul style="text-align: left; margin: 0; padding-left: 20px;">
         <li><strong>Credit Limit:</strong> $${approvedAmount.toLocaleString()}</li>
-        <li><strong>Payment Terms:</strong> Net 30 days</li>
+        <li><strong>Payment Terms:</strong> ${paymentTerms}</li>
         <li><strong>Effective Date:</strong> ${new Date().toLocaleDateString()}</li>
         <li><strong>Account Status:</strong> Active & Ready</li>
       </ul>
@@ -290,7 +354,7 @@ async function sendCustomerApprovalEmail(application: any, approvedAmountCents:
         <li>📋 Send all future Purchase Orders to: <strong>sales@alliancechemical.com</strong></li>
         <li>📧 Our sales team will process your orders within 24 hours</li>
         <li>🚚 We'll coordinate delivery and provide tracking information</li>
-        <li>💳 Invoices will be sent with Net 30 payment terms</li>
+        <li>💳 Invoices will be sent with ${paymentTerms} payment terms</li>
       </ul>
     </div>
 
@@ -323,13 +387,13 @@ Congratulations! Your credit application has been APPROVED.
 APPROVAL DETAILS:
 Company: ${application.legalEntityName}
 Credit Limit: $${approvedAmount.toLocaleString()}
-Payment Terms: Net 30 days
+Payment Terms: ${paymentTerms}
 Effective Date: ${new Date().toLocaleDateString()}
 
 NEXT STEPS:
 - Send all Purchase Orders to: sales@alliancechemical.com
 - Our sales team will process orders within 24 hours
-- Invoices will be sent with Net 30 payment terms
+- Invoices will be sent with ${paymentTerms} payment terms
 
 READY TO ORDER?
 Send your first PO to sales@alliancechemical.com and we'll get it processed immediately!
@@ -370,8 +434,10 @@ Alliance Chemical Team
   }
 }
 
-// Send denial email to customer
-async function sendCustomerDenialEmail(application: any) {
+// Send denial email to customer, naming the principal reasons from the latest analysis
+async function sendCustomerDenialEmail(application: any, reasons: AdverseActionReason[]) {
+  const principalReasons = reasons.slice(0, NOTICE_REASON_LIMIT);
+
   // Collect all customer email contacts
   const customerEmails = [
     application.buyerNameEmail,
@@ -406,7 +472,12 @@ async function sendCustomerDenialEmail(application: any) {
     <p>Dear ${application.legalEntityName} team,</p>
     
     <p>Thank you for submitting your credit application. After careful review, we are unable to approve credit terms at this time.</p>
-    
+    ${principalReasons.length > 0 ? `
+    <p><strong>Principal reasons for this decision:</strong></p>
+    <ul>
+      ${principalReasons.map(reason => `<li>${reason.description} (${reason.code})</li>`).join('')}
+    </ul>
+    ` : ''}
     <p><strong>Alternative Options:</strong></p>
     <ul>
       <li>Cash in Advance (CIA) terms are available</li>
@@ -431,7 +502,10 @@ Credit Application Update
 Dear ${application.legalEntityName} team,
 
 Thank you for submitting your credit application. After careful review, we are unable to approve credit terms at this time.
-
+${principalReasons.length > 0 ? `
+Principal reasons for this decision:
+${principalReasons.map(reason => `- ${reason.description} (${reason.code})`).join('\n')}
+` : ''}
 Alternative Options:
 - Cash in Advance (CIA) terms are available
 - Prepayment arrangements can be made  
@@ -0,0 +1,134 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { waitUntil } from '@vercel/functions';
+import { db } from '@/lib/db';
+import { informationRequestResponseSchema, validationErrorDetails } from '@/lib/validation';
+import {
+  getInformationRequestView,
+  IncompleteInformationResponseError,
+  InformationRequestConflictError,
+  reanalyzeAfterInformationRequest,
+  respondToInformationRequest,
+  type InformationRequestView,
+} from '@/lib/information-requests';
+
+// What the customer sees through the emailed link; staff-only fields are left out
+function customerView(informationRequest: InformationRequestView) {
+  return {
+    id: informationRequest.id,
+    applicationId: informationRequest.applicationId,
+    legalEntityName: informationRequest.legalEntityName,
+    items: informationRequest.items,
+    message: informationRequest.message,
+    status: informationRequest.status,
+    answers: informationRequest.answers,
+    documents: informationRequest.documents,
+    fulfilledAt: informationRequest.fulfilledAt,
+  };
+}
+
+// Load a request from its emailed link (?request=&token=)
+export async function GET(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const requestId = parseInt(request.nextUrl.searchParams.get('request') ?? '', 10);
+    const token = request.nextUrl.searchParams.get('token');
+    if (!Number.isInteger(requestId) || requestId <= 0 || !token) {
+      return NextResponse.json(
+        { error: 'Invalid link', details: 'request and token query parameters are required' },
+        { status: 400 }
+      );
+    }
+
+    const informationRequest = await getInformationRequestView(requestId, token);
+    if (!informationRequest) {
+      return NextResponse.json(
+        { error: 'Information request not found', details: 'This link is invalid' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ informationRequest: customerView(informationRequest) });
+  } catch (error) {
+    console.error('❌ Failed to load information request:', error);
+    return NextResponse.json(
+      { error: 'Failed to load information request', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// The customer's response: { requestId, token, answers: [{ itemIndex, answer }], message }.
+// Requested documents are uploaded first through /api/upload with the same token.
+export async function POST(request: NextRequest) {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = informationRequestResponseSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationErrorDetails(validationResult.error)
+        },
+        { status: 400 }
+      );
+    }
+
+    const informationRequest = await respondToInformationRequest(validationResult.data);
+    if (!informationRequest) {
+      return NextResponse.json(
+        { error: 'Information request not found', details: 'This link is invalid' },
+        { status: 404 }
+      );
+    }
+
+    // The application is analyzed again with the new material once the response is stored
+    waitUntil(reanalyzeAfterInformationRequest(informationRequest));
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thank you. We have received your information and will continue reviewing your application.',
+      informationRequest: customerView(informationRequest),
+    });
+  } catch (error) {
+    if (error instanceof IncompleteInformationResponseError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.details },
+        { status: 400 }
+      );
+    }
+    if (error instanceof InformationRequestConflictError) {
+      return NextResponse.json(
+        { error: 'Information request closed', details: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Failed to record information request response:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit your response', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
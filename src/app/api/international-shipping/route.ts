@@ -0,0 +1,87 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { waitUntil } from '@vercel/functions';
+import { db } from '@/lib/db';
+import { internationalShippingRequests } from '@/lib/schema';
+import { sendShippingRequestNotification } from '@/lib/email';
+import { internationalShippingRequestSchema, type InternationalShippingRequestData } from '@/lib/validation';
+
+export async function POST(request: NextRequest) {
+  console.log('🚢 International Shipping API called');
+
+  try {
+    if (!db) {
+      console.error('❌ Database connection is not available in /api/international-shipping');
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch (error) {
+      console.error('❌ Failed to parse JSON in international shipping API:', error);
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = internationalShippingRequestSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      const clientIP = request.headers.get('x-forwarded-for') || request.ip || 'unknown';
+      console.warn(`🔒 Shipping request validation failure from ${clientIP}: ${JSON.stringify(validationResult.error.issues)}`);
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const data: InternationalShippingRequestData = validationResult.data;
+
+    const [shippingRequest] = await db.insert(internationalShippingRequests).values({
+      ...data,
+      // Only keep the free-text "other" answers when "other" was chosen
+      customShippingMethod: data.shippingMethod === 'other' ? data.customShippingMethod : null,
+      customPurpose: data.purposeOfShipment === 'other' ? data.customPurpose : null,
+      trackingRequired: data.trackingRequired ?? false,
+      insuranceRequired: data.insuranceRequired ?? false,
+      status: 'pending',
+    }).returning();
+
+    console.log('✅ Shipping request inserted successfully:', {
+      id: shippingRequest.id,
+      country: shippingRequest.country,
+      createdAt: shippingRequest.createdAt
+    });
+
+    waitUntil(
+      sendShippingRequestNotification(shippingRequest).catch(error => {
+        console.error('❌ Failed to send shipping request notification:', error);
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Shipping request submitted successfully',
+      shippingRequest: {
+        id: shippingRequest.id,
+        status: shippingRequest.status,
+        createdAt: shippingRequest.createdAt,
+      },
+    }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Failed to create shipping request:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit shipping request', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
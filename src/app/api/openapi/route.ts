@@ -0,0 +1,7 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// OpenAPI 3.1 description of these routes, generated from the zod schemas in validation.ts
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
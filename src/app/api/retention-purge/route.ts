@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { runRetentionPurge } from '@/lib/retention';
+import { hasCronCredential } from '@/lib/admin-auth';
+
+// Deletes applications and documents past their retention period (see retention-policy.ts).
+// Runs daily from vercel.json; ?dryRun=true lists what would be purged without deleting.
+export async function GET(request: NextRequest) {
+  console.log('🧹 Retention purge triggered');
+
+  if (!hasCronCredential(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database connection not available. Service temporarily unavailable.' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+    const result = await runRetentionPurge({ dryRun });
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      message: dryRun ? 'Retention purge dry run completed' : 'Retention purge completed',
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ Retention purge failed:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Retention purge failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Support POST for manual trigger
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -1,8 +1,12 @@
 import { NextResponse, type NextRequest } from 'next/server';
+import { waitUntil } from '@vercel/functions';
 import { db } from '@/lib/db';
 import { digitalSignatures, customerApplications } from '@/lib/schema';
 import { digitalSignatureSchema, type DigitalSignatureData } from '@/lib/validation';
 import { eq } from 'drizzle-orm';
+import { canTransition, isTerminalStatus, transitionApplicationStatus } from '@/lib/application-status';
+import { getCurrentTerms } from '@/lib/terms';
+import { emitApplicationEvent } from '@/lib/webhooks';
 
 export async function POST(request: NextRequest) {
   try {
@@ -61,6 +65,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A saved draft is signed only after it has been submitted
+    if (existingApplication.status === 'draft') {
+      return NextResponse.json(
+        { error: 'Application not submitted', details: 'This application is still a draft and must be submitted before it can be signed' },
+        { status: 409 }
+      );
+    }
+
+    // Closed applications (decided, withdrawn or expired) can no longer be signed
+    if (isTerminalStatus(existingApplication.status)) {
+      return NextResponse.json(
+        { error: 'Application closed', details: `This application is ${existingApplication.status} and can no longer be signed` },
+        { status: 409 }
+      );
+    }
+
     // Check if a signature already exists for this application
     const [existingSignature] = await db
       .select()
@@ -75,19 +95,68 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Insert the digital signature
-    const [signature] = await db.insert(digitalSignatures).values({
-      applicationId: data.applicationId,
-      signatureHash: data.signatureHash,
-      ipAddress: data.ipAddress,
-      userAgent: data.userAgent,
-      signedDocumentUrl: data.signedDocumentUrl,
-    }).returning();
-
-    if (!signature) {
-      throw new Error('Failed to create signature record');
+    // The customer must have signed the terms that are in effect now, exactly as published.
+    // A mismatch means the terms changed while the signature step was open.
+    const currentTerms = await getCurrentTerms();
+    if (!currentTerms) {
+      return NextResponse.json(
+        { error: 'Terms not available', details: 'No active terms version has been published' },
+        { status: 503 }
+      );
+    }
+
+    if (data.termsVersion !== currentTerms.version || data.termsContentHash !== currentTerms.contentHash) {
+      console.warn(`⚠️ Application #${data.applicationId} signed terms ${data.termsVersion}, current version is ${currentTerms.version}`);
+      return NextResponse.json(
+        { error: 'Terms have changed', details: 'The terms and conditions were updated. Please review the current terms and sign again.' },
+        { status: 409 }
+      );
     }
 
+    // Store the signature and move the status together. The application row is locked
+    // first so the background analysis can't change the status between our check and
+    // the transition.
+    const signature = await db.transaction(async (tx) => {
+      const [application] = await tx
+        .select({ status: customerApplications.status })
+        .from(customerApplications)
+        .where(eq(customerApplications.id, data.applicationId))
+        .limit(1)
+        .for('update');
+
+      const [inserted] = await tx.insert(digitalSignatures).values({
+        applicationId: data.applicationId,
+        signatureHash: data.signatureHash,
+        ipAddress: data.ipAddress,
+        userAgent: data.userAgent,
+        signedDocumentUrl: data.signedDocumentUrl,
+        termsVersion: currentTerms.version,
+        termsContentHash: currentTerms.contentHash,
+      }).returning();
+
+      if (!inserted) {
+        throw new Error('Failed to create signature record');
+      }
+
+      // Only a freshly submitted application moves to 'signed'; if the AI step already
+      // finished, the signature is stored without moving the status backwards
+      if (canTransition(application.status, 'signed')) {
+        await transitionApplicationStatus(data.applicationId, 'signed', {
+          changedBy: 'customer',
+          reason: 'Terms and conditions signed',
+        }, tx);
+      } else {
+        console.log(`ℹ️ Application #${data.applicationId} is ${application.status}; signature recorded without status change`);
+      }
+
+      return inserted;
+    });
+
+    waitUntil(emitApplicationEvent('application.signed', data.applicationId, {
+      termsVersion: signature.termsVersion,
+      signedAt: signature.signedAt,
+    }));
+
     return NextResponse.json({
       success: true,
       message: 'Digital signature recorded successfully',
@@ -98,6 +167,8 @@ export async function POST(request: NextRequest) {
         ipAddress: signature.ipAddress,
         userAgent: signature.userAgent,
         signedDocumentUrl: signature.signedDocumentUrl,
+        termsVersion: signature.termsVersion,
+        termsContentHash: signature.termsContentHash,
         signedAt: signature.signedAt,
         createdAt: signature.createdAt,
       },
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getCurrentTerms } from '@/lib/terms';
+
+// Current terms & conditions, rendered in the signature step
+export async function GET() {
+  try {
+    if (!db) {
+      return NextResponse.json(
+        { error: 'Database connection not available. Service temporarily unavailable.' },
+        { status: 503 }
+      );
+    }
+
+    const currentTerms = await getCurrentTerms();
+    if (!currentTerms) {
+      console.error('❌ No active terms version found in alliance_chemical.terms');
+      return NextResponse.json(
+        { error: 'Terms not available', details: 'No active terms version has been published' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(currentTerms);
+  } catch (error) {
+    console.error('❌ Failed to load terms:', error);
+    return NextResponse.json(
+      { error: 'Failed to load terms', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,51 +1,20 @@
 import { NextResponse, type NextRequest } from 'next/server';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { db } from '@/lib/db';
-import { vendorForms, customerApplications } from '@/lib/schema';
+import { customerApplications } from '@/lib/schema';
 import { fileUploadSchema } from '@/lib/validation';
 import { eq } from 'drizzle-orm';
-import { 
-  AWS_ACCESS_KEY_ID, 
-  AWS_SECRET_ACCESS_KEY, 
-  AWS_REGION, 
-  AWS_S3_BUCKET_NAME 
-} from '@/lib/config';
-
-// Initialize S3 client only if credentials are provided
-let s3Client: S3Client | null = null;
-if (AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY && AWS_REGION && AWS_S3_BUCKET_NAME) {
-  try {
-    s3Client = new S3Client({
-      region: AWS_REGION,
-      credentials: {
-        accessKeyId: AWS_ACCESS_KEY_ID,
-        secretAccessKey: AWS_SECRET_ACCESS_KEY,
-      },
-    });
-    console.log(`S3 client initialized with region: ${AWS_REGION}`);
-  } catch (error) {
-    console.error('Failed to initialize S3 client:', error);
-  }
-} else {
-  console.warn("AWS S3 credentials or region/bucket not fully configured. File upload API will not function.");
-}
-
-// File validation constants
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ALLOWED_FILE_TYPES = [
-  'application/pdf',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'image/jpeg',
-  'image/png',
-  'image/gif',
-  'text/plain',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-];
+import { getInformationRequestByToken } from '@/lib/information-requests';
+import {
+  checkUploadedFile,
+  describeS3UploadError,
+  FileRejectedError,
+  isUploadStorageConfigured,
+  storeVendorForm,
+  vendorFormResponse,
+} from '@/lib/vendor-form-uploads';
 
 export async function POST(request: NextRequest) {
-  if (!s3Client || !AWS_S3_BUCKET_NAME) {
+  if (!isUploadStorageConfigured()) {
     console.error('S3 client or bucket name is not configured.');
     return NextResponse.json(
       { error: 'File upload service is not configured correctly.' },
@@ -65,6 +34,8 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const applicationIdStr = formData.get('applicationId') as string | null;
+    const informationRequestIdStr = formData.get('informationRequestId') as string | null;
+    const requestToken = formData.get('token') as string | null;
 
     // Validate file
     if (!file) {
@@ -74,84 +45,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Enhanced file validation
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { error: 'File too large', details: `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB` },
-        { status: 400 }
-      );
-    }
-
-    // Validate file type by MIME type and extension
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      return NextResponse.json(
-        { error: 'Invalid file type', details: `Allowed types: ${ALLOWED_FILE_TYPES.join(', ')}` },
-        { status: 400 }
-      );
-    }
-
-    // Additional security: Check file extension matches MIME type
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
-    const mimeTypeMapping: { [key: string]: string[] } = {
-      'pdf': ['application/pdf'],
-      'doc': ['application/msword'],
-      'docx': ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
-      'jpg': ['image/jpeg'],
-      'jpeg': ['image/jpeg'],
-      'png': ['image/png'],
-      'gif': ['image/gif'],
-      'txt': ['text/plain'],
-      'xls': ['application/vnd.ms-excel'],
-      'xlsx': ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
-    };
-
-    if (fileExtension && mimeTypeMapping[fileExtension]) {
-      if (!mimeTypeMapping[fileExtension].includes(file.type)) {
-        return NextResponse.json(
-          { error: 'File extension does not match content type' },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Validate filename for path traversal attacks
-    if (file.name.includes('..') || file.name.includes('/') || file.name.includes('\\')) {
-      return NextResponse.json(
-        { error: 'Invalid filename' },
-        { status: 400 }
-      );
-    }
-
-    // Basic content scanning for malicious files
-    const fileBuffer = Buffer.from(await file.arrayBuffer());
-    const suspiciousPatterns = [
-      /<script/i,
-      /javascript:/i,
-      /vbscript:/i,
-      /onclick/i,
-      /onerror/i,
-      /onload/i,
-      /eval\(/i,
-      /document\.write/i
-    ];
-
-    const fileContent = fileBuffer.toString('utf-8', 0, Math.min(fileBuffer.length, 1024));
-    for (const pattern of suspiciousPatterns) {
-      if (pattern.test(fileContent)) {
-        console.warn(`🔒 Suspicious file content detected in upload from ${request.ip}: ${file.name}`);
-        return NextResponse.json(
-          { error: 'File content not allowed' },
-          { status: 400 }
-        );
-      }
-    }
+    const fileBuffer = await checkUploadedFile(file, request.ip || 'unknown');
 
     // Validate application ID using Zod schema
-    const validationResult = fileUploadSchema.safeParse({ applicationId: applicationIdStr });
+    const validationResult = fileUploadSchema.safeParse({
+      applicationId: applicationIdStr,
+      informationRequestId: informationRequestIdStr ?? undefined,
+      token: requestToken ?? undefined,
+    });
     if (!validationResult.success) {
       return NextResponse.json(
-        { 
-          error: 'Validation failed', 
+        {
+          error: 'Validation failed',
           details: validationResult.error.issues.map(issue => ({
             field: issue.path.join('.'),
             message: issue.message
@@ -177,89 +82,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate a unique file name (reuse fileExtension from validation)
-    const timestamp = Date.now();
-    const randomString = Math.random().toString(36).substring(2, 10);
-    const uniqueFileName = `${timestamp}-${randomString}.${fileExtension || 'bin'}`;
-    const s3Key = `vendor-forms/${applicationId}/${uniqueFileName}`;
-
-    // Upload file to S3 (reuse the buffer from content scanning)
-    try {
-      await s3Client.send(new PutObjectCommand({
-        Bucket: AWS_S3_BUCKET_NAME,
-        Key: s3Key,
-        Body: fileBuffer,
-        ContentType: file.type || 'application/octet-stream',
-        // Add metadata for better tracking
-        Metadata: {
-          'original-filename': file.name,
-          'application-id': applicationId.toString(),
-          'upload-timestamp': timestamp.toString(),
-        },
-        // For private files, don't set public read ACL
-        // ServerSideEncryption: 'AES256', // Optional: encrypt files at rest
-      }));
-    } catch (s3Error) {
-      console.error('S3 upload error:', s3Error);
-      if (s3Error instanceof Error) {
-        if (s3Error.name === 'NoSuchBucket') {
-          return NextResponse.json(
-            { 
-              error: 'S3 bucket does not exist', 
-              details: `Bucket ${AWS_S3_BUCKET_NAME} not found in region ${AWS_REGION}` 
-            },
-            { status: 500 }
-          );
-        }
-        if (s3Error.name === 'InvalidAccessKeyId' || s3Error.name === 'SignatureDoesNotMatch') {
-          return NextResponse.json(
-            { 
-              error: 'AWS credentials error', 
-              details: 'Invalid AWS credentials or region mismatch' 
-            },
-            { status: 500 }
-          );
-        }
+    // Uploads through an information request link must match that request's application
+    let informationRequestId: number | undefined;
+    if (validationResult.data.informationRequestId) {
+      const informationRequest = await getInformationRequestByToken(
+        parseInt(validationResult.data.informationRequestId, 10),
+        validationResult.data.token!
+      );
+      if (!informationRequest || informationRequest.applicationId !== applicationId) {
+        return NextResponse.json(
+          { error: 'Information request not found', details: 'The link is invalid or belongs to another application' },
+          { status: 404 }
+        );
       }
-      throw s3Error; // Re-throw to be caught by outer catch
+      if (informationRequest.status !== 'open') {
+        return NextResponse.json(
+          { error: 'Information request closed', details: 'This request has already been answered or withdrawn' },
+          { status: 409 }
+        );
+      }
+      informationRequestId = informationRequest.id;
     }
 
-    // Store S3 key instead of public URL for security
-    // This allows for generating pre-signed URLs when needed
-    const fileUrl = `s3://${AWS_S3_BUCKET_NAME}/${s3Key}`;
-
-    // Store file metadata in the database
-    const [vendorFormRecord] = await db.insert(vendorForms).values({
-      applicationId: applicationId,
-      fileName: file.name,
-      fileUrl: fileUrl,
-      fileType: file.type || 'application/octet-stream',
-      fileSize: file.size,
-      uploadedAt: new Date(),
-    }).returning();
-
-    if (!vendorFormRecord) {
-      throw new Error('Failed to create vendor form record');
-    }
+    const vendorFormRecord = await storeVendorForm(applicationId, file, fileBuffer, { informationRequestId });
 
     return NextResponse.json({
       success: true,
       message: 'File uploaded and metadata stored successfully.',
-      vendorForm: {
-        id: vendorFormRecord.id,
-        applicationId: vendorFormRecord.applicationId,
-        fileName: vendorFormRecord.fileName,
-        fileType: vendorFormRecord.fileType,
-        fileSize: vendorFormRecord.fileSize,
-        createdAt: vendorFormRecord.createdAt,
-        // Don't expose the actual S3 URL for security
-        // fileUrl: vendorFormRecord.fileUrl,
-      },
+      vendorForm: vendorFormResponse(vendorFormRecord),
     }, { status: 201 });
 
   } catch (error) {
     console.error('Error uploading file:', error);
-    
+
+    if (error instanceof FileRejectedError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+
+    const s3Error = describeS3UploadError(error);
+    if (s3Error) {
+      return NextResponse.json(s3Error, { status: 500 });
+    }
+
     // Handle specific errors
     if (error instanceof Error) {
       // Handle database-specific errors
@@ -273,11 +140,11 @@ export async function POST(request: NextRequest) {
 
     // Generic error response
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to upload file',
         details: error instanceof Error ? error.message : 'Unknown error occurred'
       },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,105 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { customerApplications } from '@/lib/schema';
+import { and, eq } from 'drizzle-orm';
+import { apiKeyErrorResponse, authenticateApiKey, rateLimitHeaders } from '@/lib/api-keys';
+import {
+  checkUploadedFile,
+  describeS3UploadError,
+  FileRejectedError,
+  isUploadStorageConfigured,
+  storeVendorForm,
+  vendorFormResponse,
+} from '@/lib/vendor-form-uploads';
+
+// Partner API: attach a document (multipart field "file") to an application submitted
+// with this key (scope documents:upload). Same checks and storage as /api/upload.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database connection not available. Service temporarily unavailable.' },
+      { status: 503 }
+    );
+  }
+  if (!isUploadStorageConfigured()) {
+    return NextResponse.json(
+      { error: 'File upload service is not configured correctly.' },
+      { status: 503 }
+    );
+  }
+
+  const auth = await authenticateApiKey(request, 'documents:upload');
+  if (!auth.ok) {
+    return apiKeyErrorResponse(auth);
+  }
+  const headers = rateLimitHeaders(auth.rateLimit);
+
+  try {
+    const applicationId = parseInt(params.id, 10);
+    if (!Number.isInteger(applicationId) || applicationId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid application ID', details: 'Application ID must be a positive integer' },
+        { status: 400, headers }
+      );
+    }
+
+    const [application] = await db
+      .select({ id: customerApplications.id })
+      .from(customerApplications)
+      .where(and(eq(customerApplications.id, applicationId), eq(customerApplications.apiKeyId, auth.apiKey.id)))
+      .limit(1);
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found', details: `No application #${applicationId} was submitted with this API key` },
+        { status: 404, headers }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: 'Send the document as multipart/form-data in a "file" field' },
+        { status: 400, headers }
+      );
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided', details: 'Send the document as multipart/form-data in a "file" field' },
+        { status: 400, headers }
+      );
+    }
+
+    const fileBuffer = await checkUploadedFile(file, `API key ${auth.apiKey.keyPrefix}…`);
+    const vendorFormRecord = await storeVendorForm(applicationId, file, fileBuffer);
+    console.log(`📎 Document uploaded to application #${applicationId} through the partner API by ${auth.apiKey.name}`);
+
+    return NextResponse.json({
+      success: true,
+      vendorForm: vendorFormResponse(vendorFormRecord),
+    }, { status: 201, headers });
+  } catch (error) {
+    console.error('❌ Failed to upload document through partner API:', error);
+
+    if (error instanceof FileRejectedError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400, headers }
+      );
+    }
+
+    const s3Error = describeS3UploadError(error);
+    if (s3Error) {
+      return NextResponse.json(s3Error, { status: 500, headers });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to upload file', details: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500, headers }
+    );
+  }
+}
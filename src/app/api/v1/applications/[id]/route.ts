@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { applicationStatusHistory, customerApplications } from '@/lib/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { apiKeyErrorResponse, authenticateApiKey, rateLimitHeaders } from '@/lib/api-keys';
+
+// Partner API: status of an application submitted with this key (scope applications:read).
+// Applications from other keys or the web form are reported as not found.
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database connection not available. Service temporarily unavailable.' },
+      { status: 503 }
+    );
+  }
+
+  const auth = await authenticateApiKey(request, 'applications:read');
+  if (!auth.ok) {
+    return apiKeyErrorResponse(auth);
+  }
+  const headers = rateLimitHeaders(auth.rateLimit);
+
+  try {
+    const applicationId = parseInt(params.id, 10);
+    if (!Number.isInteger(applicationId) || applicationId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid application ID', details: 'Application ID must be a positive integer' },
+        { status: 400, headers }
+      );
+    }
+
+    const [application] = await db
+      .select({
+        id: customerApplications.id,
+        legalEntityName: customerApplications.legalEntityName,
+        status: customerApplications.status,
+        applicationType: customerApplications.applicationType,
+        createdAt: customerApplications.createdAt,
+        updatedAt: customerApplications.updatedAt,
+      })
+      .from(customerApplications)
+      .where(and(eq(customerApplications.id, applicationId), eq(customerApplications.apiKeyId, auth.apiKey.id)))
+      .limit(1);
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found', details: `No application #${applicationId} was submitted with this API key` },
+        { status: 404, headers }
+      );
+    }
+
+    // Who made each change and why stays internal; partners see the statuses and when
+    const statusHistory = await db
+      .select({ status: applicationStatusHistory.toStatus, changedAt: applicationStatusHistory.createdAt })
+      .from(applicationStatusHistory)
+      .where(eq(applicationStatusHistory.applicationId, applicationId))
+      .orderBy(asc(applicationStatusHistory.createdAt), asc(applicationStatusHistory.id));
+
+    return NextResponse.json({ application: { ...application, statusHistory } }, { headers });
+  } catch (error) {
+    console.error('❌ Failed to load application status for partner API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load application', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500, headers }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { waitUntil } from '@vercel/functions';
+import { db } from '@/lib/db';
+import { customerApplicationSchema, validationErrorDetails, type CustomerApplicationData } from '@/lib/validation';
+import { apiKeyErrorResponse, authenticateApiKey, rateLimitHeaders } from '@/lib/api-keys';
+import { recordApplication, processSubmittedApplication, submissionResponseBody } from '@/lib/intake';
+import { claimIdempotencyKey, completeIdempotencyKey, isValidIdempotencyKey, releaseIdempotencyKey } from '@/lib/idempotency';
+
+// Partner API: submit an application on a customer's behalf (scope applications:submit).
+// Same body, validation and processing as the web form's POST /api/applications.
+export async function POST(request: NextRequest) {
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database connection not available. Service temporarily unavailable.' },
+      { status: 503 }
+    );
+  }
+
+  const auth = await authenticateApiKey(request, 'applications:submit');
+  if (!auth.ok) {
+    return apiKeyErrorResponse(auth);
+  }
+  const { apiKey } = auth;
+  const headers = rateLimitHeaders(auth.rateLimit);
+
+  // Keys are scoped per API key, so two partners can't collide on the same value
+  const idempotencyEndpoint = `POST /api/v1/applications (key ${apiKey.id})`;
+  let claimedIdempotencyKey: string | null = null;
+
+  try {
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body', details: 'Request body must be valid JSON' },
+        { status: 400, headers }
+      );
+    }
+
+    const validationResult = customerApplicationSchema.safeParse(requestData);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationErrorDetails(validationResult.error) },
+        { status: 400, headers }
+      );
+    }
+    const data: CustomerApplicationData = validationResult.data;
+
+    const idempotencyKey = request.headers.get('idempotency-key');
+    if (idempotencyKey !== null) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        return NextResponse.json(
+          { error: 'Invalid Idempotency-Key', details: 'Idempotency-Key must be 1-255 printable ASCII characters without spaces' },
+          { status: 400, headers }
+        );
+      }
+
+      const claim = await claimIdempotencyKey(idempotencyEndpoint, idempotencyKey, requestData);
+      if (claim.state === 'replay') {
+        return NextResponse.json(claim.responseBody, {
+          status: claim.statusCode,
+          headers: { ...headers, 'Idempotent-Replayed': 'true' }
+        });
+      }
+      if (claim.state === 'in_progress') {
+        return NextResponse.json(
+          { error: 'Submission in progress', details: 'A request with this Idempotency-Key is still being processed. Retry shortly.' },
+          { status: 409, headers: { ...headers, 'Retry-After': '5' } }
+        );
+      }
+      if (claim.state === 'mismatch') {
+        return NextResponse.json(
+          { error: 'Idempotency-Key reused', details: 'This Idempotency-Key was already used with a different request body' },
+          { status: 422, headers }
+        );
+      }
+      claimedIdempotencyKey = idempotencyKey;
+    }
+
+    const intake = await recordApplication(data, {
+      ipAddress: request.headers.get('x-forwarded-for') || request.ip || 'unknown',
+      userAgent: request.headers.get('user-agent') || '',
+      changedBy: `api-key:${apiKey.keyPrefix}`,
+      apiKeyId: apiKey.id,
+      beforeCommit: async (tx, result) => {
+        if (claimedIdempotencyKey) {
+          await completeIdempotencyKey(idempotencyEndpoint, claimedIdempotencyKey, {
+            statusCode: 201,
+            body: submissionResponseBody(result),
+            applicationId: result.application.id,
+          }, tx);
+        }
+      },
+    });
+    console.log(`🔌 Application #${intake.application.id} submitted through the partner API by ${apiKey.name}`);
+
+    waitUntil(processSubmittedApplication(data, intake));
+
+    return NextResponse.json(submissionResponseBody(intake), { status: 201, headers });
+  } catch (error) {
+    console.error('💥 Error in /api/v1/applications:', error);
+    if (claimedIdempotencyKey) {
+      await releaseIdempotencyKey(idempotencyEndpoint, claimedIdempotencyKey).catch(releaseError => {
+        console.error('❌ Failed to release Idempotency-Key:', releaseError);
+      });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to submit application', details: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500, headers }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { deliverDueWebhooks } from '@/lib/webhooks';
+import { hasCronCredential } from '@/lib/admin-auth';
+
+// Retries webhook deliveries whose backoff has elapsed (see webhooks.ts).
+// Runs every two minutes from vercel.json.
+export async function GET(request: NextRequest) {
+  if (!hasCronCredential(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database connection not available. Service temporarily unavailable.' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const result = await deliverDueWebhooks();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook retries processed',
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ Webhook retry run failed:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Webhook retry run failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Support POST for manual trigger
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,6 @@
+"use client";
+import InformationRequestForm from "@/components/InformationRequestForm";
+
+export default function InformationRequestPage() {
+  return <InformationRequestForm />;
+}
@@ -0,0 +1,6 @@
+"use client";
+import InternationalShippingForm from "@/components/InternationalShippingForm";
+
+export default function InternationalShippingPage() {
+  return <InternationalShippingForm />;
+}
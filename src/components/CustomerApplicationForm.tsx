@@ -1,164 +1,19 @@
 "use client";
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import Image from 'next/image';
 import DigitalSignature from './DigitalSignature';
+import { customerApplicationSchema, MAX_DESCRIPTION_LENGTH, US_STATE_CODES } from '@/lib/validation';
+import { fraudRuleHints } from '@/lib/fraud-rule-hints';
 
-// Enhanced fake data detection function
-const detectFakeData = (value: string): boolean => {
-  if (!value) return false;
-  
-  const normalizedValue = value.toLowerCase().trim();
-  
-  // Pattern 1: Common test/fake keywords
-  const fakeKeywords = /(test|demo|example|fake|temp|dummy|sample|placeholder|xxx|yyy|zzz)/i;
-  if (fakeKeywords.test(normalizedValue)) return true;
-  
-  // Pattern 2: Repetitive characters (3+ times)
-  const repetitivePattern = /(.)\1{2,}/;
-  if (repetitivePattern.test(normalizedValue)) return true;
-  
-  // Pattern 3: Repetitive sequences like "ABCABC" or "123123"
-  const sequencePattern = /(.{2,})\1{1,}/;
-  if (sequencePattern.test(normalizedValue)) return true;
-  
-  // Pattern 4: Sequential patterns like "abc", "123", "qwerty"
-  const sequences = ['abc', '123', '456', '789', 'qwe', 'asd', 'zxc', 'qwerty', 'asdf'];
-  if (sequences.some(seq => normalizedValue.includes(seq))) return true;
-  
-  // Pattern 5: All same character (after normalization)
-  const uniqueChars = new Set(normalizedValue.replace(/\s/g, ''));
-  if (uniqueChars.size <= 2 && normalizedValue.length > 3) return true;
-  
-  // Pattern 6: Obvious nonsense patterns
-  const nonsensePatterns = [
-    /^([a-z])\1+$/i,  // Single letter repeated - fixed with capturing group
-    /^(bop|bob|lol|wtf|omg|nah|yay|meh)+$/i,  // Common nonsense words
-    /^(na|la|da|ba|ha){2,}$/i,  // Syllable repetition
-    /^.{1,3}$/, // Too short for a real business name
-  ];
-  
-  return nonsensePatterns.some(pattern => pattern.test(normalizedValue));
-};
-
-// Form validation schema with enhanced validation
-const formSchema = z.object({
-  // Company Information - OPTIONAL
-  legalEntityName: z.string().optional(),
-  dba: z.string().optional(),
-  
-  // Tax ID with format validation - OPTIONAL
-  taxEIN: z.string().optional(),
-  
-  // DUNS strongly recommended but optional
-  dunsNumber: z.string()
-    .optional()
-    .refine(val => !val || /^\d{9}$/.test(val), {
-      message: "DUNS Number must be exactly 9 digits"
-    }),
-  
-  // Phone with format validation - OPTIONAL
-  phoneNo: z.string().optional(),
-  
-  // Additional Authorized Purchasers
-  hasAdditionalPurchasers: z.boolean().optional(),
-  additionalPurchasers: z.array(z.object({
-    name: z.string().optional(),
-    title: z.string().optional(),
-    email: z.string().optional(),
-    phone: z.string().optional()
-  })).optional(),
-  
-  // Business Information - ALL OPTIONAL
-  industry: z.string().optional(),
-  companyType: z.string().optional(),
-  numberOfEmployees: z.string().optional(),
-  yearsSinceIncorporation: z.string().optional(),
-  stateIncorporated: z.string().optional(),
-  companyValuation: z.string().optional(),
-  businessWebsite: z.string()
-    .optional()
-    .refine(val => !val || /^https?:\/\/.+\..+/.test(val), {
-      message: "Please enter a valid website URL"
-    }),
-  
-  // Addresses - Optional
-  billToAddress: z.string().optional(),
-  billToCity: z.string().optional(),
-  billToState: z.string().optional(),
-  billToZip: z.string().optional(),
-  shipToAddress: z.string().optional(),
-  shipToCity: z.string().optional(),
-  shipToState: z.string().optional(),
-  shipToZip: z.string().optional(),
-  
-  // Credit Terms - OPTIONAL
-  requestedCreditAmount: z.number().optional(),
-  isTaxExempt: z.string().optional(),
-  usesPaymentPortal: z.string().optional(),
-  
-  // Contact Emails - OPTIONAL
-  buyerNameEmail: z.string().optional(),
-  accountsPayableNameEmail: z.string().optional(),
-  wantInvoicesEmailed: z.boolean().optional(),
-  invoiceEmail: z.string().optional(),
-  
-  // References
-  referenceUploadMethod: z.enum(['upload', 'manual']).default('manual'),
-  
-  // Bank Reference - Optional for now
-  bankName: z.string().optional(),
-  bankAccountNumber: z.string().optional(),
-  bankContactName: z.string().optional(),
-  bankContactPhone: z.string().optional(),
-  bankContactEmail: z.string().optional(),
-  
-  // Vendor Forms
+// The API's validation rules plus the files uploaded alongside the form
+const formSchema = customerApplicationSchema.extend({
   vendorForms: z.array(z.object({
     name: z.string(),
     url: z.string()
   })).optional(),
-  
-  // Trade References - Optional for now
-  trade1Name: z.string().optional(),
-  trade1FaxNo: z.string().optional(),
-  trade1Address: z.string().optional(),
-  trade1Email: z.string().optional(),
-  trade1City: z.string().optional(),
-  trade1State: z.string().optional(),
-  trade1Zip: z.string().optional(),
-  trade1Attn: z.string().optional(),
-  trade1Phone: z.string().optional(),
-  
-  trade2Name: z.string().optional(),
-  trade2FaxNo: z.string().optional(),
-  trade2Address: z.string().optional(),
-  trade2Email: z.string().optional(),
-  trade2City: z.string().optional(),
-  trade2State: z.string().optional(),
-  trade2Zip: z.string().optional(),
-  trade2Attn: z.string().optional(),
-  trade2Phone: z.string().optional(),
-  
-  trade3Name: z.string().optional(),
-  trade3FaxNo: z.string().optional(),
-  trade3Address: z.string().optional(),
-  trade3Email: z.string().optional(),
-  trade3City: z.string().optional(),
-  trade3State: z.string().optional(),
-  trade3Zip: z.string().optional(),
-  trade3Attn: z.string().optional(),
-  trade3Phone: z.string().optional(),
-  
-  // Business Description - OPTIONAL
-  businessDescription: z.string().optional(),
-  
-  // Terms and conditions agreement - Required by backend
-  termsAgreed: z.boolean().refine(val => val === true, {
-    message: "You must agree to the terms and conditions"
-  }),
 });
 
 export default function CustomerApplicationForm() {
@@ -168,7 +23,7 @@ export default function CustomerApplicationForm() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
-  const [formData, setFormData] = useState<{ id: number } | null>(null);
+  const [formData, setFormData] = useState<{ id: number; submissionHash?: string } | null>(null);
   const [signatureData, setSignatureData] = useState<{
     signatureHash: string;
     signedDocumentUrl: string;
@@ -177,13 +32,22 @@ export default function CustomerApplicationForm() {
   const [isUploading, setIsUploading] = useState(false);
   const [showAdditionalPurchasers, setShowAdditionalPurchasers] = useState(false);
   const [additionalPurchasers, setAdditionalPurchasers] = useState([{ name: '', title: '', email: '', phone: '' }]);
+  // Saved draft this form continues (from "Save & finish later" or a resume link)
+  const [draft, setDraft] = useState<{ id: number; resumeToken: string } | null>(null);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [draftMessage, setDraftMessage] = useState<string | null>(null);
+  // Idempotency-Key for the answers last sent, so double-clicks and retries can't create a
+  // second application while changed answers get a new key
+  const idempotencyKey = useRef<{ key: string; body: string } | null>(null);
   
   const { 
     register, 
     handleSubmit, 
     formState: { errors }, 
     watch,
-    setValue
+    setValue,
+    getValues,
+    reset
   } = useForm({
     resolver: zodResolver(formSchema),
     shouldFocusError: true, // Allow normal form focus behavior
@@ -207,8 +71,81 @@ export default function CustomerApplicationForm() {
     }
   });
   
+  // Resume link: /?draft=<id>&token=<token>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const draftId = parseInt(params.get('draft') ?? '', 10);
+    const resumeToken = params.get('token');
+    if (!draftId || !resumeToken) return;
+
+    const loadDraft = async () => {
+      try {
+        const response = await fetch(`/api/application-drafts?draftId=${draftId}&token=${encodeURIComponent(resumeToken)}`);
+        if (!response.ok) {
+          throw new Error('Failed to load draft');
+        }
+
+        const result = await response.json();
+        reset({ ...getValues(), ...result.draft.data, termsAgreed: false });
+        setDraft({ id: draftId, resumeToken });
+        setDraftMessage('Your saved application has been restored.');
+      } catch (err) {
+        console.error('Error loading draft:', err);
+        setError('This saved application could not be found. It may have already been submitted or expired.');
+      }
+    };
+
+    loadDraft();
+  }, [reset, getValues]);
+
+  // Everything but uploaded files, which are only accepted after submission
+  const draftPayload = () => {
+    const data = { ...getValues() };
+    delete data.vendorForms;
+    return data;
+  };
+
+  const saveDraft = async () => {
+    try {
+      setIsSavingDraft(true);
+      setError(null);
+      setDraftMessage(null);
+
+      const response = await fetch('/api/application-drafts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          draftId: draft?.id,
+          resumeToken: draft?.resumeToken,
+          data: draftPayload(),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.details || result.error || 'Failed to save draft');
+      }
+
+      if (!draft) {
+        setDraft({ id: result.draft.id, resumeToken: result.resumeToken });
+      }
+      setDraftMessage(result.message || 'Your progress has been saved.');
+    } catch (err) {
+      console.error('Error saving draft:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save your progress. Please try again.');
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+
   const wantInvoicesEmailed = watch("wantInvoicesEmailed");
   const referenceUploadMethod = watch("referenceUploadMethod");
+  // Nudges from the same fraud rules the server runs, for values that would be flagged
+  const [legalEntityName, phoneNo, businessDescription, buyerNameEmail, billToAddress] =
+    watch(["legalEntityName", "phoneNo", "businessDescription", "buyerNameEmail", "billToAddress"]);
+  const fieldHints = fraudRuleHints({ legalEntityName, phoneNo, businessDescription, buyerNameEmail, billToAddress });
   
   // Auto-format EIN with dash
   const formatEIN = (value: string) => {
@@ -262,13 +199,7 @@ export default function CustomerApplicationForm() {
   ];
   
   // US States
-  const states = [
-    'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
-    'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
-    'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
-    'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC',
-    'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
-  ];
+  const states = US_STATE_CODES;
 
   const addAdditionalPurchaser = () => {
     setAdditionalPurchasers([...additionalPurchasers, { name: '', title: '', email: '', phone: '' }]);
@@ -285,16 +216,32 @@ export default function CustomerApplicationForm() {
       setError(null);
 
       // First, submit the application
+      const body = JSON.stringify(draft ? { ...data, draftId: draft.id, resumeToken: draft.resumeToken } : data);
+      if (idempotencyKey.current?.body !== body) {
+        idempotencyKey.current = { key: crypto.randomUUID(), body };
+      }
       const response = await fetch('/api/applications', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey.current.key,
         },
-        body: JSON.stringify(data),
+        body,
       });
 
       if (!response.ok) {
-        throw new Error('Failed to submit application');
+        const errorData = await response.json().catch(() => ({}));
+        console.error('❌ Application API error:', errorData);
+        // Refused outright, so nothing was stored under the key. Keep it after a server
+        // error, or while the first request is still running (409 with Retry-After).
+        const stillProcessing = response.status === 409 && response.headers.has('Retry-After');
+        if (response.status < 500 && !stillProcessing) {
+          idempotencyKey.current = null;
+        }
+        setError(typeof errorData.details === 'string'
+          ? `Failed to submit application: ${errorData.details}`
+          : 'Failed to submit application. Please try again.');
+        return;
       }
 
       const result = await response.json();
@@ -315,6 +262,8 @@ export default function CustomerApplicationForm() {
   const handleSignatureComplete = async (signatureData: {
     signatureHash: string;
     signedDocumentUrl: string;
+    termsVersion: string;
+    termsContentHash: string;
   }) => {
     try {
       console.log('📝 Submitting signature for application ID:', formData!.id);
@@ -336,6 +285,8 @@ export default function CustomerApplicationForm() {
         signedDocumentUrl: signatureData.signedDocumentUrl,
         ipAddress: getClientIP(),
         userAgent: navigator.userAgent,
+        termsVersion: signatureData.termsVersion,
+        termsContentHash: signatureData.termsContentHash,
       };
 
       console.log('📤 Sending signature payload:', JSON.stringify(signaturePayload, null, 2));
@@ -645,6 +596,9 @@ export default function CustomerApplicationForm() {
                       {errors.legalEntityName.message}
                     </p>
                   )}
+                  {!errors.legalEntityName && fieldHints.legalEntityName && (
+                    <p className="text-amber-600 text-sm mt-1">{fieldHints.legalEntityName}</p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -862,6 +816,9 @@ export default function CustomerApplicationForm() {
                       {errors.phoneNo.message}
                     </p>
                   )}
+                  {!errors.phoneNo && fieldHints.phoneNo && (
+                    <p className="text-amber-600 text-sm mt-1">{fieldHints.phoneNo}</p>
+                  )}
                 </div>
 
                 <div className="space-y-2 md:col-span-2">
@@ -882,7 +839,10 @@ export default function CustomerApplicationForm() {
                       {errors.businessDescription.message}
                     </p>
                   )}
-                  <p className="text-xs text-gray-500">Provide detailed information about your business and chemical needs (up to 1000 characters)</p>
+                  {!errors.businessDescription && fieldHints.businessDescription && (
+                    <p className="text-amber-600 text-sm mt-1">{fieldHints.businessDescription}</p>
+                  )}
+                  <p className="text-xs text-gray-500">Provide detailed information about your business and chemical needs (up to {MAX_DESCRIPTION_LENGTH} characters)</p>
                 </div>
               </div>
             </div>
@@ -914,6 +874,9 @@ export default function CustomerApplicationForm() {
                         className="w-full px-4 py-4 bg-white/50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-300 hover:bg-white/70"
                         placeholder="Street address"
                       />
+                      {fieldHints.billToAddress && (
+                        <p className="text-amber-600 text-sm mt-1">{fieldHints.billToAddress}</p>
+                      )}
                     </div>
                     
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -1143,6 +1106,9 @@ export default function CustomerApplicationForm() {
                       {errors.buyerNameEmail.message}
                     </p>
                   )}
+                  {!errors.buyerNameEmail && fieldHints.buyerNameEmail && (
+                    <p className="text-amber-600 text-sm mt-1">{fieldHints.buyerNameEmail}</p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -1533,6 +1499,24 @@ export default function CustomerApplicationForm() {
                   </>
                 )}
               </button>
+              <div className="mt-4">
+                <button
+                  type="button"
+                  onClick={saveDraft}
+                  disabled={isSubmitting || isSavingDraft}
+                  className="text-blue-600 font-semibold hover:text-blue-800 underline disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSavingDraft ? 'Saving...' : 'Save & finish later'}
+                </button>
+                <p className="mt-1 text-sm text-gray-500">
+                  {draft
+                    ? 'Your progress is saved to the link we emailed you.'
+                    : "We'll email a link to finish your application to the buyer email above."}
+                </p>
+              </div>
+              {draftMessage && (
+                <p className="mt-3 text-sm text-green-700">{draftMessage}</p>
+              )}
             </div>
           </form>
         ) : isComplete ? (
@@ -1697,6 +1681,7 @@ export default function CustomerApplicationForm() {
           formData?.id ? (
             <DigitalSignature
               applicationId={formData.id}
+              submissionHash={formData.submissionHash}
               onSignatureComplete={handleSignatureComplete}
             />
           ) : (
@@ -1,24 +1,87 @@
 "use client";
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import SignaturePad from 'react-signature-canvas';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
 
 interface DigitalSignatureProps {
   applicationId: number;
+  submissionHash?: string; // SHA-256 of the stored submission snapshot, printed on the PDF
   onSignatureComplete: (data: {
     signatureHash: string;
     signedDocumentUrl: string;
+    termsVersion: string;
+    termsContentHash: string;
   }) => void;
 }
 
-export default function DigitalSignature({ applicationId, onSignatureComplete }: DigitalSignatureProps) {
+// Current terms as returned by /api/terms
+interface TermsDocument {
+  version: string;
+  effectiveDate: string;
+  sections: { title: string; content: string }[];
+  contentHash: string;
+}
+
+const LIST_ITEM_PREFIX = '• ';
+
+// Split section text into paragraphs and runs of list items ("• " lines)
+function toContentBlocks(content: string): { type: 'paragraph' | 'list'; lines: string[] }[] {
+  const blocks: { type: 'paragraph' | 'list'; lines: string[] }[] = [];
+  for (const line of content.split('\n').map(l => l.trim()).filter(Boolean)) {
+    if (line.startsWith(LIST_ITEM_PREFIX)) {
+      const item = line.slice(LIST_ITEM_PREFIX.length);
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === 'list') {
+        previous.lines.push(item);
+      } else {
+        blocks.push({ type: 'list', lines: [item] });
+      }
+    } else {
+      blocks.push({ type: 'paragraph', lines: [line] });
+    }
+  }
+  return blocks;
+}
+
+// "Return Authorization: No returns..." → bold label, regular text
+function renderListItem(item: string) {
+  const separator = item.indexOf(': ');
+  if (separator === -1) {
+    return item;
+  }
+  return (
+    <>
+      <strong>{item.slice(0, separator + 1)}</strong>{item.slice(separator + 1)}
+    </>
+  );
+}
+
+export default function DigitalSignature({ applicationId, submissionHash, onSignatureComplete }: DigitalSignatureProps) {
   const [isSigning, setIsSigning] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [terms, setTerms] = useState<TermsDocument | null>(null);
   const signaturePadRef = useRef<SignaturePad>(null);
   const termsRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    const loadTerms = async () => {
+      try {
+        const response = await fetch('/api/terms');
+        if (!response.ok) {
+          throw new Error(`Failed to load terms: ${response.status}`);
+        }
+        setTerms(await response.json());
+      } catch (err) {
+        console.error('Error loading terms:', err);
+        setError('Failed to load the terms and conditions. Please refresh the page.');
+      }
+    };
+
+    loadTerms();
+  }, []);
+
   const clearSignature = () => {
     if (signaturePadRef.current) {
       signaturePadRef.current.clear();
@@ -35,7 +98,7 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
     return hashHex;
   };
 
-  const generateSignedPDF = async () => {
+  const generateSignedPDF = async (terms: TermsDocument) => {
     if (!signaturePadRef.current) return null;
 
     try {
@@ -67,7 +130,9 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
       pdf.setFontSize(10);
       pdf.text(`Date: ${new Date().toLocaleDateString()}`, margin, currentY);
       pdf.text(`Application ID: ${applicationId}`, pageWidth - margin - 40, currentY);
-      currentY += 15;
+      currentY += 5;
+      pdf.text(`Terms Version: ${terms.version}`, margin, currentY);
+      currentY += 10;
 
       // Terms and Conditions Content
       pdf.setFontSize(14);
@@ -75,65 +140,40 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
       pdf.text('TERMS AND CONDITIONS', margin, currentY);
       currentY += 10;
 
-      // Professional terms content
-      const termsContent = [
-        '1. CREDIT TERMS',
-        'Payment terms will be established based on credit approval and may include Net 15, Net 30, or COD requirements.',
-        '',
-        '2. LIABILITY AND INSURANCE',
-        'Customer acknowledges responsibility for proper handling, storage, and use of all chemical products purchased.',
-        'Customer must maintain appropriate insurance coverage for chemical handling and storage.',
-        '',
-        '3. COMPLIANCE',
-        'Customer agrees to comply with all applicable federal, state, and local regulations regarding chemical',
-        'handling, storage, transportation, and disposal.',
-        '',
-        '4. ORDER FULFILLMENT',
-        'Orders are subject to product availability and credit approval. Alliance Chemical reserves the right',
-        'to modify or cancel orders based on availability or creditworthiness.',
-        '',
-        '5. RETURNS AND EXCHANGES',
-        'Chemical products may not be returned unless defective or shipped in error. All returns must be',
-        'pre-approved and comply with safety regulations.',
-        '',
-        '6. PRICING',
-        'Prices are subject to change without notice. Current pricing will be confirmed at time of order.',
-        '',
-        '7. FORCE MAJEURE',
-        'Alliance Chemical shall not be liable for delays or failures in performance resulting from acts',
-        'beyond our reasonable control.',
-        '',
-        '8. GOVERNING LAW',
-        'This agreement shall be governed by the laws of the State of Texas.',
-        '',
-        '9. ENTIRE AGREEMENT',
-        'This agreement constitutes the entire agreement between the parties and supersedes all prior',
-        'negotiations, representations, or agreements relating to the subject matter herein.'
-      ];
-
       pdf.setFontSize(10);
       pdf.setFont('helvetica', 'normal');
 
-      termsContent.forEach((line) => {
+      const ensureSpace = () => {
         if (currentY > pageHeight - 40) {
           pdf.addPage();
           currentY = margin;
         }
-
-        if (line === '') {
-          currentY += 4;
-        } else if (line.match(/^\d+\./)) {
-          // Section headers
-          pdf.setFont('helvetica', 'bold');
-          pdf.text(line, margin, currentY);
-          currentY += 6;
-          pdf.setFont('helvetica', 'normal');
-        } else {
-          // Regular content with text wrapping
-          const splitText = pdf.splitTextToSize(line, maxWidth);
-          pdf.text(splitText, margin, currentY);
-          currentY += splitText.length * 4;
-        }
+      };
+
+      terms.sections.forEach((section, index) => {
+        ensureSpace();
+
+        // Section headers
+        pdf.setFont('helvetica', 'bold');
+        pdf.text(`${index + 1}. ${section.title.toUpperCase()}`, margin, currentY);
+        currentY += 6;
+        pdf.setFont('helvetica', 'normal');
+
+        toContentBlocks(section.content).forEach(block => {
+          block.lines.forEach(line => {
+            ensureSpace();
+            // Regular content with text wrapping; list items get a bullet and indent
+            const indent = block.type === 'list' ? 5 : 0;
+            const splitText = pdf.splitTextToSize(line, maxWidth - indent);
+            if (block.type === 'list') {
+              pdf.text('•', margin + 1, currentY);
+            }
+            pdf.text(splitText, margin + indent, currentY);
+            currentY += splitText.length * 4 + 1;
+          });
+        });
+
+        currentY += 4;
       });
 
       // Add signature section
@@ -191,6 +231,18 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
       const hashText = `Digital Signature Hash: ${signatureHash}`;
       const wrappedHashText = pdf.splitTextToSize(hashText, rightColumnWidth);
       pdf.text(wrappedHashText, rightColumnX, currentY);
+      currentY += wrappedHashText.length * 3 + 1;
+
+      const termsHashText = `Terms Version ${terms.version} Hash: ${terms.contentHash}`;
+      const wrappedTermsHashText = pdf.splitTextToSize(termsHashText, rightColumnWidth);
+      pdf.text(wrappedTermsHashText, rightColumnX, currentY);
+      currentY += wrappedTermsHashText.length * 3 + 1;
+
+      // Ties the signed document to the application exactly as submitted
+      if (submissionHash) {
+        const submissionHashText = `Application Submission Hash: ${submissionHash}`;
+        pdf.text(pdf.splitTextToSize(submissionHashText, rightColumnWidth), rightColumnX, currentY);
+      }
 
       // Footer
       const footerY = pageHeight - 15;
@@ -223,7 +275,7 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
   };
 
   const handleSign = async () => {
-    if (!signaturePadRef.current) return;
+    if (!signaturePadRef.current || !terms) return;
 
     try {
       setIsSigning(true);
@@ -234,7 +286,7 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
       const signatureHash = await generateSignatureHash(signatureData);
 
       // Generate signed PDF
-      const signedDocumentUrl = await generateSignedPDF();
+      const signedDocumentUrl = await generateSignedPDF(terms);
       if (!signedDocumentUrl) {
         throw new Error('Failed to generate signed document');
       }
@@ -242,7 +294,9 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
       // Call the completion handler
       onSignatureComplete({
         signatureHash,
-        signedDocumentUrl
+        signedDocumentUrl,
+        termsVersion: terms.version,
+        termsContentHash: terms.contentHash,
       });
 
     } catch (err) {
@@ -264,69 +318,36 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
           className="max-h-96 overflow-y-auto bg-gradient-to-br from-gray-50 to-white rounded-2xl border border-gray-200 p-6 mb-6 shadow-inner"
         >
           <div className="space-y-6 text-sm leading-relaxed">
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">1. Use of Information</h3>
-              <p className="text-gray-600">The information you provide will be used to: (a) Establish an account with Alliance Chemical, and (b) Assess your creditworthiness if you request credit terms. You expressly authorize Alliance Chemical to contact all provided references and credit agencies to verify your credit and financial responsibility.</p>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">2. Payment Terms</h3>
-              <p className="text-gray-600">All invoices are due and payable according to the terms specified therein. If your account becomes past due, Alliance Chemical reserves the right, at its sole discretion, to suspend or cancel any future orders until your account is brought current. Alliance Chemical may also terminate any agreements or arrangements without further notice.</p>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">3. Late Payments and Collection Costs</h3>
-              <p className="text-gray-600">Should your account become delinquent and be placed for collection; you agree to pay a finance charge of 1.5% per month (18% per annum) on the unpaid balance. Additionally, you agree to reimburse Alliance Chemical for all costs of collection, including but not limited to collection agency fees, court costs, and reasonable attorney&apos;s fees.</p>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">4. Returned Payments</h3>
-              <p className="text-gray-600">Any returned or dishonored payments, including checks and electronic transfers, will incur a $30.00 service charge. Alliance Chemical reserves the right to require alternative payment methods following a returned payment.</p>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">5. Product Returns</h3>
-              <ul className="list-disc ml-6 space-y-2 text-gray-600">
-                <li><strong>Return Authorization:</strong> No returns will be accepted without prior written authorization in the form of a Return Goods Authorization (RGA) issued by Alliance Chemical.</li>
-                <li><strong>Restocking Fees:</strong> All authorized returns are subject to restocking fees and return freight charges, which will be determined at Alliance Chemical&apos;s sole discretion.</li>
-                <li><strong>Condition of Products:</strong> Returned products must be in their original, unopened containers and in resalable condition. Alliance Chemical reserves the right to reject any returns that do not meet these criteria.</li>
-              </ul>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">6. Compliance with Laws and Regulations</h3>
-              <p className="text-gray-600">You are responsible for complying with all applicable federal, state, and local laws and regulations related to the purchase, storage, handling, and use of chemical products supplied by Alliance Chemical. This includes obtaining any necessary permits or licenses required for the possession and use of such chemicals.</p>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">7. Product Handling and Safety</h3>
-              <ul className="list-disc ml-6 space-y-2 text-gray-600">
-                <li><strong>Assessment of Suitability:</strong> It is your sole responsibility to determine the suitability and safety of the chemical products and containers supplied by Alliance Chemical for your intended use.</li>
-                <li><strong>Safety Data Sheets (SDS):</strong> You acknowledge receipt of, or access to, Safety Data Sheets for all chemical products purchased and agree to review and understand all safety information prior to use.</li>
-                <li><strong>Proper Use:</strong> You agree to use the products in accordance with the manufacturer&apos;s guidelines and all applicable laws and regulations, including those related to health, safety, and the environment.</li>
-                <li><strong>Indemnification:</strong> You agree to indemnify and hold harmless Alliance Chemical from any and all claims, damages, or liabilities arising from your handling, storage, or use of the products.</li>
-              </ul>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">8. Limitation of Liability</h3>
-              <p className="text-gray-600">Alliance Chemical shall not be liable for any indirect, incidental, consequential, or special damages arising out of or in connection with the products or services provided, including but not limited to damages for loss of profits, business interruption, or any other commercial damages or losses.</p>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">9. Force Majeure</h3>
-              <p className="text-gray-600">Alliance Chemical shall not be responsible for any delays or failures in performance resulting from acts beyond its reasonable control, including but not limited to natural disasters, acts of war, terrorism, labor disputes, or governmental regulations.</p>
-            </div>
-
-            <div>
-              <h3 className="font-bold text-gray-800 mb-2">10. Governing Law</h3>
-              <p className="text-gray-600">These terms and conditions shall be governed by and construed in accordance with the laws of the state in which Alliance Chemical is headquartered, without regard to its conflict of law provisions.</p>
-            </div>
+            {!terms && !error && (
+              <p className="text-gray-500">Loading terms and conditions...</p>
+            )}
+
+            {terms?.sections.map((section, index) => (
+              <div key={index}>
+                <h3 className="font-bold text-gray-800 mb-2">{index + 1}. {section.title}</h3>
+                {toContentBlocks(section.content).map((block, blockIndex) => (
+                  block.type === 'list' ? (
+                    <ul key={blockIndex} className="list-disc ml-6 space-y-2 text-gray-600">
+                      {block.lines.map((item, itemIndex) => (
+                        <li key={itemIndex}>{renderListItem(item)}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p key={blockIndex} className="text-gray-600">{block.lines[0]}</p>
+                  )
+                ))}
+              </div>
+            ))}
 
             <div className="mt-8 pt-6 border-t border-gray-300">
               <p className="font-semibold text-gray-800">
                 By signing below, you acknowledge that you have read and agree to the terms and conditions. Your signature will be recorded with a timestamp and IP address for verification purposes.
               </p>
+              {terms && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Terms version {terms.version}, effective {new Date(terms.effectiveDate).toLocaleDateString()}
+                </p>
+              )}
               <p className="text-gray-600">
                 Please use your mouse or touch screen to sign in the box below. Click &quot;Clear&quot; to start over if needed.
               </p>
@@ -363,7 +384,7 @@ export default function DigitalSignature({ applicationId, onSignatureComplete }:
 
         <button
           onClick={handleSign}
-          disabled={isSigning}
+          disabled={isSigning || !terms}
           className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-4 px-8 rounded-2xl font-semibold hover:from-blue-700 hover:to-indigo-700 transform hover:scale-105 transition-all duration-300 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isSigning ? 'Signing...' : 'Sign Document'}
@@ -0,0 +1,274 @@
+"use client";
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import type { InformationRequestItem } from '@/lib/information-requests';
+
+const inputClassName = "w-full px-4 py-4 bg-white/50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 hover:bg-white/70";
+const sectionClassName = "bg-white/80 backdrop-blur-lg rounded-3xl shadow-xl border border-white/20 p-8";
+
+interface LoadedRequest {
+  id: number;
+  applicationId: number;
+  legalEntityName: string;
+  items: InformationRequestItem[];
+  message: string;
+  status: string;
+  documents: { id: number; fileName: string; fileSize: number }[];
+}
+
+interface ErrorDetail {
+  field: string;
+  message: string;
+}
+
+export default function InformationRequestForm() {
+  const [link, setLink] = useState<{ requestId: number; token: string } | null>(null);
+  const [informationRequest, setInformationRequest] = useState<LoadedRequest | null>(null);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [message, setMessage] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<ErrorDetail[]>([]);
+
+  // Emailed link: /information-request?request=<id>&token=<token>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const requestId = parseInt(params.get('request') ?? '', 10);
+    const token = params.get('token');
+    if (!requestId || !token) {
+      setError('This link is incomplete. Please use the link from your email.');
+      return;
+    }
+
+    const loadRequest = async () => {
+      try {
+        const response = await fetch(`/api/information-requests?request=${requestId}&token=${encodeURIComponent(token)}`);
+        if (!response.ok) {
+          throw new Error('Failed to load information request');
+        }
+
+        const result = await response.json();
+        setInformationRequest(result.informationRequest);
+        setLink({ requestId, token });
+      } catch (err) {
+        console.error('Error loading information request:', err);
+        setError('This request could not be found. Please check the link in your email.');
+      }
+    };
+
+    loadRequest();
+  }, []);
+
+  const handleFileUpload = async (files: FileList | null) => {
+    if (!files || !link || !informationRequest) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        const uploadFormData = new FormData();
+        uploadFormData.append('file', file);
+        uploadFormData.append('applicationId', informationRequest.applicationId.toString());
+        uploadFormData.append('informationRequestId', link.requestId.toString());
+        uploadFormData.append('token', link.token);
+
+        const response = await fetch('/api/upload', {
+          method: 'POST',
+          body: uploadFormData,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.details || errorData.error);
+        }
+
+        const data = await response.json();
+        setInformationRequest(prev => prev && {
+          ...prev,
+          documents: [...prev.documents, { id: data.vendorForm.id, fileName: data.vendorForm.fileName, fileSize: data.vendorForm.fileSize }],
+        });
+      }
+    } catch (err) {
+      console.error('Error uploading file:', err);
+      setError(`Failed to upload file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!link || !informationRequest) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setErrorDetails([]);
+
+      const response = await fetch('/api/information-requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          requestId: link.requestId,
+          token: link.token,
+          answers: Object.entries(answers)
+            .filter(([, answer]) => answer.trim())
+            .map(([itemIndex, answer]) => ({ itemIndex: Number(itemIndex), answer })),
+          message: message || undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error === 'Validation failed' ? 'Please complete every requested item.' : result.details || result.error);
+        setErrorDetails(Array.isArray(result.details) ? result.details : []);
+        return;
+      }
+
+      setSubmitted(true);
+    } catch (err) {
+      console.error('Error submitting information:', err);
+      setError('Failed to submit your response. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submitted || informationRequest?.status === 'fulfilled') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-6">
+        <div className="max-w-lg mx-auto">
+          <div className="bg-white/80 backdrop-blur-lg rounded-3xl shadow-2xl border border-white/20 p-8 text-center">
+            <div className="w-20 h-20 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full flex items-center justify-center mx-auto mb-6">
+              <svg className="w-10 h-10 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent mb-4">
+              Information Received
+            </h1>
+            <p className="text-gray-600 leading-relaxed">
+              Thank you. We have what we need and will continue reviewing your application.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const hasDocumentItems = informationRequest?.items.some(item => item.kind === 'document');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="text-center mb-12">
+          <Image
+            src="/WIDE - Color on Transparent _RGB-01.png"
+            alt="Alliance Chemical Logo"
+            width={400}
+            height={100}
+            className="mx-auto"
+          />
+          <h1 className="mt-8 text-3xl font-bold text-gray-900">
+            More Information Needed
+          </h1>
+          {informationRequest && (
+            <p className="mt-4 text-lg text-gray-600">
+              Credit application #{informationRequest.applicationId}{informationRequest.legalEntityName ? ` for ${informationRequest.legalEntityName}` : ''}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            {error}
+            {errorDetails.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-sm">
+                {errorDetails.map((detail, index) => <li key={index}>{detail.message}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {informationRequest?.status === 'cancelled' && (
+          <div className={sectionClassName}>
+            <p className="text-gray-700">This request has been withdrawn. No further information is needed.</p>
+          </div>
+        )}
+
+        {informationRequest?.status === 'open' && (
+          <form onSubmit={handleSubmit} className="space-y-8">
+            <div className={sectionClassName}>
+              <p className="text-gray-700 whitespace-pre-line">{informationRequest.message}</p>
+            </div>
+
+            {informationRequest.items.some(item => item.kind === 'answer') && (
+              <div className={sectionClassName}>
+                <h2 className="text-2xl font-bold text-gray-800 mb-6">Your Answers</h2>
+                <div className="space-y-6">
+                  {informationRequest.items.map((item, itemIndex) => item.kind === 'answer' && (
+                    <div key={itemIndex} className="space-y-2">
+                      <label className="block text-sm font-semibold text-gray-700">{item.label} *</label>
+                      <textarea
+                        rows={3}
+                        value={answers[itemIndex] ?? ''}
+                        onChange={event => setAnswers(prev => ({ ...prev, [itemIndex]: event.target.value }))}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {hasDocumentItems && (
+              <div className={sectionClassName}>
+                <h2 className="text-2xl font-bold text-gray-800 mb-6">Documents</h2>
+                <ul className="mb-6 list-disc list-inside text-gray-700">
+                  {informationRequest.items.map((item, itemIndex) => item.kind === 'document' && <li key={itemIndex}>{item.label}</li>)}
+                </ul>
+                <input
+                  type="file"
+                  multiple
+                  accept=".pdf,.doc,.docx,.xls,.xlsx,.png,.jpg,.jpeg"
+                  disabled={isUploading}
+                  onChange={event => handleFileUpload(event.target.files)}
+                  className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                />
+                {isUploading && <p className="mt-2 text-sm text-gray-500">Uploading…</p>}
+                {informationRequest.documents.length > 0 && (
+                  <ul className="mt-4 space-y-1 text-sm text-gray-700">
+                    {informationRequest.documents.map(document => <li key={document.id}>📎 {document.fileName}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className={sectionClassName}>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Anything else we should know?</label>
+              <textarea
+                rows={3}
+                value={message}
+                onChange={event => setMessage(event.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting || isUploading}
+              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-4 px-8 rounded-2xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all duration-300 shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              {isSubmitting ? 'Submitting…' : 'Submit Information'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
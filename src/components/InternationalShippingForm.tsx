@@ -0,0 +1,345 @@
+"use client";
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import Image from 'next/image';
+import {
+  internationalShippingRequestSchema,
+  type InternationalShippingRequestData,
+} from '@/lib/validation';
+
+const inputClassName = "w-full px-4 py-4 bg-white/50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 hover:bg-white/70";
+const sectionClassName = "bg-white/80 backdrop-blur-lg rounded-3xl shadow-xl border border-white/20 p-8";
+
+const shippingMethodLabels: Record<InternationalShippingRequestData['shippingMethod'], string> = {
+  air: 'Air Freight',
+  ocean: 'Ocean Freight',
+  ground: 'Ground (Canada / Mexico)',
+  courier: 'Express Courier (DHL, FedEx, UPS)',
+  other: 'Other',
+};
+
+const urgencyLabels: Record<InternationalShippingRequestData['urgency'], string> = {
+  standard: 'Standard',
+  expedited: 'Expedited',
+  urgent: 'Urgent',
+};
+
+const purposeLabels: Record<NonNullable<InternationalShippingRequestData['purposeOfShipment']>, string> = {
+  commercial: 'Commercial Sale',
+  sample: 'Sample',
+  repair_return: 'Repair / Return',
+  personal: 'Personal Use',
+  other: 'Other',
+};
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="text-red-500 text-sm flex items-center mt-1">
+      <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
+        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+      </svg>
+      {message}
+    </p>
+  );
+}
+
+export default function InternationalShippingForm() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submittedId, setSubmittedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<InternationalShippingRequestData>({
+    resolver: zodResolver(internationalShippingRequestSchema),
+    shouldFocusError: true,
+    defaultValues: {
+      trackingRequired: true,
+      insuranceRequired: false,
+      urgency: 'standard',
+    },
+  });
+
+  const shippingMethod = watch('shippingMethod');
+  const purposeOfShipment = watch('purposeOfShipment');
+
+  const onSubmit = async (data: InternationalShippingRequestData) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch('/api/international-shipping', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to submit shipping request');
+      }
+
+      const result = await response.json();
+      setSubmittedId(result.shippingRequest.id);
+    } catch (err) {
+      console.error('Error submitting shipping request:', err);
+      setError('Failed to submit shipping request. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submittedId) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-6">
+        <div className="max-w-lg mx-auto">
+          <div className="bg-white/80 backdrop-blur-lg rounded-3xl shadow-2xl border border-white/20 p-8 text-center">
+            <div className="w-20 h-20 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full flex items-center justify-center mx-auto mb-6">
+              <svg className="w-10 h-10 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent mb-4">
+              Shipping Request Received
+            </h1>
+            <p className="text-gray-600 mb-8 leading-relaxed">
+              Thank you. Your request number is <strong>#{submittedId}</strong>. Our logistics team will email you a shipping quote shortly.
+            </p>
+            <button
+              onClick={() => {
+                reset();
+                setSubmittedId(null);
+              }}
+              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-4 px-8 rounded-2xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all duration-300 shadow-lg hover:shadow-xl"
+            >
+              Submit Another Request
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-12">
+          <Image
+            src="/WIDE - Color on Transparent _RGB-01.png"
+            alt="Alliance Chemical Logo"
+            width={400}
+            height={100}
+            className="mx-auto"
+          />
+          <h1 className="mt-8 text-3xl font-bold text-gray-900">
+            International Shipping Request
+          </h1>
+          <p className="mt-4 text-lg text-gray-600">
+            Tell us what you need shipped and where. We&apos;ll reply with a quote including freight, customs and insurance.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
+          {/* Contact Information */}
+          <div className={sectionClassName}>
+            <h2 className="text-2xl font-bold text-gray-800 mb-6">Contact Information</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">First Name *</label>
+                <input type="text" {...register("firstName")} className={inputClassName} />
+                <FieldError message={errors.firstName?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Last Name *</label>
+                <input type="text" {...register("lastName")} className={inputClassName} />
+                <FieldError message={errors.lastName?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Email *</label>
+                <input type="email" {...register("email")} className={inputClassName} />
+                <FieldError message={errors.email?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Phone *</label>
+                <input type="tel" {...register("phone")} className={inputClassName} placeholder="Include country code" />
+                <FieldError message={errors.phone?.message} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-semibold text-gray-700">Company</label>
+                <input type="text" {...register("company")} className={inputClassName} />
+              </div>
+            </div>
+          </div>
+
+          {/* Destination */}
+          <div className={sectionClassName}>
+            <h2 className="text-2xl font-bold text-gray-800 mb-6">Destination Address</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-semibold text-gray-700">Street Address *</label>
+                <input type="text" {...register("shippingAddress")} className={inputClassName} />
+                <FieldError message={errors.shippingAddress?.message} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-semibold text-gray-700">Address Line 2</label>
+                <input type="text" {...register("addressLine2")} className={inputClassName} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">City *</label>
+                <input type="text" {...register("city")} className={inputClassName} />
+                <FieldError message={errors.city?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">State / Province *</label>
+                <input type="text" {...register("stateProvince")} className={inputClassName} />
+                <FieldError message={errors.stateProvince?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Postal Code *</label>
+                <input type="text" {...register("postalCode")} className={inputClassName} />
+                <FieldError message={errors.postalCode?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Country *</label>
+                <input type="text" {...register("country")} className={inputClassName} />
+                <FieldError message={errors.country?.message} />
+              </div>
+            </div>
+          </div>
+
+          {/* Order */}
+          <div className={sectionClassName}>
+            <h2 className="text-2xl font-bold text-gray-800 mb-6">Order Details</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-semibold text-gray-700">Product Description *</label>
+                <textarea {...register("productDescription")} rows={3} className={inputClassName} placeholder="Product name, grade, packaging" />
+                <FieldError message={errors.productDescription?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Quantity *</label>
+                <input type="text" {...register("quantity")} className={inputClassName} placeholder="e.g. 4 x 55 gal drums" />
+                <FieldError message={errors.quantity?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Estimated Value (USD) *</label>
+                <input type="text" {...register("estimatedValue")} className={inputClassName} />
+                <FieldError message={errors.estimatedValue?.message} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-semibold text-gray-700">Order Request *</label>
+                <textarea {...register("orderRequest")} rows={3} className={inputClassName} placeholder="Order number or the items you would like to order" />
+                <FieldError message={errors.orderRequest?.message} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-semibold text-gray-700">Special Instructions</label>
+                <textarea {...register("specialInstructions")} rows={2} className={inputClassName} />
+              </div>
+            </div>
+          </div>
+
+          {/* Shipping Preferences */}
+          <div className={sectionClassName}>
+            <h2 className="text-2xl font-bold text-gray-800 mb-6">Shipping Preferences</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Shipping Method *</label>
+                <select {...register("shippingMethod")} className={inputClassName} defaultValue="">
+                  <option value="" disabled>Select Method</option>
+                  {Object.entries(shippingMethodLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <FieldError message={errors.shippingMethod?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Urgency *</label>
+                <select {...register("urgency")} className={inputClassName}>
+                  {Object.entries(urgencyLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <FieldError message={errors.urgency?.message} />
+              </div>
+              {shippingMethod === 'other' && (
+                <div className="space-y-2 md:col-span-2">
+                  <label className="block text-sm font-semibold text-gray-700">Describe Shipping Method *</label>
+                  <input type="text" {...register("customShippingMethod")} className={inputClassName} />
+                  <FieldError message={errors.customShippingMethod?.message} />
+                </div>
+              )}
+              <label className="flex items-center space-x-3">
+                <input type="checkbox" {...register("trackingRequired")} className="h-5 w-5 rounded border-gray-300" />
+                <span className="text-sm font-semibold text-gray-700">Tracking required</span>
+              </label>
+              <label className="flex items-center space-x-3">
+                <input type="checkbox" {...register("insuranceRequired")} className="h-5 w-5 rounded border-gray-300" />
+                <span className="text-sm font-semibold text-gray-700">Insurance required</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Customs */}
+          <div className={sectionClassName}>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">Customs Information</h2>
+            <p className="text-sm text-gray-500 mb-6">Leave blank if you&apos;re not sure - our team will help complete the paperwork.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Purpose of Shipment</label>
+                <select
+                  {...register("purposeOfShipment", { setValueAs: value => value || undefined })}
+                  className={inputClassName}
+                  defaultValue=""
+                >
+                  <option value="">Select Purpose</option>
+                  {Object.entries(purposeLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {purposeOfShipment === 'other' && (
+                <div className="space-y-2">
+                  <label className="block text-sm font-semibold text-gray-700">Describe Purpose *</label>
+                  <input type="text" {...register("customPurpose")} className={inputClassName} />
+                  <FieldError message={errors.customPurpose?.message} />
+                </div>
+              )}
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">HS Code</label>
+                <input type="text" {...register("hsCode")} className={inputClassName} placeholder="e.g. 2815.12" />
+                <FieldError message={errors.hsCode?.message} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">Country of Origin</label>
+                <input type="text" {...register("countryOfOrigin")} className={inputClassName} placeholder="e.g. United States" />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-center">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center justify-center px-12 py-4 bg-gradient-to-r from-blue-600 to-indigo-600 text-white font-bold text-lg rounded-2xl hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-2xl min-w-[280px]"
+            >
+              {isSubmitting ? 'Submitting Request...' : 'Request Shipping Quote'}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,12 @@ export default function Navbar() {
               >
                 Credit Application
               </Link>
+              <Link 
+                href="/international-shipping" 
+                className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                International Shipping
+              </Link>
             </div>
           </div>
 
@@ -120,6 +126,13 @@ export default function Navbar() {
             >
               Credit Application
             </Link>
+            <Link
+              href="/international-shipping"
+              className="border-transparent text-gray-600 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-800 block pl-3 pr-4 py-2 border-l-4 text-base font-medium"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              International Shipping
+            </Link>
           </div>
         </div>
       )}
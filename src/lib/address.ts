@@ -0,0 +1,54 @@
+// Structured address helpers. Addresses are stored as separate street, city,
+// state, postal code and country columns; these helpers normalize form input
+// and format the parts back into a single line for emails and AI prompts.
+
+export interface StructuredAddress {
+  street?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+}
+
+export const DEFAULT_COUNTRY = 'US';
+
+// Trim a single address part, treating blanks as missing
+export function cleanAddressPart(value?: string | null): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+// Normalize form input into the shape stored in the database
+export function normalizeAddress(address: StructuredAddress) {
+  return {
+    street: cleanAddressPart(address.street),
+    city: cleanAddressPart(address.city),
+    state: cleanAddressPart(address.state)?.toUpperCase() ?? null,
+    postalCode: cleanAddressPart(address.postalCode),
+    country: cleanAddressPart(address.country)?.toUpperCase() ?? DEFAULT_COUNTRY,
+  };
+}
+
+// "Houston, TX 77001" - missing parts are left out rather than printed as blanks
+export function formatCityStateZip(address: StructuredAddress): string {
+  const stateZip = [cleanAddressPart(address.state), cleanAddressPart(address.postalCode)]
+    .filter(Boolean)
+    .join(' ');
+  return [cleanAddressPart(address.city), stateZip].filter(Boolean).join(', ');
+}
+
+// "123 Industrial Blvd, Houston, TX 77001" (country only shown when not US)
+export function formatAddress(address: StructuredAddress): string {
+  const country = cleanAddressPart(address.country);
+  return [
+    cleanAddressPart(address.street),
+    formatCityStateZip(address),
+    country && country.toUpperCase() !== DEFAULT_COUNTRY ? country : null,
+  ].filter(Boolean).join(', ');
+}
+
+// Whether two addresses refer to the same place, ignoring case and spacing
+export function isSameAddress(a: StructuredAddress, b: StructuredAddress): boolean {
+  const key = (address: StructuredAddress) => formatAddress(address).toLowerCase().replace(/\s+/g, ' ');
+  return key(a) !== '' && key(a) === key(b);
+}
@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server';
+
+// Credential checks for admin routes and scheduled jobs.
+// Admin: /admin and /api/admin/* need ADMIN_TOKEN, sent as an x-admin-token header, an
+// "Authorization: Bearer" header or the admin-session cookie.
+// Cron: job routes need "Authorization: Bearer <CRON_SECRET>", which Vercel cron sends.
+// With the secret unset every request is refused. Used by middleware.ts, so this module
+// must stay free of Node-only imports.
+
+// Compares every character whatever the input, so the time taken doesn't reveal how
+// much of the token was right
+function constantTimeEqual(provided: string, expected: string): boolean {
+  let difference = provided.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ (provided.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+function presentedCredentials(request: NextRequest): string[] {
+  const authorization = request.headers.get('authorization') || '';
+  return [
+    request.headers.get('x-admin-token'),
+    authorization.toLowerCase().startsWith('bearer ') ? authorization.slice(7).trim() : null,
+    request.cookies.get('admin-session')?.value,
+  ].filter((credential): credential is string => !!credential);
+}
+
+export function hasAdminCredential(request: NextRequest): boolean {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return false;
+  }
+  return presentedCredentials(request).some(credential => constantTimeEqual(credential, adminToken));
+}
+
+// For scheduled job routes (retention purge, webhook retries)
+export function hasCronCredential(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('❌ CRON_SECRET is not set; scheduled jobs refuse every request');
+    return false;
+  }
+  return constantTimeEqual(request.headers.get('authorization') || '', `Bearer ${cronSecret}`);
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { REASON_CODE_LIST } from '@/lib/reason-codes';
+
+// The JSON each AI agent must return (see the prompts in ai-processor.ts). Responses are
+// checked against these before use; a response that fails gets one repair attempt (see
+// completeStructuredForAgent in llm-providers.ts) before the agent falls back to rules.
+
+export const fraudAgentOutputSchema = z.object({
+  isFraud: z.boolean(),
+  confidence: z.number().min(0).max(100),
+  reasons: z.array(z.string()).default([]),
+  verdict: z.enum(['REJECT', 'REVIEW', 'PROCEED']),
+  explanation: z.string().optional(),
+});
+
+export const creditAgentOutputSchema = z.object({
+  approveSystemDecision: z.boolean(),
+  finalDecision: z.enum(['APPROVE', 'CONDITIONAL', 'DECLINE', 'REVIEW']),
+  creditLimit: z.number().nonnegative(),
+  paymentTerms: z.string(),
+  riskLevel: z.enum(['LOW', 'MEDIUM', 'HIGH']),
+  keyStrengths: z.array(z.string()).default([]),
+  concerns: z.array(z.string()).default([]),
+  conditions: z.array(z.string()).default([]),
+  reasonCodes: z.array(z.enum(REASON_CODE_LIST)).default([]), // Adverse-action codes from reason-codes.ts
+  reasoning: z.string().min(1),
+  confidence: z.number().min(0).max(100),
+});
+
+export type FraudAgentOutput = z.infer<typeof fraudAgentOutputSchema>;
+export type CreditAgentOutput = z.infer<typeof creditAgentOutputSchema>;
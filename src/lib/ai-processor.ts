@@ -12,7 +12,7 @@ export async function sendAIAnalysisReport(applicationData: any, aiDecision: Cre
       : 'http://localhost:3000';
 
   // Special handling for fraud rejections
-  const isFraudRejection = aiDecision.decision === 'DECLINE' && aiDecision.fraudRiskScore >= 60;
+  const isFraudRejection = isAIFraudRejection(aiDecision);
   
   const subject = isFraudRejection 
     ? `🚨 FRAUD ALERT: ${applicationData.legalEntityName} (#${applicationData.id}) - AI REJECTED`
@@ -48,6 +48,19 @@ export async function sendAIAnalysisReport(applicationData: any, aiDecision: Cre
     }
   };
 
+  // Earlier applications from the same customer account (see customers.ts)
+  const priorApplications: PriorApplication[] = applicationData.priorApplications || [];
+  const accountHistory = priorApplications.length > 0
+    ? priorApplications.map(describePriorApplication)
+    : ['No prior applications from this customer'];
+
+  // Answers to information requests, present when the report follows a customer's response
+  const informationResponses: InformationRequestView[] = applicationData.informationResponses || [];
+  const informationLines = informationResponses.flatMap(describeInformationResponse);
+
+  // Standard reasons behind a non-approval; the customer's denial notice uses the same codes
+  const reasonCodes = aiDecision.reasonCodes ?? [];
+
   const textBody = `
 🤖 2-AGENT AI CREDIT ANALYSIS COMPLETE
 =====================================
@@ -58,6 +71,12 @@ Company: ${applicationData.legalEntityName}
 Application ID: #${applicationData.id}
 Analysis Date: ${new Date().toISOString()}
 
+👥 ACCOUNT HISTORY (${applicationData.applicationType || 'new'})
+${accountHistory.map(line => `- ${line}`).join('\n')}
+${informationLines.length > 0 ? `
+📨 INFORMATION PROVIDED ON REQUEST
+${informationLines.map(line => `- ${line}`).join('\n')}
+` : ''}
 📊 CREDIT SUMMARY
 - Credit Score: ${aiDecision.creditScore}/850
 - Risk Level: ${aiDecision.riskLevel}
@@ -70,7 +89,10 @@ ${aiDecision.verificationSummary}
 
 📝 EXECUTIVE SUMMARY
 ${aiDecision.reasoning}
-
+${reasonCodes.length > 0 ? `
+🏷️ ADVERSE-ACTION REASONS (most significant first)
+${reasonCodes.map((reason, i) => `${i+1}. ${describeReason(reason)}`).join('\n')}
+` : ''}
 ⚠️ CONDITIONS (${aiDecision.conditions.length})
 ${aiDecision.conditions.map((condition, i) => `${i+1}. ${condition}`).join('\n')}
 
@@ -200,6 +222,16 @@ This analysis was generated by our AI-powered credit processing system.
       <p>${aiDecision.reasoning}</p>
     </div>
 
+    ${reasonCodes.length > 0 ? `
+    <div class="section">
+      <h3>🏷️ Adverse-Action Reasons</h3>
+      <p>Most significant first. The first ${NOTICE_REASON_LIMIT} are given to the customer if the application is denied.</p>
+      <ol>
+        ${reasonCodes.map(reason => `<li>${describeReason(reason)}</li>`).join('')}
+      </ol>
+    </div>
+    ` : ''}
+
     ${aiDecision.conditions.length > 0 ? `
     <div class="conditions">
       <h3>⚠️ Conditions for Approval</h3>
@@ -233,10 +265,27 @@ This analysis was generated by our AI-powered credit processing system.
         <li><strong>Tax EIN:</strong> ${applicationData.taxEIN}</li>
         <li><strong>Contact:</strong> ${applicationData.buyerNameEmail}</li>
         <li><strong>Phone:</strong> ${applicationData.phoneNo}</li>
+        <li><strong>Billing Address:</strong> ${formatAddress({ street: applicationData.billToAddress, city: applicationData.billToCity, state: applicationData.billToState, postalCode: applicationData.billToZip }) || 'Not provided'}</li>
         <li><strong>DUNS:</strong> ${applicationData.dunsNumber || 'Not provided'}</li>
       </ul>
     </div>
 
+    <div class="section">
+      <h3>👥 Account History (${applicationData.applicationType || 'new'})</h3>
+      <ul>
+        ${accountHistory.map(line => `<li>${line}</li>`).join('')}
+      </ul>
+    </div>
+
+    ${informationLines.length > 0 ? `
+    <div class="section">
+      <h3>📨 Information Provided on Request</h3>
+      <ul>
+        ${informationLines.map(line => `<li>${line}</li>`).join('')}
+      </ul>
+    </div>
+    ` : ''}
+
     ${!isFraudRejection ? `
     <!-- APPROVAL SECTION -->
     <div class="approval-section">
@@ -278,7 +327,7 @@ This analysis was generated by our AI-powered credit processing system.
 
   <div class="footer">
     <p>🤖 This analysis was generated by Alliance Chemical's 2-Agent AI Credit Processing System</p>
-    <p>Agent 1: Fraud Detection (gpt-5-2025-08-07) | Agent 2: Credit Analysis (gpt-5-2025-08-07)</p>
+    <p>Agent 1: Fraud Detection | Agent 2: Credit Analysis</p>
   </div>
 </body>
 </html>
@@ -296,9 +345,8 @@ This analysis was generated by our AI-powered credit processing system.
 
   console.log('📧 AI Analysis report sent via email');
 }import { db } from '@/lib/db';
-import { customerApplications, tradeReferences } from '@/lib/schema';
+import { customerApplications, tradeReferences, bankReferences, authorizedPurchasers } from '@/lib/schema';
 import { eq } from 'drizzle-orm';
-import { OPENAI_API_KEY } from '@/lib/config';
 import { sendEmail } from '@/lib/email';
 import { 
   verifyDomain, 
@@ -307,8 +355,36 @@ import {
   validateAddress, 
   calculateEnhancedCreditScore 
 } from '@/lib/verification';
-
-interface CreditDecision {
+import { recordCreditAnalysis, type AnalysisTrigger } from '@/lib/credit-analyses';
+import { formatAddress, formatCityStateZip } from '@/lib/address';
+import { maskValue } from '@/lib/field-encryption';
+import { getPriorApplications, describePriorApplication, type PriorApplication } from '@/lib/customers';
+import { describeInformationResponse, getFulfilledInformationRequests, type InformationRequestView } from '@/lib/information-requests';
+import { AgentOutputError, completeStructuredForAgent, getAgentProviders } from '@/lib/llm-providers';
+import { creditAgentOutputSchema, fraudAgentOutputSchema, type CreditAgentOutput } from '@/lib/agent-outputs';
+import { evaluateFraudRules, FRAUD_RULE_SET } from '@/lib/fraud-rules';
+import { recordFraudRuleHits } from '@/lib/fraud-rule-stats';
+import { canTransition, transitionApplicationStatus } from '@/lib/application-status';
+import { emitApplicationEvent } from '@/lib/webhooks';
+import { getSubmissionSnapshot } from '@/lib/submission-snapshots';
+import { getCurrentScorecard, scorecardDecision, type Scorecard } from '@/lib/scorecard';
+import {
+  adverseReason,
+  describeReason,
+  NOTICE_REASON_LIMIT,
+  rankReasons,
+  REASON_CODE_LIST,
+  REASON_CODES,
+  type AdverseActionReason,
+  type ReasonCode,
+} from '@/lib/reason-codes';
+
+// Rule version recorded with every stored analysis, next to the models and scorecard used.
+// Bump the prefix whenever the analysis logic changes; the fraud rule set version comes
+// from fraud-rules.json, and points and thresholds are versioned in the scorecard.
+export const ANALYSIS_RULE_VERSION = `2-agent-v2+fraud-rules-${FRAUD_RULE_SET.version}`;
+
+export interface CreditDecision {
   decision: 'APPROVE' | 'CONDITIONAL' | 'DECLINE' | 'REVIEW';
   creditScore: number;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'EXTREME';
@@ -321,301 +397,30 @@ interface CreditDecision {
   scoreBreakdown: Record<string, number>;
   fraudRiskScore: number;
   auditFlags: string[];
+  // Adverse-action reasons, most score points lost first (see reason-codes.ts).
+  // Missing on analyses stored before reason codes were introduced.
+  reasonCodes?: AdverseActionReason[];
 }
 
-interface FakeDataResult {
-  isFake: boolean;
-  reasons: string[];
-  confidence: 'HIGH' | 'MEDIUM' | 'LOW';
-  fraudProbability: number;
-}
-
-// ENHANCED HARDCORE FRAUD DETECTION PATTERNS
-const HARDCORE_PATTERNS = {
-  // Expanded profanity and inappropriate terms
-  profanity: [
-    'fuck', 'shit', 'damn', 'ass', 'bitch', 'crap', 'hell', 'piss', 'bastard', 
-    'dick', 'cock', 'pussy', 'whore', 'fuk', 'sht', 'azz', 'b1tch', 'fck',
-    'porn', 'sex', 'nude', 'xxx', 'cannabis', 'weed', '420', 'drug', 'meth'
-  ],
-  
-  // Suspicious business name patterns
-  suspiciousBusinessPatterns: [
-    /^[A-Z]{3,4}\s*(inc|llc|corp)?$/i, // Just initials (ABC Inc)
-    /^\d+\s*(inc|llc|corp)?$/i, // Just numbers (123 LLC)
-    /^(new|best|top|great|super|mega|ultra)\s*(company|business|corp|inc|llc)$/i,
-    /cash\s*(only|now|fast|quick)/i,
-    /get\s*(rich|money|paid)\s*(quick|fast|now)/i,
-    /(pyramid|scheme|mlm|ponzi)/i,
-    /no\s*(credit|questions|verification)/i,
-    /^[a-z]+ [a-z]+$/i, // Just two lowercase words (like "andgelo dee")
-    /^(john|jane|joe|bob|alice|test)\s*(doe|smith|jones|user)?$/i, // Common test names
-  ],
-  
-  // Known scammer patterns
-  scammerPatterns: [
-    'nigerian', 'prince', 'lottery', 'winner', 'inheritance',
-    'offshore', 'tax haven', 'anonymous', 'untraceable'
-  ],
-  
-  // Suspicious email patterns
-  suspiciousEmailDomains: [
-    'guerrillamail.com', 'mailinator.com', '10minutemail.com', 'tempmail.com',
-    'throwaway.email', 'getnada.com', 'temp-mail.org', 'maildrop.cc',
-    'yopmail.com', 'sharklasers.com', 'spam4.me', 'grr.la'
-  ],
-  
-  // High-risk industries
-  highRiskIndustries: [
-    'cryptocurrency', 'crypto', 'bitcoin', 'forex', 'trading',
-    'gambling', 'casino', 'betting', 'adult', 'escort',
-    'payday', 'loan', 'advance', 'mlm', 'network marketing'
-  ]
-};
-
-function detectFakeData(application: any): FakeDataResult {
-  const reasons: string[] = [];
-  let confidence: 'HIGH' | 'MEDIUM' | 'LOW' = 'LOW';
-  let fraudScore = 0;
-
-  const companyName = (application.legalEntityName || '').toLowerCase().trim();
-  const email = (application.buyerNameEmail || '').toLowerCase();
-  const description = (application.businessDescription || '').toLowerCase();
-  const phone = (application.phoneNo || '').replace(/\D/g, '');
-  
-  // ENHANCED: Check for person names as company names
-  const personNamePattern = /^[a-z]+ [a-z]+$/i;
-  const commonFirstNames = ['john', 'jane', 'joe', 'bob', 'alice', 'mary', 'james', 'robert', 'michael', 'david', 'angelo', 'andgelo'];
-  const commonLastNames = ['doe', 'smith', 'jones', 'brown', 'davis', 'miller', 'wilson', 'moore', 'taylor', 'anderson', 'dee'];
-  
-  // Check if company name looks like a person's name
-  if (personNamePattern.test(companyName)) {
-    const nameParts = companyName.split(' ');
-    const firstName = nameParts[0]?.toLowerCase();
-    const lastName = nameParts[1]?.toLowerCase();
-    
-    if (commonFirstNames.some(name => firstName?.includes(name)) || 
-        commonLastNames.some(name => lastName?.includes(name))) {
-      reasons.push(`🚨 PERSON NAME AS COMPANY: "${companyName}" is not a business name`);
-      confidence = 'HIGH';
-      fraudScore += 50;
-    } else {
-      reasons.push(`🚨 SUSPICIOUS NAME FORMAT: "${companyName}" appears to be a person's name`);
-      confidence = 'HIGH';
-      fraudScore += 40;
-    }
-  }
-  
-  // HARDCORE PROFANITY CHECK
-  for (const word of HARDCORE_PATTERNS.profanity) {
-    if (companyName.includes(word) || description.includes(word)) {
-      reasons.push(`🚨 PROFANITY/INAPPROPRIATE: "${word}" detected`);
-      confidence = 'HIGH';
-      fraudScore += 30;
-    }
-  }
-
-  // SUSPICIOUS BUSINESS NAME PATTERNS
-  for (const pattern of HARDCORE_PATTERNS.suspiciousBusinessPatterns) {
-    if (pattern.test(companyName)) {
-      reasons.push(`⚠️ SUSPICIOUS NAME PATTERN: Matches "${pattern}"`);
-      confidence = 'HIGH';
-      fraudScore += 25;
-    }
-  }
-
-  // SCAMMER KEYWORD DETECTION
-  for (const scamWord of HARDCORE_PATTERNS.scammerPatterns) {
-    if (companyName.includes(scamWord) || description.includes(scamWord)) {
-      reasons.push(`🚨 SCAM INDICATOR: "${scamWord}" detected`);
-      confidence = 'HIGH';
-      fraudScore += 40;
-    }
-  }
-
-  // DISPOSABLE EMAIL CHECK
-  const emailDomain = email.split('@')[1];
-  if (emailDomain && HARDCORE_PATTERNS.suspiciousEmailDomains.includes(emailDomain)) {
-    reasons.push(`🚨 DISPOSABLE EMAIL: ${emailDomain}`);
-    confidence = 'HIGH';
-    fraudScore += 35;
-  }
-
-  // FREE EMAIL FOR BUSINESS
-  const freeEmailDomains = ['gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'aol.com'];
-  if (emailDomain && freeEmailDomains.includes(emailDomain)) {
-    reasons.push(`⚠️ FREE EMAIL SERVICE: ${emailDomain} (unprofessional for business)`);
-    if (confidence === 'LOW') confidence = 'MEDIUM';
-    fraudScore += 15;
-  }
-
-  // GIBBERISH DETECTION - Enhanced
-  const nameWords = companyName.split(/\s+/);
-  const consonantClusters = nameWords.filter((word: string) => {
-    const consonantRatio = (word.match(/[^aeiou]/gi) || []).length / word.length;
-    return word.length > 3 && consonantRatio > 0.75;
-  });
-  
-  if (consonantClusters.length > nameWords.length * 0.5) {
-    reasons.push('🚨 GIBBERISH DETECTED: Excessive consonant clusters');
-    confidence = 'HIGH';
-    fraudScore += 20;
-  }
-
-  // REPEATED PATTERNS
-  if (/(.{2,})\1{2,}/.test(companyName)) {
-    reasons.push('🚨 REPEATED PATTERN: Suspicious character repetition');
-    confidence = 'HIGH';
-    fraudScore += 25;
-  }
-
-  // ENHANCED: Repeated digits in phone number
-  if (/(\d)\1{4,}/.test(phone)) {
-    reasons.push(`🚨 FAKE PHONE: Repeated digits "${phone}"`);
-    confidence = 'HIGH';
-    fraudScore += 45;
-  }
-
-  // KEYBOARD MASHING DETECTION
-  const keyboardPatterns = ['qwerty', 'asdf', 'zxcv', 'qazwsx', 'qwertyuiop'];
-  for (const pattern of keyboardPatterns) {
-    if (companyName.includes(pattern)) {
-      reasons.push(`🚨 KEYBOARD MASHING: "${pattern}" detected`);
-      confidence = 'HIGH';
-      fraudScore += 30;
-    }
-  }
-
-  // PHONE NUMBER VALIDATION - EXTREME
-  // Check for movie/TV phone numbers
-  if (phone.startsWith('555') && phone.length === 10) {
-    reasons.push(`🚨 FAKE PHONE: Hollywood 555 number`);
-    confidence = 'HIGH';
-    fraudScore += 40;
-  }
-
-  // Check for sequential patterns
-  if (/0123456789|9876543210|1234567890/.test(phone)) {
-    reasons.push(`🚨 FAKE PHONE: Sequential pattern detected`);
-    confidence = 'HIGH';
-    fraudScore += 35;
-  }
-
-  // Check for all same digits
-  if (/^(\d)\1+$/.test(phone) && phone.length >= 10) {
-    reasons.push(`🚨 FAKE PHONE: All digits are the same`);
-    confidence = 'HIGH';
-    fraudScore += 50;
-  }
-
-  // EIN DEEP VALIDATION
-  const ein = (application.taxEIN || '').replace(/\D/g, '');
-  
-  // Check for repeated digits in EIN
-  if (/(\d)\1{3,}/.test(ein)) {
-    reasons.push(`🚨 FAKE EIN: Repeated digits pattern`);
-    confidence = 'HIGH';
-    fraudScore += 40;
-  }
-  
-  if (ein.length === 9) {
-    // Check first two digits (should be valid IRS prefixes)
-    const prefix = parseInt(ein.substring(0, 2));
-    const validPrefixes = [
-      ...Array.from({length: 7}, (_, i) => i + 1), // 01-06
-      ...Array.from({length: 6}, (_, i) => i + 10), // 10-16
-      20, 24, 25, 26, 27, // Various states
-      ...Array.from({length: 18}, (_, i) => i + 30), // 30-47
-      ...Array.from({length: 38}, (_, i) => i + 50), // 50-87
-      ...Array.from({length: 8}, (_, i) => i + 90), // 90-95, 98, 99
-    ];
-    
-    if (!validPrefixes.includes(prefix)) {
-      reasons.push(`🚨 INVALID EIN PREFIX: ${prefix} not issued by IRS`);
-      confidence = 'HIGH';
-      fraudScore += 45;
-    }
-  }
-
-  // ADDRESS QUALITY CHECK
-  const address = (application.billToAddress || '').toLowerCase();
-  const poBoxPattern = /^(po box|p\.o\. box|post office box)/i;
-  const suspiciousAddressWords = ['nowhere', 'fake street', 'test avenue', '123 main', 'none', 'n/a', 'na'];
-  
-  if (poBoxPattern.test(address)) {
-    reasons.push('⚠️ PO BOX ADDRESS: Higher risk for B2B credit');
-    fraudScore += 10;
-  }
-
-  for (const suspicious of suspiciousAddressWords) {
-    if (address.includes(suspicious)) {
-      reasons.push(`🚨 FAKE ADDRESS: Contains "${suspicious}"`);
-      confidence = 'HIGH';
-      fraudScore += 30;
-    }
-  }
-
-  // BUSINESS DESCRIPTION ANALYSIS
-  if (!description || description.length < 20) {
-    reasons.push('🚨 NO BUSINESS DESCRIPTION: Required field missing or too short');
-    confidence = 'HIGH';
-    fraudScore += 30;
-  }
-
-  if (description && description.length > 20) {
-    const uniqueWords = new Set(description.split(/\s+/));
-    const repetitionRatio = description.split(/\s+/).length / uniqueWords.size;
-    
-    if (repetitionRatio > 3) {
-      reasons.push('🚨 REPETITIVE DESCRIPTION: Same words repeated excessively');
-      confidence = 'HIGH';
-      fraudScore += 25;
-    }
-  }
-
-  // HIGH-RISK INDUSTRY CHECK
-  for (const riskyTerm of HARDCORE_PATTERNS.highRiskIndustries) {
-    if (companyName.includes(riskyTerm) || description.includes(riskyTerm)) {
-      reasons.push(`⚠️ HIGH-RISK INDUSTRY: "${riskyTerm}" detected`);
-      fraudScore += 20;
-    }
-  }
-
-  // MISSING TRADE REFERENCES - Major red flag
-  const hasTradeRefs = application.trade1Name || application.trade2Name || application.trade3Name;
-  if (!hasTradeRefs) {
-    reasons.push('🚨 NO TRADE REFERENCES: Zero references provided');
-    confidence = confidence === 'LOW' ? 'MEDIUM' : confidence;
-    fraudScore += 35;
-  }
-
-  // Calculate final fraud probability
-  const fraudProbability = Math.min(fraudScore, 100);
-
-  // Adjust confidence based on total fraud score
-  if (fraudProbability >= 70) {
-    confidence = 'HIGH';
-  } else if (fraudProbability >= 40) {
-    confidence = 'MEDIUM';
-  }
-
-  return {
-    isFake: reasons.length > 0,
-    reasons,
-    confidence,
-    fraudProbability
-  };
+// Fraud rejections are final: Andre gets no decision buttons and the applicant is not notified
+export function isAIFraudRejection(aiDecision: CreditDecision): boolean {
+  return aiDecision.decision === 'DECLINE' && aiDecision.fraudRiskScore >= 60;
 }
 
-// 🤖 AGENT 1: FRAUD DETECTION (gpt-5-2025-08-07)
+// 🤖 AGENT 1: FRAUD DETECTION (providers from FRAUD_AGENT_PROVIDERS, see llm-providers.ts)
 async function runFraudDetectionAgent(application: any): Promise<{
   isFraud: boolean;
   confidence: number;
   reasons: string[];
   shouldProceed: boolean;
+  model: string | null; // null when only the rule-based check ran
+  outputError: string | null; // Why the model's answer was rejected, if it was
 }> {
   // Always run basic fraud detection first
-  const basicCheck = detectFakeData(application);
+  const basicCheck = evaluateFraudRules(application);
+  await recordFraudRuleHits(application.id, basicCheck).catch(error => {
+    console.error('❌ Failed to record fraud rule hits:', error);
+  });
   
   // If basic check finds high confidence fraud, return immediately
   if (basicCheck.fraudProbability >= 60) {
@@ -623,17 +428,21 @@ async function runFraudDetectionAgent(application: any): Promise<{
       isFraud: true,
       confidence: basicCheck.fraudProbability,
       reasons: basicCheck.reasons,
-      shouldProceed: false
+      shouldProceed: false,
+      model: null,
+      outputError: null
     };
   }
   
-  if (!OPENAI_API_KEY) {
-    console.warn('⚠️ OpenAI API key not configured - using enhanced basic fraud detection');
+  if (getAgentProviders('fraud').length === 0) {
+    console.warn('⚠️ No LLM provider configured for fraud detection - using enhanced basic fraud detection');
     return {
       isFraud: basicCheck.isFake,
       confidence: basicCheck.fraudProbability,
       reasons: basicCheck.reasons,
-      shouldProceed: !basicCheck.isFake || basicCheck.confidence !== 'HIGH'
+      shouldProceed: !basicCheck.isFake || basicCheck.confidence !== 'HIGH',
+      model: null,
+      outputError: null
     };
   }
 
@@ -646,7 +455,7 @@ Tax EIN: "${application.taxEIN || 'NOT PROVIDED'}"
 Email: "${application.buyerNameEmail || 'NOT PROVIDED'}"
 Phone: "${application.phoneNo || 'NOT PROVIDED'}"
 Address: "${application.billToAddress || 'NOT PROVIDED'}"
-City/State: "${application.billToCity || 'NOT PROVIDED'}, ${application.billToState || 'NOT PROVIDED'}"
+City/State/ZIP: "${formatCityStateZip({ city: application.billToCity, state: application.billToState, postalCode: application.billToPostalCode }) || 'NOT PROVIDED'}"
 Business Description: "${application.businessDescription || 'NOT PROVIDED'}"
 Trade References: ${application.trade1Name ? 'Yes' : 'NO'} 
 
@@ -676,53 +485,37 @@ Return ONLY valid JSON:
 
   try {
     console.log('🕵️ AGENT 1: Running AI fraud detection...');
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-5-2025-08-07',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert fraud detection specialist. BE STRICT: Person names as company names are fraudulent. Identify fake/test data with high precision. Return ONLY valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 500,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Fraud detection API error: ${response.status}`);
-    }
 
-    const result = await response.json();
-    const content = result.choices[0]?.message?.content;
-
-    if (!content) {
-      throw new Error('No response from fraud detection agent');
-    }
+    const completion = await completeStructuredForAgent({
+      agent: 'fraud',
+      system: 'You are an expert fraud detection specialist. BE STRICT: Person names as company names are fraudulent. Identify fake/test data with high precision. Return ONLY valid JSON.',
+      prompt,
+      temperature: 0.1,
+      maxTokens: 500,
+      // Offline, the rule-based check stands in for the model's verdict
+      fixture: {
+        isFraud: basicCheck.isFake,
+        confidence: basicCheck.fraudProbability,
+        reasons: basicCheck.reasons,
+        verdict: basicCheck.isFake ? 'REVIEW' : 'PROCEED',
+        explanation: 'Fixture response based on the rule-based check',
+      },
+    }, fraudAgentOutputSchema);
 
-    const fraudAnalysis = JSON.parse(content);
-    console.log(`🕵️ AGENT 1: Fraud confidence = ${fraudAnalysis.confidence}%`);
+    const fraudAnalysis = completion.output;
+    console.log(`🕵️ AGENT 1: Fraud confidence = ${fraudAnalysis.confidence}% (${completion.provider} ${completion.model})`);
 
     // Combine AI results with basic check
-    const combinedReasons = [...new Set([...basicCheck.reasons, ...(fraudAnalysis.reasons || [])])];
+    const combinedReasons = [...new Set([...basicCheck.reasons, ...fraudAnalysis.reasons])];
     const combinedConfidence = Math.max(basicCheck.fraudProbability, fraudAnalysis.confidence);
 
     return {
       isFraud: fraudAnalysis.isFraud || basicCheck.isFake,
       confidence: combinedConfidence,
       reasons: combinedReasons,
-      shouldProceed: fraudAnalysis.verdict === 'PROCEED' && combinedConfidence < 60
+      shouldProceed: fraudAnalysis.verdict === 'PROCEED' && combinedConfidence < 60,
+      model: completion.model,
+      outputError: null
     };
 
   } catch (error) {
@@ -731,34 +524,46 @@ Return ONLY valid JSON:
       isFraud: basicCheck.isFake,
       confidence: basicCheck.fraudProbability,
       reasons: basicCheck.reasons,
-      shouldProceed: !basicCheck.isFake || basicCheck.confidence !== 'HIGH'
+      shouldProceed: !basicCheck.isFake || basicCheck.confidence !== 'HIGH',
+      model: null,
+      outputError: error instanceof AgentOutputError ? error.reason : null
     };
   }
 }
 
-// 🤖 AGENT 2: CREDIT ANALYSIS (gpt-5-2025-08-07)
+// 🤖 AGENT 2: CREDIT ANALYSIS (providers from CREDIT_AGENT_PROVIDERS, see llm-providers.ts)
 async function runCreditAnalysisAgent(
   application: any, 
   verificationData: any, 
   creditScore: any,
-  systemDecision: any
+  systemDecision: any,
+  scorecard: Scorecard
 ): Promise<{
-  finalDecision: string;
+  finalDecision: CreditAgentOutput['finalDecision'];
   reasoning: string;
   riskAdjustment: string;
   conditions: string[];
+  reasonCodes: ReasonCode[]; // Codes the agent added beyond the scored reasons
   analysis: string;
+  model: string | null; // null when the system decision was used as-is
+  outputError: string | null; // Why the model's answer was rejected, if it was
 }> {
-  if (!OPENAI_API_KEY) {
+  if (getAgentProviders('credit').length === 0) {
     return {
       finalDecision: systemDecision.decision,
-      reasoning: `System analysis: Score ${creditScore.score}/850, Risk ${systemDecision.riskLevel}`,
+      reasoning: `System analysis: Score ${creditScore.score}/${creditScore.maxScore}, Risk ${systemDecision.riskLevel}`,
       riskAdjustment: 'No adjustment',
       conditions: systemDecision.conditions,
-      analysis: 'Basic system analysis completed'
+      reasonCodes: [],
+      analysis: 'Basic system analysis completed',
+      model: null,
+      outputError: null
     };
   }
 
+  // Scores below the REVIEW tier are declines under the scorecard in force
+  const reviewMinScore = scorecard.definition.tiers.REVIEW.minScore;
+
   const prompt = `You are a SENIOR CREDIT ANALYST reviewing a legitimate business credit application.
 
 The FRAUD DETECTION AGENT has already cleared this application as legitimate.
@@ -766,12 +571,26 @@ The FRAUD DETECTION AGENT has already cleared this application as legitimate.
 APPLICATION DATA:
 Company: ${application.legalEntityName || 'NOT PROVIDED'}
 Tax EIN: ${application.taxEIN || 'NOT PROVIDED'}
+Billing Address: ${formatAddress({ street: application.billToAddress, city: application.billToCity, state: application.billToState, postalCode: application.billToPostalCode, country: application.billToCountry }) || 'NOT PROVIDED'}
 DUNS: ${application.dunsNumber || 'Not provided'}
 Industry: ${application.industry || 'NOT PROVIDED'}
+Company Type: ${application.companyType || 'NOT PROVIDED'}
+State Incorporated: ${application.stateIncorporated || 'NOT PROVIDED'}
 Employees: ${application.numberOfEmployees || 'NOT PROVIDED'}
 Years in Business: ${application.yearsSinceIncorporation || 'NOT PROVIDED'}
+Company Valuation: ${application.companyValuation || 'NOT PROVIDED'}
+Website: ${application.businessWebsite || 'NOT PROVIDED'}
+Business Description: ${application.businessDescription || 'NOT PROVIDED'}
 Requested Credit: ${application.requestedCreditAmount ? '$' + application.requestedCreditAmount.toLocaleString() : 'NOT PROVIDED'}
-Trade References Provided: ${application.trade1Name ? 'Yes' : 'NO'}
+Trade References Provided: ${application.tradeReferences?.length || 0}
+Bank Reference: ${application.bankReference ? `${application.bankReference.bankName}${application.bankReference.contactName ? ` (contact: ${application.bankReference.contactName})` : ''}` : 'NOT PROVIDED'}
+Additional Authorized Purchasers: ${application.additionalPurchasers?.length || 0}
+
+ACCOUNT HISTORY (${application.applicationType || 'new'}):
+${application.priorApplications?.length ? application.priorApplications.map((prior: PriorApplication) => `- ${describePriorApplication(prior)}`).join('\n') : '- No prior applications from this customer'}
+
+ADDITIONAL INFORMATION PROVIDED ON REQUEST:
+${application.informationResponses?.length ? application.informationResponses.flatMap(describeInformationResponse).map((line: string) => `- ${line}`).join('\n') : '- None requested'}
 
 VERIFICATION RESULTS:
 - Business Registration: ${verificationData.business?.isValid ? 'VALID' : 'INVALID'}
@@ -779,18 +598,21 @@ VERIFICATION RESULTS:
 - Phone Type: ${verificationData.phone?.type || 'Unknown'}
 - Address Type: ${verificationData.address?.type || 'Unknown'}
 
-SYSTEM CREDIT SCORE: ${creditScore.score}/850
+SYSTEM CREDIT SCORE: ${creditScore.score}/${creditScore.maxScore}
 SYSTEM RECOMMENDATION: ${systemDecision.decision} - $${systemDecision.limit?.toLocaleString()} @ ${systemDecision.terms}
 
 SCORE BREAKDOWN:
 ${Object.entries(creditScore.breakdown || {}).map(([k,v]) => `• ${k}: ${v} points`).join('\n')}
 
 ⚠️ CRITICAL RULES:
-1. If score is below 400, you MUST recommend DECLINE or REVIEW, not CONDITIONAL.
+1. If score is below ${reviewMinScore}, you MUST recommend DECLINE or REVIEW, not CONDITIONAL.
 2. Be EXTREMELY STRICT with applications missing critical information (company name, EIN, etc.)
 3. Missing information = higher risk = lower credit limit or decline
 4. Maintain professional audit standards - this is real money at risk
 
+ADVERSE-ACTION REASON CODES (use only these):
+${REASON_CODE_LIST.map(code => `${code}: ${REASON_CODES[code]}`).join('\n')}
+
 As the credit analyst, provide your STRICT professional assessment:
 
 Return ONLY valid JSON:
@@ -803,78 +625,73 @@ Return ONLY valid JSON:
   "keyStrengths": ["positive factors"],
   "concerns": ["risk factors including any missing critical data"],
   "conditions": ["required conditions if conditional"],
+  "reasonCodes": ["adverse-action codes from the list below that explain a CONDITIONAL, REVIEW or DECLINE"],
   "reasoning": "professional analysis summary emphasizing completeness and risk",
   "confidence": 0-100
 }`;
 
   try {
     console.log('💼 AGENT 2: Running credit analysis...');
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-5-2025-08-07',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a senior credit analyst. BE STRICT with low scores. Score below 400 = DECLINE or REVIEW only. Return ONLY valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.2,
-        max_tokens: 800,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Credit analysis API error: ${response.status}`);
-    }
-
-    const result = await response.json();
-    const content = result.choices[0]?.message?.content;
 
-    if (!content) {
-      throw new Error('No response from credit analysis agent');
-    }
+    const completion = await completeStructuredForAgent({
+      agent: 'credit',
+      system: `You are a senior credit analyst. BE STRICT with low scores. Score below ${reviewMinScore} = DECLINE or REVIEW only. Return ONLY valid JSON.`,
+      prompt,
+      temperature: 0.2,
+      maxTokens: 800,
+      // Offline, the system recommendation is confirmed as-is
+      fixture: {
+        approveSystemDecision: true,
+        finalDecision: systemDecision.decision,
+        creditLimit: systemDecision.limit,
+        paymentTerms: systemDecision.terms,
+        riskLevel: systemDecision.riskLevel,
+        keyStrengths: [],
+        concerns: [],
+        conditions: systemDecision.conditions,
+        reasonCodes: [],
+        reasoning: `Fixture response confirming the system recommendation (score ${creditScore.score}/${creditScore.maxScore})`,
+        confidence: 100,
+      },
+    }, creditAgentOutputSchema);
 
-    const creditAnalysis = JSON.parse(content);
-    console.log(`💼 AGENT 2: Final decision = ${creditAnalysis.finalDecision}`);
+    const creditAnalysis = completion.output;
+    console.log(`💼 AGENT 2: Final decision = ${creditAnalysis.finalDecision} (${completion.provider} ${completion.model})`);
 
     return {
       finalDecision: creditAnalysis.finalDecision,
       reasoning: creditAnalysis.reasoning,
       riskAdjustment: creditAnalysis.approveSystemDecision ? 'Approved system recommendation' : 'Adjusted system recommendation',
-      conditions: creditAnalysis.conditions || [],
-      analysis: `Strengths: ${creditAnalysis.keyStrengths?.join(', ')} | Concerns: ${creditAnalysis.concerns?.join(', ')}`
+      conditions: creditAnalysis.conditions,
+      reasonCodes: creditAnalysis.reasonCodes,
+      analysis: `Strengths: ${creditAnalysis.keyStrengths.join(', ')} | Concerns: ${creditAnalysis.concerns.join(', ')}`,
+      model: completion.model,
+      outputError: null
     };
 
   } catch (error) {
     console.error('❌ AGENT 2: Credit analysis failed:', error);
     return {
       finalDecision: systemDecision.decision,
-      reasoning: `Fallback system analysis: Score ${creditScore.score}/850`,
+      reasoning: `Fallback system analysis: Score ${creditScore.score}/${creditScore.maxScore}`,
       riskAdjustment: 'System fallback',
       conditions: systemDecision.conditions,
-      analysis: 'Credit analysis agent unavailable - using system decision'
+      reasonCodes: [],
+      analysis: 'Credit analysis agent unavailable - using system decision',
+      model: null,
+      outputError: error instanceof AgentOutputError ? error.reason : null
     };
   }
 }
 
-export async function processApplicationWithAI(applicationId: number): Promise<CreditDecision> {
-  console.log(`🤖 AI PROCESSOR: Starting analysis for application #${applicationId}`);
-
+// Load the stored application plus every related row the agents look at.
+// Trade references are also flattened into trade1Name..trade3Name because the
+// fraud rules and credit scoring read the form-shaped field names.
+async function loadApplicationForAnalysis(applicationId: number) {
   if (!db) {
     throw new Error('Database connection not available');
   }
 
-  // Fetch application data
   const [application] = await db
     .select()
     .from(customerApplications)
@@ -885,7 +702,187 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
     throw new Error('Application not found');
   }
 
-  // 🚨 AGENT 1: FRAUD DETECTION AGENT (gpt-5-2025-08-07)
+  const [tradeReferencesData, bankReferencesData, purchasersData, priorApplications, informationResponses] = await Promise.all([
+    db.select().from(tradeReferences).where(eq(tradeReferences.applicationId, applicationId)),
+    db.select().from(bankReferences).where(eq(bankReferences.applicationId, applicationId)),
+    db.select().from(authorizedPurchasers).where(eq(authorizedPurchasers.applicationId, applicationId)),
+    application.customerId ? getPriorApplications(application.customerId, applicationId) : Promise.resolve([]),
+    getFulfilledInformationRequests(applicationId),
+  ]);
+
+  return {
+    ...application,
+    trade1Name: tradeReferencesData[0]?.name || undefined,
+    trade2Name: tradeReferencesData[1]?.name || undefined,
+    trade3Name: tradeReferencesData[2]?.name || undefined,
+    tradeReferences: tradeReferencesData,
+    bankReference: bankReferencesData[0] || null,
+    additionalPurchasers: purchasersData,
+    priorApplications,
+    informationResponses,
+  };
+}
+
+type AnalysisApplication = Awaited<ReturnType<typeof loadApplicationForAnalysis>>;
+
+// The input snapshot stored with each analysis: everything the agents saw, minus
+// the bank account number (which no agent uses) and with the EIN masked, since
+// the snapshot isn't covered by field encryption
+function toAnalysisInput(application: AnalysisApplication) {
+  return {
+    ...application,
+    taxEIN: maskValue(application.taxEIN),
+    bankReference: application.bankReference
+      ? { ...application.bankReference, accountNumber: undefined }
+      : null,
+  };
+}
+
+// Thrown when analysis is asked for on an application from a legacy import (see legacy-import.ts)
+export class LegacyApplicationError extends Error {
+  constructor(public readonly applicationId: number) {
+    super(`Application #${applicationId} was imported from legacy records and is not analyzed`);
+    this.name = 'LegacyApplicationError';
+  }
+}
+
+export async function processApplicationWithAI(
+  applicationId: number,
+  options: { trigger?: AnalysisTrigger } = {}
+): Promise<CreditDecision> {
+  console.log(`🤖 AI PROCESSOR: Starting analysis for application #${applicationId}`);
+
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const startedAt = new Date();
+
+  // Fetch application data together with its references and purchasers
+  const application = await loadApplicationForAnalysis(applicationId);
+
+  // Imported applications were decided before the online form and are never analyzed
+  if (application.legacyImportId) {
+    throw new LegacyApplicationError(applicationId);
+  }
+
+  const scorecard = await getCurrentScorecard();
+
+  const baseRecord = {
+    applicationId,
+    trigger: options.trigger || 'submission',
+    ruleVersion: ANALYSIS_RULE_VERSION,
+    scorecardVersion: scorecard.version,
+    input: toAnalysisInput(application),
+    startedAt,
+  } as const;
+
+  try {
+    const outcome = await analyzeApplication(application, scorecard);
+
+    await recordCreditAnalysis({
+      ...baseRecord,
+      fraudModel: outcome.fraudModel,
+      creditModel: outcome.creditModel,
+      fraudOutputError: outcome.fraudOutputError,
+      creditOutputError: outcome.creditOutputError,
+      output: outcome.decision,
+      completedAt: new Date(),
+    }).catch(error => {
+      console.error('❌ Failed to store credit analysis:', error);
+    });
+
+    return outcome.decision;
+  } catch (error) {
+    await recordCreditAnalysis({
+      ...baseRecord,
+      fraudModel: null,
+      creditModel: null,
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    }).catch(recordError => {
+      console.error('❌ Failed to store failed credit analysis:', recordError);
+    });
+    throw error;
+  }
+}
+
+// Hand a finished analysis to the approver: analyzed → report email → pending_decision,
+// or denied for fraud rejections. Starts from the application's current status, so an
+// application left in submitted, signed or analyzed by a failed first run (a database
+// error, a report email that didn't send) is moved on by the next successful run.
+// Applications already awaiting a decision or closed are left alone.
+export async function completeAnalysisReview(
+  applicationId: number,
+  aiDecision: CreditDecision,
+  reportData: Parameters<typeof sendAIAnalysisReport>[0],
+  reason: string
+): Promise<void> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [application] = await db
+    .select({ status: customerApplications.status })
+    .from(customerApplications)
+    .where(eq(customerApplications.id, applicationId))
+    .limit(1);
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  if (canTransition(application.status, 'analyzed')) {
+    await transitionApplicationStatus(applicationId, 'analyzed', { changedBy: 'ai-processor', reason });
+  } else if (application.status !== 'analyzed') {
+    return;
+  }
+  await emitApplicationEvent('application.analyzed', applicationId, { aiRecommendation: aiDecision.decision });
+
+  await sendAIAnalysisReport(reportData, aiDecision);
+  console.log('📧 AI analysis report sent successfully');
+
+  // Fraud rejections need no approver action; everything else waits on Andre
+  if (isAIFraudRejection(aiDecision)) {
+    await transitionApplicationStatus(applicationId, 'denied', {
+      changedBy: 'ai-processor',
+      reason: `Fraud rejection (${aiDecision.fraudRiskScore}% fraud risk)`,
+    });
+    await emitApplicationEvent('application.denied', applicationId, { decidedBy: 'ai-processor' });
+  } else {
+    await transitionApplicationStatus(applicationId, 'pending_decision', {
+      changedBy: 'system',
+      reason: 'AI analysis report sent to approver',
+    });
+  }
+}
+
+// What the approver report shows, rebuilt from stored records for runs that happen
+// after intake (re-runs)
+export async function loadAnalysisReportData(applicationId: number) {
+  const [application, snapshot] = await Promise.all([
+    loadApplicationForAnalysis(applicationId),
+    getSubmissionSnapshot(applicationId),
+  ]);
+  return {
+    ...snapshot?.payload,
+    id: applicationId,
+    legalEntityName: application.legalEntityName,
+    applicationType: application.applicationType,
+    priorApplications: application.priorApplications,
+    informationResponses: application.informationResponses,
+  };
+}
+
+async function analyzeApplication(application: AnalysisApplication, scorecard: Scorecard): Promise<{
+  decision: CreditDecision;
+  fraudModel: string | null;
+  creditModel: string | null;
+  fraudOutputError: string | null;
+  creditOutputError: string | null;
+}> {
+  const applicationId = application.id;
+
+  // 🚨 AGENT 1: FRAUD DETECTION AGENT
   console.log('🤖 Running 2-Agent Credit Analysis System...');
   console.log('🕵️ AGENT 1: Starting fraud detection screening...');
   
@@ -895,15 +892,15 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
     console.log(`🚨 AGENT 1: FRAUD DETECTED - Confidence ${fraudResult.confidence}%`);
     console.log(`🚨 Reasons: ${fraudResult.reasons.join(', ')}`);
     
-    return {
+    const fraudDecision: CreditDecision = {
       decision: 'DECLINE',
       creditScore: 0,
       riskLevel: 'EXTREME',
       creditLimit: 0,
       paymentTerms: 'Cash in Advance Only',
-      reasoning: `🚨 APPLICATION REJECTED BY AI FRAUD DETECTION AGENT\n\nThis application has been automatically rejected by our AI fraud detection specialist due to obvious fake or test data submission:\n\n${fraudResult.reasons.map(r => `• ${r}`).join('\n')}\n\nOur gpt-5 AI agent determined this application contains fraudulent patterns with ${fraudResult.confidence}% confidence.\n\nTo submit a legitimate application, please use real business information including:\n• Actual company name (no person names or repetitive patterns)\n• Valid business phone number (no repeated digits)\n• Real Tax EIN from IRS\n• Legitimate business email address\n• Complete business description\n• At least one trade reference\n\nFor assistance with a legitimate application, contact sales@alliancechemical.com`,
+      reasoning: `🚨 APPLICATION REJECTED BY AI FRAUD DETECTION AGENT\n\nThis application has been automatically rejected by our AI fraud detection specialist due to obvious fake or test data submission:\n\n${fraudResult.reasons.map(r => `• ${r}`).join('\n')}\n\nOur AI agent determined this application contains fraudulent patterns with ${fraudResult.confidence}% confidence.\n\nTo submit a legitimate application, please use real business information including:\n• Actual company name (no person names or repetitive patterns)\n• Valid business phone number (no repeated digits)\n• Real Tax EIN from IRS\n• Legitimate business email address\n• Complete business description\n• At least one trade reference\n\nFor assistance with a legitimate application, contact sales@alliancechemical.com`,
       conditions: ['Resubmit with legitimate business information'],
-      additionalNotes: `🤖 REJECTED BY AI FRAUD DETECTION AGENT (gpt-5-2025-08-07)\n\nFraud Confidence: ${fraudResult.confidence}%\nFlags Raised: ${fraudResult.reasons.length}\nAgent Decision: Do not proceed to credit analysis\n\nThis application was rejected before any credit analysis to prevent waste of computational resources on obviously fraudulent submissions.`,
+      additionalNotes: `🤖 REJECTED BY AI FRAUD DETECTION AGENT (${fraudResult.model ?? 'rule-based check'})\n\nFraud Confidence: ${fraudResult.confidence}%\nFlags Raised: ${fraudResult.reasons.length}\nAgent Decision: Do not proceed to credit analysis\n\nThis application was rejected before any credit analysis to prevent waste of computational resources on obviously fraudulent submissions.`,
       verificationSummary: 'Verification skipped - fraud detected by AI agent during pre-screening',
       scoreBreakdown: {
         'AI Fraud Detection': -1000,
@@ -916,7 +913,17 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
         'DUNS Verification': 0
       },
       fraudRiskScore: fraudResult.confidence,
-      auditFlags: fraudResult.reasons
+      auditFlags: fraudResult.reasons,
+      // Customers are told the information couldn't be verified, never that fraud was suspected
+      reasonCodes: [adverseReason('R07', null)]
+    };
+
+    return {
+      decision: fraudDecision,
+      fraudModel: fraudResult.model,
+      creditModel: null,
+      fraudOutputError: fraudResult.outputError,
+      creditOutputError: null,
     };
   }
   
@@ -928,12 +935,6 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
     console.log(`✅ AGENT 1: Application cleared fraud screening - proceeding to credit analysis`);
   }
 
-  // Fetch trade references
-  const tradeReferencesData = await db
-    .select()
-    .from(tradeReferences)
-    .where(eq(tradeReferences.applicationId, applicationId));
-
   console.log('🔍 AI PROCESSOR: Starting enhanced verification...');
   
   // Perform enhanced verification
@@ -941,7 +942,7 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
   const businessVerification = await verifyBusiness(
     application.legalEntityName || '', 
     application.taxEIN || '',
-    application.billToCityStateZip?.split(',')[1]?.trim().split(' ')[0]
+    application.billToState || undefined
   );
   const phoneValidation = validatePhoneNumber(application.phoneNo || '');
   const addressValidation = validateAddress(application.billToAddress || '');
@@ -954,47 +955,21 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
   };
 
   // Calculate enhanced credit score
-  const creditScore = calculateEnhancedCreditScore(application, verificationData);
+  const creditScore = calculateEnhancedCreditScore(application, verificationData, scorecard.definition);
 
   console.log('🔍 AI PROCESSOR: Credit score calculated:', creditScore.score);
 
-  // ENHANCED DETERMINISTIC DECISION LOGIC
-  let finalDecision: 'APPROVE' | 'CONDITIONAL' | 'DECLINE' | 'REVIEW';
-  let finalLimit: number;
-  let finalTerms: string;
-  let finalRiskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
-  let finalConditions: string[] = [];
-
-  // STRICTER THRESHOLDS
-  if (creditScore.score >= 750) {
-    finalDecision = 'APPROVE';
-    finalLimit = 50000;
-    finalTerms = 'Net 30';
-    finalRiskLevel = 'LOW';
-  } else if (creditScore.score >= 650) {
-    finalDecision = 'CONDITIONAL';
-    finalLimit = 25000;
-    finalTerms = 'Net 15';
-    finalRiskLevel = 'MEDIUM';
-    finalConditions = ['Provide additional trade references', 'Submit recent financial statements'];
-  } else if (creditScore.score >= 500) {
-    finalDecision = 'REVIEW';
-    finalLimit = 10000;
-    finalTerms = 'COD or Prepayment';
-    finalRiskLevel = 'HIGH';
-    finalConditions = ['Manual underwriting required', 'Additional documentation needed'];
-  } else {
-    // ANYTHING BELOW 500 IS AUTOMATIC DECLINE
-    finalDecision = 'DECLINE';
-    finalLimit = 0;
-    finalTerms = 'Cash in Advance Only';
-    finalRiskLevel = 'HIGH';
-    finalConditions = ['Credit profile does not meet minimum requirements'];
-  }
+  // System recommendation from the scorecard tier the score reaches
+  const { tiers } = scorecard.definition;
+  let finalDecision = scorecardDecision(scorecard.definition, creditScore.score);
+  let finalLimit = tiers[finalDecision].creditLimit;
+  let finalTerms = tiers[finalDecision].paymentTerms;
+  let finalRiskLevel = tiers[finalDecision].riskLevel;
+  let finalConditions = tiers[finalDecision].conditions;
 
-  console.log('🎯 SYSTEM: Initial recommendation:', finalDecision);
+  console.log(`🎯 SYSTEM: Initial recommendation (scorecard v${scorecard.version}):`, finalDecision);
 
-  // 💼 AGENT 2: CREDIT ANALYSIS AGENT (gpt-5-2025-08-07)
+  // 💼 AGENT 2: CREDIT ANALYSIS AGENT
   console.log('💼 AGENT 2: Starting detailed credit analysis...');
   
   const systemDecision = {
@@ -1009,45 +984,19 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
     application,
     verificationData,
     creditScore,
-    systemDecision
+    systemDecision,
+    scorecard
   );
   
-  // Update final decision based on Agent 2's analysis
-  finalDecision = creditAnalysisResult.finalDecision as any;
-  finalLimit = determineLimit(creditAnalysisResult.finalDecision);
-  finalTerms = determineTerms(creditAnalysisResult.finalDecision);
-  finalRiskLevel = determineFinalRiskLevel(creditAnalysisResult.finalDecision);
+  // Update final decision based on Agent 2's analysis; limit, terms and risk follow its tier
+  finalDecision = creditAnalysisResult.finalDecision;
+  finalLimit = tiers[finalDecision].creditLimit;
+  finalTerms = tiers[finalDecision].paymentTerms;
+  finalRiskLevel = tiers[finalDecision].riskLevel;
   finalConditions = creditAnalysisResult.conditions;
 
   console.log(`💼 AGENT 2: Final decision = ${finalDecision} (${creditAnalysisResult.riskAdjustment})`);
 
-  // Helper functions for Agent 2 decision mapping
-  function determineLimit(decision: string): number {
-    switch(decision) {
-      case 'APPROVE': return 50000;
-      case 'CONDITIONAL': return 25000;
-      case 'REVIEW': return 10000;
-      default: return 0;
-    }
-  }
-  
-  function determineTerms(decision: string): string {
-    switch(decision) {
-      case 'APPROVE': return 'Net 30';
-      case 'CONDITIONAL': return 'Net 15';
-      case 'REVIEW': return 'COD or Prepayment';
-      default: return 'Cash in Advance Only';
-    }
-  }
-  
-  function determineFinalRiskLevel(decision: string): 'LOW' | 'MEDIUM' | 'HIGH' {
-    switch(decision) {
-      case 'APPROVE': return 'LOW';
-      case 'CONDITIONAL': return 'MEDIUM';
-      default: return 'HIGH';
-    }
-  }
-
   // Build the final decision
   const result: CreditDecision = {
     decision: finalDecision,
@@ -1055,10 +1004,10 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
     riskLevel: finalRiskLevel,
     creditLimit: finalLimit,
     paymentTerms: finalTerms,
-    reasoning: creditAnalysisResult.reasoning || `2-Agent AI analysis completed. Decision: ${finalDecision} based on credit score of ${creditScore.score}/850.`,
+    reasoning: creditAnalysisResult.reasoning || `2-Agent AI analysis completed. Decision: ${finalDecision} based on credit score of ${creditScore.score}/${creditScore.maxScore}.`,
     conditions: finalConditions,
     additionalNotes: [
-      `🤖 2-AGENT AI ANALYSIS SYSTEM (gpt-5-2025-08-07)`,
+      `🤖 2-AGENT AI ANALYSIS SYSTEM (fraud: ${fraudResult.model ?? 'rule-based check'}, credit: ${creditAnalysisResult.model ?? 'system decision'})`,
       `Agent 1 - Fraud Detection: ${fraudResult.isFraud ? `⚠️ ${fraudResult.confidence}% confidence` : '✅ Cleared'}`,
       `Agent 2 - Credit Analysis: ${creditAnalysisResult.analysis}`,
       `Verification Summary: Business ${businessVerification.isValid ? 'valid' : 'invalid'}, Domain ${domainVerification.isValid ? 'clean' : 'flagged'}`,
@@ -1067,9 +1016,20 @@ export async function processApplicationWithAI(applicationId: number): Promise<C
     verificationSummary: `Business: ${businessVerification.status}, Domain: ${domainVerification.isValid ? 'Valid' : 'Issues'}, Phone: ${phoneValidation.type}`,
     scoreBreakdown: creditScore.breakdown,
     fraudRiskScore: fraudResult.confidence,
-    auditFlags: [...fraudResult.reasons, `2-Agent System: Score ${creditScore.score}`]
+    auditFlags: [...fraudResult.reasons, `2-Agent System: Score ${creditScore.score}`],
+    // Approvals need no adverse-action reasons
+    reasonCodes: finalDecision === 'APPROVE' ? [] : rankReasons([
+      ...creditScore.reasons,
+      ...creditAnalysisResult.reasonCodes.map(code => adverseReason(code, null)),
+    ])
   };
 
   console.log('✅ 2-AGENT SYSTEM: Analysis complete for application #' + applicationId);
-  return result;
+  return {
+    decision: result,
+    fraudModel: fraudResult.model,
+    creditModel: creditAnalysisResult.model,
+    fraudOutputError: fraudResult.outputError,
+    creditOutputError: creditAnalysisResult.outputError,
+  };
 }
\ No newline at end of file
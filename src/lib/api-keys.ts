@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { apiKeys, type ApiKey } from '@/lib/schema';
+import { desc, eq, sql } from 'drizzle-orm';
+import { API_KEY_SCOPES, type ApiKeyCreateData } from '@/lib/validation';
+
+// Partner API keys look like ack_<43 base64url chars> and are sent as
+// "Authorization: Bearer <key>". Only their SHA-256 is stored, so a lost key can't be
+// recovered - it is revoked and a new one issued.
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Key details that are safe to list (no hash or rate window bookkeeping)
+export type ApiKeySummary = Pick<ApiKey, 'id' | 'name' | 'keyPrefix' | 'scopes' | 'rateLimitPerMinute' | 'createdBy' | 'lastUsedAt' | 'revokedAt' | 'createdAt'>;
+
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; apiKey: ApiKey; rateLimit: RateLimitStatus }
+  | { ok: false; status: 401 | 403 | 429; error: string; details: string; rateLimit?: RateLimitStatus };
+
+const KEY_PREFIX = 'ack_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key, 'utf8').digest('hex');
+}
+
+function toSummary(apiKey: ApiKey): ApiKeySummary {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    scopes: apiKey.scopes,
+    rateLimitPerMinute: apiKey.rateLimitPerMinute,
+    createdBy: apiKey.createdBy,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+// Issue a key. The plaintext key is only ever returned here.
+export async function createApiKey(data: ApiKeyCreateData): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const [apiKey] = await db.insert(apiKeys).values({
+    name: data.name,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+    scopes: data.scopes,
+    rateLimitPerMinute: data.rateLimitPerMinute,
+    createdBy: data.createdBy,
+  }).returning();
+
+  console.log(`🔑 API key ${apiKey.keyPrefix}… issued to ${apiKey.name} by ${apiKey.createdBy}`);
+  return { apiKey: toSummary(apiKey), key };
+}
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const rows = await db.select().from(apiKeys).orderBy(desc(apiKeys.createdAt));
+  return rows.map(toSummary);
+}
+
+// Revoke a key; requests with it are rejected from then on. Returns null if it doesn't exist.
+export async function revokeApiKey(id: number): Promise<ApiKeySummary | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [apiKey] = await db
+    .update(apiKeys)
+    .set({ revokedAt: sql`coalesce(${apiKeys.revokedAt}, now())` })
+    .where(eq(apiKeys.id, id))
+    .returning();
+
+  if (apiKey) {
+    console.log(`🔒 API key ${apiKey.keyPrefix}… (${apiKey.name}) revoked`);
+  }
+  return apiKey ? toSummary(apiKey) : null;
+}
+
+// Count a request against the key's fixed one-minute window. A single UPDATE, so
+// concurrent requests (across serverless instances) can't both take the last slot.
+async function consumeRateLimit(apiKey: ApiKey): Promise<{ allowed: boolean; rateLimit: RateLimitStatus }> {
+  const currentMinute = sql`date_trunc('minute', now())`;
+  const [usage] = await db!
+    .update(apiKeys)
+    .set({
+      rateWindowCount: sql`CASE WHEN ${apiKeys.rateWindowStart} = ${currentMinute} THEN ${apiKeys.rateWindowCount} + 1 ELSE 1 END`,
+      rateWindowStart: currentMinute,
+      lastUsedAt: sql`now()`,
+    })
+    .where(eq(apiKeys.id, apiKey.id))
+    .returning({ count: apiKeys.rateWindowCount, windowStart: apiKeys.rateWindowStart });
+
+  const resetAt = new Date((usage.windowStart ?? new Date()).getTime() + 60 * 1000);
+  return {
+    allowed: usage.count <= apiKey.rateLimitPerMinute,
+    rateLimit: {
+      limit: apiKey.rateLimitPerMinute,
+      remaining: Math.max(0, apiKey.rateLimitPerMinute - usage.count),
+      resetAt,
+    },
+  };
+}
+
+// Check the request's bearer key, its rate limit and that it grants the scope
+export async function authenticateApiKey(request: NextRequest, scope: ApiKeyScope): Promise<ApiKeyAuthResult> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(KEY_PREFIX)) {
+    return { ok: false, status: 401, error: 'Unauthorized', details: 'Send your API key as "Authorization: Bearer <key>"' };
+  }
+
+  const [apiKey] = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.keyHash, hashApiKey(match[1])))
+    .limit(1);
+  if (!apiKey || apiKey.revokedAt) {
+    return { ok: false, status: 401, error: 'Unauthorized', details: 'API key is invalid or has been revoked' };
+  }
+
+  const { allowed, rateLimit } = await consumeRateLimit(apiKey);
+  if (!allowed) {
+    console.warn(`🔒 Rate limit exceeded for API key ${apiKey.keyPrefix}… (${apiKey.name})`);
+    return { ok: false, status: 429, error: 'Too Many Requests', details: `This key is limited to ${rateLimit.limit} requests per minute`, rateLimit };
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: 'Forbidden', details: `This API key does not have the ${scope} scope`, rateLimit };
+  }
+
+  return { ok: true, apiKey, rateLimit };
+}
+
+export function rateLimitHeaders(rateLimit: RateLimitStatus): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': rateLimit.limit.toString(),
+    'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(rateLimit.resetAt.getTime() / 1000).toString(),
+  };
+}
+
+// The response for a failed authenticateApiKey
+export function apiKeyErrorResponse(result: Extract<ApiKeyAuthResult, { ok: false }>): NextResponse {
+  const headers: Record<string, string> = result.rateLimit ? rateLimitHeaders(result.rateLimit) : {};
+  if (result.status === 401) {
+    headers['WWW-Authenticate'] = 'Bearer realm="Partner API"';
+  }
+  if (result.status === 429 && result.rateLimit) {
+    headers['Retry-After'] = Math.max(1, Math.ceil((result.rateLimit.resetAt.getTime() - Date.now()) / 1000)).toString();
+  }
+  return NextResponse.json({ error: result.error, details: result.details }, { status: result.status, headers });
+}
@@ -0,0 +1,136 @@
+import { db, type DbExecutor } from '@/lib/db';
+import { customerApplications, applicationStatusHistory } from '@/lib/schema';
+import { and, eq } from 'drizzle-orm';
+
+// Application lifecycle:
+// draft → submitted → signed → analyzed → pending_decision → approved / denied
+// Any open application can also be withdrawn by the customer or expire.
+export const APPLICATION_STATUSES = [
+  'draft',
+  'submitted',
+  'signed',
+  'analyzed',
+  'pending_decision',
+  'approved',
+  'denied',
+  'withdrawn',
+  'expired',
+] as const;
+
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+// Allowed transitions per status. The AI step runs in the background right after
+// submission, so it can finish before the customer signs: submitted → analyzed is
+// allowed and the signature is then recorded without moving the status backwards.
+// AI fraud rejections go straight from analyzed to denied.
+const ALLOWED_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  draft: ['submitted', 'withdrawn', 'expired'],
+  submitted: ['signed', 'analyzed', 'withdrawn', 'expired'],
+  signed: ['analyzed', 'withdrawn', 'expired'],
+  analyzed: ['pending_decision', 'denied', 'withdrawn', 'expired'],
+  pending_decision: ['approved', 'denied', 'withdrawn', 'expired'],
+  approved: [],
+  denied: [],
+  withdrawn: [],
+  expired: [],
+};
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly applicationId: number,
+    public readonly fromStatus: string,
+    public readonly toStatus: ApplicationStatus
+  ) {
+    super(`Application #${applicationId} cannot move from '${fromStatus}' to '${toStatus}'`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+export function isApplicationStatus(value: string): value is ApplicationStatus {
+  return (APPLICATION_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(fromStatus: string, toStatus: ApplicationStatus): boolean {
+  return isApplicationStatus(fromStatus) && ALLOWED_TRANSITIONS[fromStatus].includes(toStatus);
+}
+
+export function isTerminalStatus(status: string): boolean {
+  return isApplicationStatus(status) && ALLOWED_TRANSITIONS[status].length === 0;
+}
+
+interface StatusChangeOptions {
+  changedBy: string;
+  reason?: string;
+}
+
+// Record the status an application was created with (no transition check)
+export async function recordInitialStatus(
+  applicationId: number,
+  status: ApplicationStatus,
+  options: StatusChangeOptions,
+  executor: DbExecutor | null = db
+): Promise<void> {
+  if (!executor) {
+    throw new Error('Database connection not available');
+  }
+
+  await executor.insert(applicationStatusHistory).values({
+    applicationId,
+    fromStatus: null,
+    toStatus: status,
+    changedBy: options.changedBy,
+    reason: options.reason,
+  });
+}
+
+// Move an application to a new status, enforcing the lifecycle and writing history.
+// The update is conditional on the status we read so concurrent writers can't both win.
+export async function transitionApplicationStatus(
+  applicationId: number,
+  toStatus: ApplicationStatus,
+  options: StatusChangeOptions,
+  executor: DbExecutor | null = db
+): Promise<void> {
+  if (!executor) {
+    throw new Error('Database connection not available');
+  }
+
+  const [application] = await executor
+    .select({ status: customerApplications.status })
+    .from(customerApplications)
+    .where(eq(customerApplications.id, applicationId))
+    .limit(1);
+
+  if (!application) {
+    throw new Error('Application not found');
+  }
+
+  const fromStatus = application.status;
+  if (!canTransition(fromStatus, toStatus)) {
+    throw new InvalidStatusTransitionError(applicationId, fromStatus, toStatus);
+  }
+
+  const [updated] = await executor
+    .update(customerApplications)
+    .set({ status: toStatus, updatedAt: new Date() })
+    .where(and(
+      eq(customerApplications.id, applicationId),
+      eq(customerApplications.status, fromStatus)
+    ))
+    .returning({ id: customerApplications.id });
+
+  if (!updated) {
+    // Someone else moved the application between our read and write
+    throw new InvalidStatusTransitionError(applicationId, fromStatus, toStatus);
+  }
+
+  await executor.insert(applicationStatusHistory).values({
+    applicationId,
+    fromStatus,
+    toStatus,
+    changedBy: options.changedBy,
+    reason: options.reason,
+  });
+
+  console.log(`🔄 Application #${applicationId}: ${fromStatus} → ${toStatus} (${options.changedBy})`);
+}
@@ -32,4 +32,13 @@ if (process.env.NODE_ENV === 'production') {
 export const DATABASE_URL = process.env.DATABASE_URL;
 
 // OpenAI Configuration
-export const OPENAI_API_KEY = process.env.OPENAI_API_KEY; 
\ No newline at end of file
+export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+// Gemini Configuration
+export const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+
+// AI agent providers (see llm-providers.ts): comma-separated "provider" or "provider:model"
+// entries, tried in order until one answers, e.g. "openai,gemini:gemini-2.5-pro"
+export const FRAUD_AGENT_PROVIDERS = process.env.FRAUD_AGENT_PROVIDERS || 'openai';
+export const CREDIT_AGENT_PROVIDERS = process.env.CREDIT_AGENT_PROVIDERS || 'openai';
+export const LLM_FIXTURE_FILE = process.env.LLM_FIXTURE_FILE; // Canned responses for the 'fixture' provider
@@ -0,0 +1,144 @@
+import { db } from '@/lib/db';
+import { creditAnalyses, creditApprovals, type CreditAnalysis, type CreditApproval } from '@/lib/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import type { CreditDecision } from '@/lib/ai-processor';
+import type { AdverseActionReason } from '@/lib/reason-codes';
+
+export type AnalysisTrigger = 'submission' | 'rerun' | 'information_request';
+
+export interface CreditAnalysisRecord {
+  applicationId: number;
+  trigger: AnalysisTrigger;
+  ruleVersion: string;
+  scorecardVersion: number;
+  fraudModel: string | null;
+  creditModel: string | null;
+  // Set when an agent's answer failed schema validation even after the repair retry
+  fraudOutputError?: string | null;
+  creditOutputError?: string | null;
+  input: unknown;
+  startedAt: Date;
+  completedAt: Date;
+  // Present for completed runs
+  output?: CreditDecision;
+  // Present for failed runs
+  error?: string;
+}
+
+// Store one analysis run as the next version for its application
+export async function recordCreditAnalysis(record: CreditAnalysisRecord): Promise<CreditAnalysis | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [{ maxVersion }] = await db
+    .select({ maxVersion: sql<number>`coalesce(max(${creditAnalyses.version}), 0)` })
+    .from(creditAnalyses)
+    .where(eq(creditAnalyses.applicationId, record.applicationId));
+
+  const [analysis] = await db.insert(creditAnalyses).values({
+    applicationId: record.applicationId,
+    version: Number(maxVersion) + 1,
+    trigger: record.trigger,
+    status: record.error ? 'failed' : 'completed',
+    ruleVersion: record.ruleVersion,
+    scorecardVersion: record.scorecardVersion,
+    fraudModel: record.fraudModel,
+    creditModel: record.creditModel,
+    fraudOutputError: record.fraudOutputError ?? null,
+    creditOutputError: record.creditOutputError ?? null,
+    decision: record.output?.decision,
+    creditScore: record.output?.creditScore,
+    riskLevel: record.output?.riskLevel,
+    creditLimit: record.output?.creditLimit,
+    paymentTerms: record.output?.paymentTerms,
+    fraudRiskScore: record.output ? Math.round(record.output.fraudRiskScore) : null,
+    reasonCodes: record.output?.reasonCodes ?? null,
+    input: record.input,
+    output: record.output ?? null,
+    error: record.error,
+    startedAt: record.startedAt,
+    completedAt: record.completedAt,
+    durationMs: record.completedAt.getTime() - record.startedAt.getTime(),
+  }).returning();
+
+  console.log(`💾 Credit analysis v${analysis?.version} stored for application #${record.applicationId}`);
+  return analysis ?? null;
+}
+
+// Whether the AI recommendation matched what the approver actually decided.
+// REVIEW recommendations (and undecided applications) have nothing to compare.
+export function agreesWithApproval(analysis: CreditAnalysis, approval: CreditApproval | null): boolean | null {
+  if (!approval || !analysis.decision || approval.decision === 'PENDING') {
+    return null;
+  }
+
+  if (analysis.decision === 'APPROVE' || analysis.decision === 'CONDITIONAL') {
+    return approval.decision === 'APPROVE';
+  }
+  if (analysis.decision === 'DECLINE') {
+    return approval.decision === 'DENY';
+  }
+  return null;
+}
+
+// All analysis runs for an application (newest first) next to the final approval decision
+export async function getCreditAnalysisHistory(applicationId: number) {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const analyses = await db
+    .select()
+    .from(creditAnalyses)
+    .where(eq(creditAnalyses.applicationId, applicationId))
+    .orderBy(desc(creditAnalyses.version));
+
+  const [approval] = await db
+    .select()
+    .from(creditApprovals)
+    .where(eq(creditApprovals.applicationId, applicationId))
+    .limit(1);
+
+  return {
+    approval: approval ?? null,
+    analyses: analyses.map(analysis => ({
+      ...analysis,
+      agreesWithApproval: agreesWithApproval(analysis, approval ?? null),
+    })),
+  };
+}
+
+// Adverse-action reasons from the application's latest completed analysis, most
+// significant first. Empty when no run recorded any.
+export async function getLatestReasonCodes(applicationId: number): Promise<AdverseActionReason[]> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [latest] = await db
+    .select({ reasonCodes: creditAnalyses.reasonCodes })
+    .from(creditAnalyses)
+    .where(and(eq(creditAnalyses.applicationId, applicationId), eq(creditAnalyses.status, 'completed')))
+    .orderBy(desc(creditAnalyses.version))
+    .limit(1);
+
+  return latest?.reasonCodes ?? [];
+}
+
+// Payment terms the latest completed analysis recommended from its scorecard tier.
+// Null when no run recorded any.
+export async function getLatestPaymentTerms(applicationId: number): Promise<string | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [latest] = await db
+    .select({ paymentTerms: creditAnalyses.paymentTerms })
+    .from(creditAnalyses)
+    .where(and(eq(creditAnalyses.applicationId, applicationId), eq(creditAnalyses.status, 'completed')))
+    .orderBy(desc(creditAnalyses.version))
+    .limit(1);
+
+  return latest?.paymentTerms ?? null;
+}
@@ -0,0 +1,172 @@
+import { db, type DbExecutor } from '@/lib/db';
+import { customers, customerApplications, creditApprovals, type Customer } from '@/lib/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { blindIndex } from '@/lib/field-encryption';
+
+// How a new application relates to the customer's earlier ones
+export type ApplicationType = 'new' | 'repeat' | 'reapplication' | 'credit_limit_revision';
+
+export interface PriorApplication {
+  applicationId: number;
+  submittedAt: Date;
+  status: string;
+  requestedCreditAmount: number | null; // Whole dollars
+  decision: string | null; // 'APPROVE' / 'DENY' from credit_approvals
+  approvedAmount: number | null; // Whole dollars
+  approvedTerms: string | null;
+  decidedAt: Date | null;
+}
+
+const LEGAL_SUFFIXES = ['inc', 'incorporated', 'llc', 'corp', 'corporation', 'co', 'company', 'ltd', 'limited', 'lp', 'llp', 'pllc'];
+
+// 9-digit EIN without the dash, or null if the value isn't a usable EIN.
+export function normalizeEin(ein?: string | null): string | null {
+  const digits = (ein || '').replace(/\D/g, '');
+  return digits.length === 9 ? digits : null;
+}
+
+// Blind index of the normalized EIN - the only form in which EINs can be compared,
+// since the tax_ein column itself is encrypted
+export function einBlindIndex(ein?: string | null): string | null {
+  return blindIndex(normalizeEin(ein));
+}
+
+// Lowercase name without punctuation or trailing entity suffixes, so
+// "Acme Chemicals, Inc." and "ACME CHEMICALS LLC" match.
+// Mirrored by applications.normalize_legal_name() in 007_customers.sql.
+export function normalizeLegalName(name?: string | null): string {
+  const words = (name || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  while (words.length > 1 && LEGAL_SUFFIXES.includes(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(' ');
+}
+
+// Find the customer account for an applicant, creating one on first application.
+// EIN wins when present; a name-only account is adopted (and given the EIN) the
+// first time the same business applies with an EIN.
+export async function findOrCreateCustomer(
+  applicant: { taxEIN?: string; legalEntityName?: string },
+  executor: DbExecutor | null = db
+): Promise<Customer> {
+  if (!executor) {
+    throw new Error('Database connection not available');
+  }
+
+  const einHash = einBlindIndex(applicant.taxEIN);
+  const normalizedName = normalizeLegalName(applicant.legalEntityName);
+  const legalEntityName = applicant.legalEntityName?.trim() || '';
+
+  let [customer] = einHash
+    ? await executor.select().from(customers).where(eq(customers.einHash, einHash)).limit(1)
+    : [];
+
+  if (!customer && normalizedName) {
+    [customer] = await executor
+      .select()
+      .from(customers)
+      .where(einHash
+        ? and(eq(customers.normalizedName, normalizedName), isNull(customers.einHash))
+        : eq(customers.normalizedName, normalizedName))
+      .orderBy(desc(customers.updatedAt))
+      .limit(1);
+  }
+
+  if (customer) {
+    const [updated] = await executor
+      .update(customers)
+      .set({
+        einHash: customer.einHash ?? einHash,
+        legalEntityName: legalEntityName || customer.legalEntityName,
+        updatedAt: new Date(),
+      })
+      .where(eq(customers.id, customer.id))
+      .returning();
+    console.log(`👥 Matched existing customer #${customer.id} (${customer.einHash ? 'EIN' : 'name'})`);
+    return updated ?? customer;
+  }
+
+  const [created] = await executor
+    .insert(customers)
+    .values({ einHash, normalizedName, legalEntityName })
+    .onConflictDoNothing({ target: customers.einHash })
+    .returning();
+
+  if (created) {
+    console.log(`👥 Created customer #${created.id}`);
+    return created;
+  }
+
+  // Another submission with the same EIN created the account between our read and write
+  const [existing] = await executor.select().from(customers).where(eq(customers.einHash, einHash!)).limit(1);
+  return existing;
+}
+
+// Earlier applications for a customer with their final decisions, newest first
+export async function getPriorApplications(
+  customerId: number,
+  excludeApplicationId?: number,
+  executor: DbExecutor | null = db
+): Promise<PriorApplication[]> {
+  if (!executor) {
+    throw new Error('Database connection not available');
+  }
+
+  const rows = await executor
+    .select({
+      applicationId: customerApplications.id,
+      submittedAt: customerApplications.createdAt,
+      status: customerApplications.status,
+      requestedCreditAmount: customerApplications.requestedCreditAmount,
+      decision: creditApprovals.decision,
+      approvedAmount: creditApprovals.approvedAmount,
+      approvedTerms: creditApprovals.approvedTerms,
+      decidedAt: creditApprovals.createdAt,
+    })
+    .from(customerApplications)
+    .leftJoin(creditApprovals, eq(creditApprovals.applicationId, customerApplications.id))
+    .where(eq(customerApplications.customerId, customerId))
+    .orderBy(desc(customerApplications.createdAt));
+
+  return rows
+    .filter(row => row.applicationId !== excludeApplicationId)
+    .map(row => ({
+      ...row,
+      // credit_approvals stores cents
+      approvedAmount: row.approvedAmount != null ? Math.round(row.approvedAmount / 100) : null,
+    }));
+}
+
+// A reapplication follows a denial; a customer who was approved before is asking
+// for a credit-limit revision; anything else from a known customer is a repeat.
+export function classifyApplication(priorApplications: PriorApplication[]): ApplicationType {
+  if (priorApplications.length === 0) {
+    return 'new';
+  }
+  if (priorApplications[0].status === 'denied') {
+    return 'reapplication';
+  }
+  if (priorApplications.some(prior => prior.status === 'approved')) {
+    return 'credit_limit_revision';
+  }
+  return 'repeat';
+}
+
+// One line per prior application for the AI prompt and the approver email
+export function describePriorApplication(prior: PriorApplication): string {
+  const submitted = prior.submittedAt.toISOString().split('T')[0];
+  const requested = prior.requestedCreditAmount ? `, requested $${prior.requestedCreditAmount.toLocaleString()}` : '';
+  let outcome = prior.status.toUpperCase();
+  if (prior.decision === 'APPROVE') {
+    outcome = `APPROVED${prior.approvedAmount ? ` $${prior.approvedAmount.toLocaleString()}` : ''}${prior.approvedTerms ? ` ${prior.approvedTerms}` : ''}`;
+  } else if (prior.decision === 'DENY') {
+    outcome = 'DENIED';
+  }
+  return `#${prior.applicationId} (${submitted}${requested}): ${outcome}`;
+}
@@ -54,5 +54,10 @@ export { db };
 // Export types
 export type DbClient = typeof db;
 
+// The database or an open transaction. Helpers that write take one of these, so a
+// route can run several of them inside a single db.transaction().
+type Database = ReturnType<typeof drizzle>;
+export type DbExecutor = Database | Parameters<Parameters<Database['transaction']>[0]>[0];
+
 export * from './schema';
 export * from './schema';
\ No newline at end of file
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import { customerApplications } from '@/lib/schema';
+import { and, eq } from 'drizzle-orm';
+import { recordInitialStatus } from '@/lib/application-status';
+import { SECURITY_ENV } from '@/lib/security-config';
+import type { DraftApplicationData } from '@/lib/validation';
+
+// Save-and-resume: a draft is a customer_applications row in status 'draft' holding the
+// partial form in draft_data. The buyer returns to it through an emailed link carrying a
+// random token; only the token's SHA-256 is stored, so the link can't be rebuilt from the database.
+
+export interface SavedDraft {
+  id: number;
+  data: DraftApplicationData;
+  updatedAt: Date;
+}
+
+export function hashResumeToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+// The contact fields now take just an email address, but drafts and applications saved
+// before that hold free text ("Jane Doe - jane@acme.com"); this finds the address in either
+export const CONTACT_EMAIL_FIELDS = ['buyerNameEmail', 'accountsPayableNameEmail'] as const;
+
+export function extractEmailAddress(value?: string | null): string | null {
+  const match = (value || '').match(/[^\s<>()"',;:]+@[^\s<>()"',;:]+\.[a-z]{2,}/i);
+  return match ? match[0].toLowerCase() : null;
+}
+
+export function draftResumeUrl(draftId: number, resumeToken: string): string {
+  const url = new URL('/', SECURITY_ENV.NEXT_PUBLIC_BASE_URL);
+  url.searchParams.set('draft', String(draftId));
+  url.searchParams.set('token', resumeToken);
+  return url.toString();
+}
+
+// Columns the draft row needs before submission fills in the rest. Only the name and buyer
+// are kept outside draft_data, so staff can tell drafts apart.
+function draftColumns(data: DraftApplicationData) {
+  return {
+    legalEntityName: data.legalEntityName || '',
+    buyerNameEmail: data.buyerNameEmail || '',
+    draftData: JSON.stringify(data),
+    updatedAt: new Date(),
+  };
+}
+
+export async function createDraft(data: DraftApplicationData): Promise<{ draft: SavedDraft; resumeToken: string }> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const resumeToken = crypto.randomBytes(32).toString('base64url');
+  const [application] = await db.insert(customerApplications).values({
+    ...draftColumns(data),
+    taxEIN: '',
+    phoneNo: '',
+    billToAddress: '',
+    shipToAddress: '',
+    accountsPayableNameEmail: '',
+    termsAgreed: false,
+    status: 'draft',
+    resumeTokenHash: hashResumeToken(resumeToken),
+  }).returning();
+
+  await recordInitialStatus(application.id, 'draft', { changedBy: 'customer' });
+  console.log(`📝 Draft application #${application.id} saved`);
+
+  return { draft: { id: application.id, data, updatedAt: application.updatedAt }, resumeToken };
+}
+
+// The draft the token belongs to, or null if there is no such draft (including one that
+// has since been submitted, withdrawn or purged) or the token doesn't match
+export async function getDraft(draftId: number, resumeToken: string): Promise<SavedDraft | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [application] = await db
+    .select({
+      id: customerApplications.id,
+      draftData: customerApplications.draftData,
+      resumeTokenHash: customerApplications.resumeTokenHash,
+      updatedAt: customerApplications.updatedAt,
+    })
+    .from(customerApplications)
+    .where(and(eq(customerApplications.id, draftId), eq(customerApplications.status, 'draft')))
+    .limit(1);
+
+  if (!application?.resumeTokenHash) {
+    return null;
+  }
+
+  const expected = Buffer.from(application.resumeTokenHash, 'hex');
+  const actual = Buffer.from(hashResumeToken(resumeToken), 'hex');
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  // Older drafts resume with just the address, which the submission's email check accepts
+  const data: DraftApplicationData = application.draftData ? JSON.parse(application.draftData) : {};
+  for (const field of CONTACT_EMAIL_FIELDS) {
+    data[field] = extractEmailAddress(data[field]) ?? data[field];
+  }
+
+  return {
+    id: application.id,
+    data,
+    updatedAt: application.updatedAt,
+  };
+}
+
+// Overwrite the saved form. Returns null if the draft can't be found with this token.
+export async function updateDraft(draftId: number, resumeToken: string, data: DraftApplicationData): Promise<SavedDraft | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  if (!(await getDraft(draftId, resumeToken))) {
+    return null;
+  }
+
+  const [application] = await db
+    .update(customerApplications)
+    .set(draftColumns(data))
+    .where(and(eq(customerApplications.id, draftId), eq(customerApplications.status, 'draft')))
+    .returning({ id: customerApplications.id, updatedAt: customerApplications.updatedAt });
+
+  return application ? { id: application.id, data, updatedAt: application.updatedAt } : null;
+}
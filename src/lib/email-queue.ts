@@ -1,4 +1,5 @@
 import { kv } from '@vercel/kv';
+import { getRetentionDays } from '@/lib/retention-policy';
 
 interface QueuedEmail {
   id: string;
@@ -13,13 +14,18 @@ interface QueuedEmail {
   lastAttempt?: string;
   status: 'pending' | 'sent' | 'failed';
   applicationId?: number;
-  type: 'application_summary' | 'ai_analysis' | 'approval_notification' | 'test';
+  type: 'application_summary' | 'ai_analysis' | 'approval_notification' | 'shipping_request' | 'draft_resume' | 'information_request' | 'test';
 }
 
 const EMAIL_QUEUE_KEY = 'email_queue_fluid_v1'; // New key to avoid conflicts
 const MAX_ATTEMPTS = 3;
 const KV_TIMEOUT_MS = 5000; // Increased timeout
 
+// Sent/failed email records and queue entries are kept for the email_record retention period
+function emailRecordTtlSeconds(): number {
+  return getRetentionDays('email_record') * 24 * 60 * 60;
+}
+
 // Initialize queue on first use
 async function ensureQueueExists() {
   try {
@@ -85,7 +91,7 @@ export async function queueEmail(emailData: {
   from?: string;
   cc?: string;
   applicationId?: number;
-  type: 'application_summary' | 'ai_analysis' | 'approval_notification' | 'test';
+  type: 'application_summary' | 'ai_analysis' | 'approval_notification' | 'shipping_request' | 'draft_resume' | 'information_request' | 'test';
 }): Promise<string> {
   await ensureQueueExists();
   
@@ -201,7 +207,7 @@ export async function processEmailQueue(): Promise<{
               ...email,
               status: 'sent',
               sentAt: new Date().toISOString()
-            }, { ex: 86400 });
+            }, { ex: emailRecordTtlSeconds() });
           } catch (storeError) {
             console.warn('⚠️ Failed to store success record:', storeError);
           }
@@ -236,7 +242,7 @@ export async function processEmailQueue(): Promise<{
             console.log(`🔄 Email requeued for retry: ${email.id}`);
           } else {
             // Max attempts reached
-            await kv.set(`email_failed_${email.id}`, email, { ex: 86400 });
+            await kv.set(`email_failed_${email.id}`, email, { ex: emailRecordTtlSeconds() });
             console.log(`💀 Email failed permanently: ${email.id}`);
             failed++;
           }
@@ -295,8 +301,8 @@ export async function cleanupQueue(): Promise<void> {
     const kvReady = await isKVAvailable();
     if (!kvReady) return;
     
-    // Remove old entries from sorted set (older than 24 hours)
-    const cutoffTime = Date.now() - (24 * 60 * 60 * 1000);
+    // Remove entries older than the email_record retention period from the sorted set
+    const cutoffTime = Date.now() - emailRecordTtlSeconds() * 1000;
     await kv.zremrangebyscore(EMAIL_QUEUE_KEY, 0, cutoffTime);
     
     console.log('✅ Queue cleanup completed');
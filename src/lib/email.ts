@@ -1,5 +1,9 @@
 import { sendEmailViaGraph, isGraphConfigured, verifyGraphConfiguration } from '@/lib/microsoft-graph';
 import { queueEmail, processEmailQueue, checkKVConnection } from '@/lib/email-queue';
+import { formatAddress } from '@/lib/address';
+import type { InternationalShippingRequest } from '@/lib/schema';
+import { getRetentionDays } from '@/lib/retention-policy';
+import type { InformationRequestItem } from '@/lib/information-requests';
 
 // Quick fix - Force Direct Send
 const FORCE_DIRECT_SEND = true; // Temporary flag
@@ -33,12 +37,10 @@ interface ApplicationData {
   billToCity?: string;
   billToState?: string;
   billToZip?: string;
-  billToCityStateZip?: string; // Keep for backward compatibility
   shipToAddress?: string;
   shipToCity?: string;
   shipToState?: string;
   shipToZip?: string;
-  shipToCityStateZip?: string; // Keep for backward compatibility
   buyerNameEmail?: string;
   accountsPayableNameEmail?: string;
   wantInvoicesEmailed?: boolean;
@@ -48,7 +50,6 @@ interface ApplicationData {
   trade1City?: string;
   trade1State?: string;
   trade1Zip?: string;
-  trade1CityStateZip?: string; // Keep for backward compatibility
   trade1Attn?: string;
   trade1Email?: string;
   trade1FaxNo?: string;
@@ -58,7 +59,6 @@ interface ApplicationData {
   trade2City?: string;
   trade2State?: string;
   trade2Zip?: string;
-  trade2CityStateZip?: string; // Keep for backward compatibility
   trade2Attn?: string;
   trade2Email?: string;
   trade2FaxNo?: string;
@@ -68,11 +68,21 @@ interface ApplicationData {
   trade3City?: string;
   trade3State?: string;
   trade3Zip?: string;
-  trade3CityStateZip?: string; // Keep for backward compatibility
   trade3Attn?: string;
   trade3Email?: string;
   trade3FaxNo?: string;
   trade3Phone?: string;
+  industry?: string;
+  companyType?: string;
+  numberOfEmployees?: string;
+  yearsSinceIncorporation?: string;
+  stateIncorporated?: string;
+  companyValuation?: string;
+  businessWebsite?: string;
+  businessDescription?: string;
+  requestedCreditAmount?: number | null;
+  bankName?: string;
+  additionalPurchasers?: { name?: string; title?: string; email?: string; phone?: string }[];
   termsAgreed?: boolean;
 }
 
@@ -209,7 +219,7 @@ async function sendEmailFallback(data: EmailDataBase) {
 
 export async function sendEmail(data: EmailDataBase, options?: {
   applicationId?: number;
-  type?: 'application_summary' | 'ai_analysis' | 'approval_notification' | 'test';
+  type?: 'application_summary' | 'ai_analysis' | 'approval_notification' | 'shipping_request' | 'draft_resume' | 'information_request' | 'test';
   immediate?: boolean; // Skip queue for immediate sending
 }) {
   console.log('📧 Email Service: Starting email send process');
@@ -327,6 +337,19 @@ export async function sendApplicationSummary(applicationData: ApplicationData) {
 
   const subject = `[New Credit App] ${applicationData.legalEntityName} (ID: ${applicationData.id || 'N/A'})`;
   
+  const billingAddress = formatAddress({
+    street: applicationData.billToAddress,
+    city: applicationData.billToCity,
+    state: applicationData.billToState,
+    postalCode: applicationData.billToZip,
+  });
+  const shippingAddress = formatAddress({
+    street: applicationData.shipToAddress,
+    city: applicationData.shipToCity,
+    state: applicationData.shipToState,
+    postalCode: applicationData.shipToZip,
+  });
+
   // Simplified text body - NO AI ANALYSIS (this goes to sales team)
   const textBody = `
 A new customer credit application has been received and is being processed by our AI system.
@@ -359,7 +382,8 @@ The application details are included below for your review.
     <li><strong>Buyer Contact:</strong> ${applicationData.buyerNameEmail}</li>
     <li><strong>Tax EIN:</strong> ${applicationData.taxEIN}</li>
     <li><strong>Phone:</strong> ${applicationData.phoneNo}</li>
-    <li><strong>Billing Address:</strong> ${applicationData.billToAddress}</li>
+    <li><strong>Billing Address:</strong> ${billingAddress || 'N/A'}</li>
+    <li><strong>Shipping Address:</strong> ${shippingAddress || 'N/A'}</li>
     <li><strong>DBA:</strong> ${applicationData.dba || 'N/A'}</li>
     <li><strong>DUNS Number:</strong> ${applicationData.dunsNumber || 'N/A'}</li>
   </ul>
@@ -370,6 +394,20 @@ The application details are included below for your review.
     <li><strong>Invoice Email:</strong> ${applicationData.invoiceEmail || 'N/A'}</li>
     <li><strong>Terms Agreement:</strong> ${applicationData.termsAgreed ? 'Signed' : 'Not Signed'}</li>
   </ul>
+  <h3>Business Profile:</h3>
+  <ul>
+    <li><strong>Industry:</strong> ${applicationData.industry || 'N/A'}</li>
+    <li><strong>Company Type:</strong> ${applicationData.companyType || 'N/A'}</li>
+    <li><strong>Employees:</strong> ${applicationData.numberOfEmployees || 'N/A'}</li>
+    <li><strong>Years Since Incorporation:</strong> ${applicationData.yearsSinceIncorporation || 'N/A'}</li>
+    <li><strong>State Incorporated:</strong> ${applicationData.stateIncorporated || 'N/A'}</li>
+    <li><strong>Company Valuation:</strong> ${applicationData.companyValuation || 'N/A'}</li>
+    <li><strong>Website:</strong> ${applicationData.businessWebsite || 'N/A'}</li>
+    <li><strong>Requested Credit:</strong> ${applicationData.requestedCreditAmount ? `$${applicationData.requestedCreditAmount.toLocaleString()}` : 'N/A'}</li>
+    <li><strong>Bank Reference:</strong> ${applicationData.bankName || 'N/A'}</li>
+    <li><strong>Additional Purchasers:</strong> ${applicationData.additionalPurchasers?.filter(p => p.name).map(p => p.name).join(', ') || 'None'}</li>
+  </ul>
+  <p><strong>Business Description:</strong> ${applicationData.businessDescription || 'N/A'}</p>
 </body>
 </html>
 `;
@@ -385,4 +423,188 @@ The application details are included below for your review.
   });
 }
 
- 
\ No newline at end of file
+ 
+
+export async function sendShippingRequestNotification(shippingRequest: InternationalShippingRequest) {
+  // International shipping quotes are handled by the sales/logistics team
+  const shippingEmail = process.env.SHIPPING_EMAIL || process.env.SALES_EMAIL || 'sales@alliancechemical.com';
+
+  const customerName = `${shippingRequest.firstName} ${shippingRequest.lastName}`;
+  const subject = `[International Shipping] ${shippingRequest.company || customerName} → ${shippingRequest.country} (ID: ${shippingRequest.id})`;
+
+  const destination = [
+    shippingRequest.shippingAddress,
+    shippingRequest.addressLine2,
+    shippingRequest.city,
+    `${shippingRequest.stateProvince} ${shippingRequest.postalCode}`,
+    shippingRequest.country,
+  ].filter(Boolean).join(', ');
+  const shippingMethod = shippingRequest.shippingMethod === 'other'
+    ? shippingRequest.customShippingMethod
+    : shippingRequest.shippingMethod;
+  const purpose = shippingRequest.purposeOfShipment === 'other'
+    ? shippingRequest.customPurpose
+    : shippingRequest.purposeOfShipment;
+
+  const textBody = `
+A new international shipping request has been received and needs a quote.
+
+Request ID: ${shippingRequest.id}
+Customer: ${customerName}${shippingRequest.company ? ` (${shippingRequest.company})` : ''}
+Email: ${shippingRequest.email}
+Phone: ${shippingRequest.phone}
+Destination: ${destination}
+
+Product: ${shippingRequest.productDescription}
+Quantity: ${shippingRequest.quantity}
+Estimated Value: ${shippingRequest.estimatedValue}
+Order Request: ${shippingRequest.orderRequest}
+
+Shipping Method: ${shippingMethod}
+Urgency: ${shippingRequest.urgency}
+Tracking Required: ${shippingRequest.trackingRequired ? 'Yes' : 'No'}
+Insurance Required: ${shippingRequest.insuranceRequired ? 'Yes' : 'No'}
+
+Purpose of Shipment: ${purpose || 'N/A'}
+HS Code: ${shippingRequest.hsCode || 'N/A'}
+Country of Origin: ${shippingRequest.countryOfOrigin || 'N/A'}
+
+Special Instructions: ${shippingRequest.specialInstructions || 'None'}
+`;
+
+  const htmlBody = `
+<html>
+<body style="font-family: sans-serif; line-height: 1.5;">
+  <h1>New International Shipping Request</h1>
+  <p><strong>${customerName}</strong>${shippingRequest.company ? ` from <strong>${shippingRequest.company}</strong>` : ''} (Request #${shippingRequest.id}) needs a shipping quote to <strong>${shippingRequest.country}</strong>.</p>
+  <hr>
+  <h3>Contact:</h3>
+  <ul>
+    <li><strong>Email:</strong> ${shippingRequest.email}</li>
+    <li><strong>Phone:</strong> ${shippingRequest.phone}</li>
+    <li><strong>Destination:</strong> ${destination}</li>
+  </ul>
+  <h3>Order:</h3>
+  <ul>
+    <li><strong>Product:</strong> ${shippingRequest.productDescription}</li>
+    <li><strong>Quantity:</strong> ${shippingRequest.quantity}</li>
+    <li><strong>Estimated Value:</strong> ${shippingRequest.estimatedValue}</li>
+    <li><strong>Order Request:</strong> ${shippingRequest.orderRequest}</li>
+  </ul>
+  <h3>Shipping Preferences:</h3>
+  <ul>
+    <li><strong>Method:</strong> ${shippingMethod}</li>
+    <li><strong>Urgency:</strong> ${shippingRequest.urgency}</li>
+    <li><strong>Tracking Required:</strong> ${shippingRequest.trackingRequired ? 'Yes' : 'No'}</li>
+    <li><strong>Insurance Required:</strong> ${shippingRequest.insuranceRequired ? 'Yes' : 'No'}</li>
+  </ul>
+  <h3>Customs:</h3>
+  <ul>
+    <li><strong>Purpose of Shipment:</strong> ${purpose || 'N/A'}</li>
+    <li><strong>HS Code:</strong> ${shippingRequest.hsCode || 'N/A'}</li>
+    <li><strong>Country of Origin:</strong> ${shippingRequest.countryOfOrigin || 'N/A'}</li>
+  </ul>
+  <p><strong>Special Instructions:</strong> ${shippingRequest.specialInstructions || 'None'}</p>
+</body>
+</html>
+`;
+
+  await sendEmail({
+    to: shippingEmail,
+    subject: subject,
+    text: textBody,
+    html: htmlBody,
+  }, {
+    type: 'shipping_request'
+  });
+}
+
+export async function sendDraftResumeLink(draft: { to: string; applicationId: number; legalEntityName?: string; resumeUrl: string }) {
+  const subject = 'Finish your Alliance Chemical credit application';
+  const company = draft.legalEntityName ? ` for ${draft.legalEntityName}` : '';
+  const retentionDays = getRetentionDays('draft_application');
+
+  const textBody = `
+Your credit application${company} has been saved.
+
+Continue where you left off:
+${draft.resumeUrl}
+
+Anyone with this link can view and edit the saved application, so please don't forward it.
+Unsubmitted drafts are deleted ${retentionDays} days after they were last saved.
+`;
+
+  const htmlBody = `
+<html>
+<body style="font-family: sans-serif; line-height: 1.5;">
+  <h1>Your application has been saved</h1>
+  <p>Your credit application${company} has been saved. You can continue where you left off at any time:</p>
+  <p><a href="${draft.resumeUrl}" style="display: inline-block; padding: 10px 20px; background: #2563eb; color: #fff; text-decoration: none; border-radius: 4px;">Continue my application</a></p>
+  <p style="color: #666; font-size: 0.9em;">Anyone with this link can view and edit the saved application, so please don't forward it. Unsubmitted drafts are deleted ${retentionDays} days after they were last saved.</p>
+</body>
+</html>
+`;
+
+  await sendEmail({
+    to: draft.to,
+    subject: subject,
+    text: textBody,
+    html: htmlBody,
+  }, {
+    applicationId: draft.applicationId,
+    type: 'draft_resume'
+  });
+}
+
+export async function sendInformationRequest(request: {
+  to: string;
+  applicationId: number;
+  legalEntityName?: string;
+  message: string;
+  items: InformationRequestItem[];
+  requestUrl: string;
+}) {
+  const subject = `More information needed for your Alliance Chemical credit application (#${request.applicationId})`;
+  const company = request.legalEntityName ? ` for ${request.legalEntityName}` : '';
+  const describeItem = (item: InformationRequestItem) => `${item.label}${item.kind === 'document' ? ' (document upload)' : ''}`;
+
+  const textBody = `
+We're reviewing your credit application${company} and need a little more information.
+
+${request.message}
+
+Please provide:
+${request.items.map(item => `- ${describeItem(item)}`).join('\n')}
+
+Answer and upload your documents here:
+${request.requestUrl}
+
+This link is unique to your application, so please don't forward it.
+`;
+
+  const htmlBody = `
+<html>
+<body style="font-family: sans-serif; line-height: 1.5;">
+  <h1>More information needed</h1>
+  <p>We're reviewing your credit application${company} and need a little more information.</p>
+  <p style="white-space: pre-line;">${request.message}</p>
+  <p><strong>Please provide:</strong></p>
+  <ul>
+    ${request.items.map(item => `<li>${describeItem(item)}</li>`).join('')}
+  </ul>
+  <p><a href="${request.requestUrl}" style="display: inline-block; padding: 10px 20px; background: #2563eb; color: #fff; text-decoration: none; border-radius: 4px;">Provide the information</a></p>
+  <p style="color: #666; font-size: 0.9em;">This link is unique to your application, so please don't forward it.</p>
+</body>
+</html>
+`;
+
+  await sendEmail({
+    to: request.to,
+    subject: subject,
+    text: textBody,
+    html: htmlBody,
+  }, {
+    applicationId: request.applicationId,
+    type: 'information_request'
+  });
+}
@@ -0,0 +1,153 @@
+import { db } from '@/lib/db';
+import { customerApplications, bankReferences, customers, applicationSubmissions, webhookSubscriptions } from '@/lib/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { blindIndex, currentKeyPrefix, decryptValue } from '@/lib/field-encryption';
+import { einBlindIndex } from '@/lib/customers';
+
+// Rows whose sensitive fields are still plaintext or under an older key. Used by /api/admin/field-encryption after deploys and key rotations.
+export async function getFieldEncryptionStatus() {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const pattern = `${currentKeyPrefix()}%`;
+  const [applications] = await db.execute<{ count: number }>(sql`
+    SELECT count(*)::int AS count FROM applications.customer_applications
+    WHERE tax_ein <> '' AND tax_ein NOT LIKE ${pattern}`);
+  const [bankAccounts] = await db.execute<{ count: number }>(sql`
+    SELECT count(*)::int AS count FROM applications.bank_references
+    WHERE account_number <> '' AND account_number NOT LIKE ${pattern}`);
+  const [submissions] = await db.execute<{ count: number }>(sql`
+    SELECT count(*)::int AS count FROM applications.application_submissions
+    WHERE payload NOT LIKE ${pattern}`);
+  const [drafts] = await db.execute<{ count: number }>(sql`
+    SELECT count(*)::int AS count FROM applications.customer_applications
+    WHERE draft_data IS NOT NULL AND draft_data NOT LIKE ${pattern}`);
+  const [webhookSecrets] = await db.execute<{ count: number }>(sql`
+    SELECT count(*)::int AS count FROM applications.webhook_subscriptions
+    WHERE secret NOT LIKE ${pattern}`);
+  const [customerEins] = await db.execute<{ count: number }>(sql`
+    SELECT count(*)::int AS count FROM applications.customers
+    WHERE normalized_ein IS NOT NULL`);
+
+  return {
+    keyPrefix: currentKeyPrefix(),
+    remaining: {
+      applications: applications?.count ?? 0,
+      bankAccounts: bankAccounts?.count ?? 0,
+      submissions: submissions?.count ?? 0,
+      drafts: drafts?.count ?? 0,
+      webhookSecrets: webhookSecrets?.count ?? 0,
+      customerEins: customerEins?.count ?? 0,
+    },
+  };
+}
+
+// Encrypt (or re-encrypt under the current key) one batch of each field.
+// Reading through decryptValue handles plaintext and older keys alike; writing
+// through the encryptedText columns applies the current key.
+export async function reencryptFields(batchSize: number = 200) {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const pattern = `${currentKeyPrefix()}%`;
+  const processed = { applications: 0, bankAccounts: 0, submissions: 0, drafts: 0, webhookSecrets: 0, customerEins: 0 };
+
+  const applicationRows = await db.execute<{ id: number; tax_ein: string }>(sql`
+    SELECT id, tax_ein FROM applications.customer_applications
+    WHERE tax_ein <> '' AND tax_ein NOT LIKE ${pattern}
+    ORDER BY id LIMIT ${batchSize}`);
+  for (const row of applicationRows) {
+    const taxEIN = decryptValue(row.tax_ein);
+    await db
+      .update(customerApplications)
+      .set({ taxEIN, taxEinHash: einBlindIndex(taxEIN) })
+      .where(eq(customerApplications.id, row.id));
+    processed.applications++;
+  }
+
+  const bankRows = await db.execute<{ id: number; account_number: string }>(sql`
+    SELECT id, account_number FROM applications.bank_references
+    WHERE account_number <> '' AND account_number NOT LIKE ${pattern}
+    ORDER BY id LIMIT ${batchSize}`);
+  for (const row of bankRows) {
+    await db
+      .update(bankReferences)
+      .set({ accountNumber: decryptValue(row.account_number) })
+      .where(eq(bankReferences.id, row.id));
+    processed.bankAccounts++;
+  }
+
+  // Only the payload ciphertext changes; 011_submission_snapshots blocks every other update
+  const submissionRows = await db.execute<{ id: number; payload: string }>(sql`
+    SELECT id, payload FROM applications.application_submissions
+    WHERE payload NOT LIKE ${pattern}
+    ORDER BY id LIMIT ${batchSize}`);
+  for (const row of submissionRows) {
+    await db
+      .update(applicationSubmissions)
+      .set({ payload: decryptValue(row.payload) })
+      .where(eq(applicationSubmissions.id, row.id));
+    processed.submissions++;
+  }
+
+  // Saved drafts; updated_at is left alone so re-encryption doesn't extend their retention
+  const draftRows = await db.execute<{ id: number; draft_data: string }>(sql`
+    SELECT id, draft_data FROM applications.customer_applications
+    WHERE draft_data IS NOT NULL AND draft_data NOT LIKE ${pattern}
+    ORDER BY id LIMIT ${batchSize}`);
+  for (const row of draftRows) {
+    await db
+      .update(customerApplications)
+      .set({ draftData: decryptValue(row.draft_data) })
+      .where(eq(customerApplications.id, row.id));
+    processed.drafts++;
+  }
+
+  const webhookRows = await db.execute<{ id: number; secret: string }>(sql`
+    SELECT id, secret FROM applications.webhook_subscriptions
+    WHERE secret NOT LIKE ${pattern}
+    ORDER BY id LIMIT ${batchSize}`);
+  for (const row of webhookRows) {
+    await db
+      .update(webhookSubscriptions)
+      .set({ secret: decryptValue(row.secret) })
+      .where(eq(webhookSubscriptions.id, row.id));
+    processed.webhookSecrets++;
+  }
+
+  // customers.normalized_ein (plaintext, from 007_customers) → ein_hash
+  const customerRows = await db.execute<{ id: number; normalized_ein: string }>(sql`
+    SELECT id, normalized_ein FROM applications.customers
+    WHERE normalized_ein IS NOT NULL
+    ORDER BY id LIMIT ${batchSize}`);
+  for (const row of customerRows) {
+    const einHash = blindIndex(row.normalized_ein);
+    const [duplicate] = await db
+      .select({ id: customers.id })
+      .from(customers)
+      .where(and(eq(customers.einHash, einHash!), sql`${customers.id} <> ${row.id}`))
+      .limit(1);
+
+    // A submission after the deploy may already have created an account for this EIN;
+    // fold it into the original account
+    if (duplicate) {
+      await db
+        .update(customerApplications)
+        .set({ customerId: row.id })
+        .where(eq(customerApplications.customerId, duplicate.id));
+      await db.delete(customers).where(eq(customers.id, duplicate.id));
+      console.log(`👥 Merged duplicate customer #${duplicate.id} into #${row.id}`);
+    }
+
+    await db.execute(sql`
+      UPDATE applications.customers
+      SET ein_hash = ${einHash}, normalized_ein = NULL
+      WHERE id = ${row.id}`);
+    processed.customerEins++;
+  }
+
+  console.log('🔐 Field encryption batch complete:', processed);
+  return processed;
+}
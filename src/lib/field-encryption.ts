@@ -0,0 +1,121 @@
+// Field-level encryption for sensitive columns (EIN, bank account numbers).
+//
+// Values are stored as "enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>" (AES-256-GCM,
+// base64 parts). The key ID travels with each value so keys can be rotated: new
+// writes use the current key, older values decrypt with the previous key listed
+// under the same ID. Because every encryption uses a random IV, encrypted columns
+// can't be compared in SQL - equality lookups go through a blind index (HMAC) column.
+import crypto from 'crypto';
+import { customType } from 'drizzle-orm/pg-core';
+import { SECURITY_ENV, requireSecret } from '@/lib/security-config';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+
+// Any secret string becomes a 32-byte AES key
+function deriveKey(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+// "k1:secret,k0:older-secret" → Map of key ID → key
+function parseKeyList(value?: string): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>();
+  for (const entry of (value || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator > 0) {
+      keys.set(entry.slice(0, separator).trim(), deriveKey(entry.slice(separator + 1).trim()));
+    }
+  }
+  return keys;
+}
+
+// Throws when ENCRYPTION_KEY is not set
+function getKeyring() {
+  const currentKeyId = SECURITY_ENV.ENCRYPTION_KEY_ID;
+  const keys = parseKeyList(SECURITY_ENV.ENCRYPTION_PREVIOUS_KEYS);
+  keys.set(currentKeyId, deriveKey(requireSecret('ENCRYPTION_KEY')));
+  return { currentKeyId, keys };
+}
+
+// Prefix of values written with the current key; anything else needs (re-)encryption
+export function currentKeyPrefix(): string {
+  return `${ENCRYPTED_PREFIX}${SECURITY_ENV.ENCRYPTION_KEY_ID}:`;
+}
+
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+// Key ID a stored value was encrypted with (null for legacy plaintext)
+export function getValueKeyId(value: string): string | null {
+  return isEncryptedValue(value) ? value.slice(ENCRYPTED_PREFIX.length).split(':')[0] : null;
+}
+
+export function encryptValue(plaintext: string): string {
+  const { currentKeyId, keys } = getKeyring();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(currentKeyId)!, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return ENCRYPTED_PREFIX + [
+    currentKeyId,
+    iv.toString('base64'),
+    authTag.toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+}
+
+// Rows written before encryption was enabled hold plaintext; those are returned as-is
+// until the backfill (/api/admin/field-encryption) rewrites them.
+export function decryptValue(stored: string): string {
+  if (!isEncryptedValue(stored)) {
+    return stored;
+  }
+
+  const [keyId, iv, authTag, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split(':');
+  const key = getKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown field encryption key ID '${keyId}'`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+// Deterministic keyed hash for equality lookups on encrypted fields. Uses its own
+// key, which must NOT change when encryption keys are rotated. Throws when
+// BLIND_INDEX_KEY is not set.
+export function blindIndex(value: string | null | undefined): string | null {
+  const key = requireSecret('BLIND_INDEX_KEY');
+  if (!value) {
+    return null;
+  }
+  return crypto.createHmac('sha256', key).update(value).digest('hex');
+}
+
+// "*****6789" - for logs and stored snapshots that must not carry the full value
+export function maskValue(value: string | null | undefined, visible: number = 4): string | null {
+  if (!value) {
+    return null;
+  }
+  const digits = value.replace(/[^A-Za-z0-9]/g, '');
+  return '*'.repeat(Math.max(digits.length - visible, 0)) + digits.slice(-visible);
+}
+
+// Text column that is encrypted on write and decrypted on read
+export const encryptedText = customType<{ data: string; driverData: string }>({
+  dataType() {
+    return 'text';
+  },
+  toDriver(value: string): string {
+    return value ? encryptValue(value) : value;
+  },
+  fromDriver(value: string): string {
+    return value ? decryptValue(value) : value;
+  },
+});
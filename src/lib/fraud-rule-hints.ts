@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import hintsJson from '@/lib/fraud-rule-hints.json';
+import {
+  FRAUD_RULE_FIELDS,
+  FRAUD_RULE_FORM_FIELDS,
+  fieldValues,
+  fraudRuleMatcherSchema,
+  ruleMatches,
+  type FraudRuleInput,
+} from '@/lib/fraud-rule-matchers';
+
+// Applicant-facing hints for the application form. fraud-rule-hints.json is generated
+// from fraud-rules.json by scripts/generate-fraud-rule-hints.mjs and holds only the rules
+// that have a hint, without their IDs, weights or reasons; the full rule set stays on
+// the server (fraud-rules.ts).
+
+const fraudRuleHintSetSchema = z.object({
+  version: z.string().min(1),
+  hints: z.array(z.object({
+    fields: z.array(z.enum(FRAUD_RULE_FIELDS)).min(1),
+    matcher: fraudRuleMatcherSchema,
+    hint: z.string().min(1),
+  })),
+});
+
+const FRAUD_RULE_HINTS = fraudRuleHintSetSchema.parse(hintsJson);
+
+// Hints keyed by form field (first hint per field wins)
+export function fraudRuleHints(input: FraudRuleInput): Partial<Record<keyof FraudRuleInput, string>> {
+  const values = fieldValues(input);
+  const hints: Partial<Record<keyof FraudRuleInput, string>> = {};
+
+  for (const rule of FRAUD_RULE_HINTS.hints) {
+    if (ruleMatches(rule, values).length === 0) continue;
+
+    const formField = FRAUD_RULE_FORM_FIELDS[rule.fields[0]];
+    if (!hints[formField]) {
+      hints[formField] = rule.hint;
+    }
+  }
+  return hints;
+}
@@ -0,0 +1,179 @@
+import { z } from 'zod';
+
+// How fraud rules match application fields, shared by the server-side rule set
+// (fraud-rules.ts) and the form's hints (fraud-rule-hints.ts). This module holds no
+// rules itself and must stay free of server-only imports; the form bundles it.
+
+export const FRAUD_RULE_FIELDS = [
+  'legalEntityName',
+  'businessDescription',
+  'emailDomain',
+  'phoneDigits',
+  'einDigits',
+  'einPrefix',
+  'billToAddress',
+  'trade1Name',
+  'trade2Name',
+  'trade3Name',
+] as const;
+export type FraudRuleField = typeof FRAUD_RULE_FIELDS[number];
+
+export const fraudRuleMatcherSchema = z.discriminatedUnion('type', [
+  // Whole words or phrases, so "hell" doesn't match "Shell Chemicals"
+  z.object({ type: z.literal('keywords'), values: z.array(z.string().min(1)).min(1) }),
+  // Anywhere in the text, for fragments like keyboard runs
+  z.object({ type: z.literal('substrings'), values: z.array(z.string().min(1)).min(1) }),
+  // Case-insensitive regular expressions
+  z.object({ type: z.literal('patterns'), values: z.array(z.string().min(1)).min(1) }),
+  // The whole value is one of these
+  z.object({ type: z.literal('inList'), values: z.array(z.string().min(1)).min(1) }),
+  // A number outside every [min, max] range
+  z.object({ type: z.literal('outsideRanges'), ranges: z.array(z.tuple([z.number(), z.number()])).min(1) }),
+  // Missing or shorter than length
+  z.object({ type: z.literal('shorterThan'), length: z.number().int().positive() }),
+  // Words per distinct word above ratio, once the text reaches minLength
+  z.object({ type: z.literal('wordRepetition'), ratio: z.number().positive(), minLength: z.number().int().nonnegative().default(0) }),
+  // More than wordShare of the words are mostly consonants
+  z.object({
+    type: z.literal('gibberish'),
+    consonantRatio: z.number().min(0).max(1),
+    minWordLength: z.number().int().positive(),
+    wordShare: z.number().min(0).max(1),
+  }),
+  // Two words containing a common first or last name
+  z.object({ type: z.literal('personName'), firstNames: z.array(z.string()), lastNames: z.array(z.string()) }),
+  // Every field is empty
+  z.object({ type: z.literal('allEmpty') }),
+]);
+
+export type FraudRuleMatcher = z.infer<typeof fraudRuleMatcherSchema>;
+
+// What a rule needs to be matched: the fields it reads and how
+export interface FraudRuleMatch {
+  fields: FraudRuleField[];
+  matcher: FraudRuleMatcher;
+}
+
+// The application fields the rules read. Stored rows and form values both fit.
+export interface FraudRuleInput {
+  legalEntityName?: string | null;
+  businessDescription?: string | null;
+  buyerNameEmail?: string | null;
+  phoneNo?: string | null;
+  taxEIN?: string | null;
+  billToAddress?: string | null;
+  trade1Name?: string | null;
+  trade2Name?: string | null;
+  trade3Name?: string | null;
+}
+
+// Form field each rule field comes from, for showing hints next to the right input
+export const FRAUD_RULE_FORM_FIELDS: Record<FraudRuleField, keyof FraudRuleInput> = {
+  legalEntityName: 'legalEntityName',
+  businessDescription: 'businessDescription',
+  emailDomain: 'buyerNameEmail',
+  phoneDigits: 'phoneNo',
+  einDigits: 'taxEIN',
+  einPrefix: 'taxEIN',
+  billToAddress: 'billToAddress',
+  trade1Name: 'trade1Name',
+  trade2Name: 'trade2Name',
+  trade3Name: 'trade3Name',
+};
+
+export function fieldValues(input: FraudRuleInput): Record<FraudRuleField, string> {
+  const einDigits = (input.taxEIN || '').replace(/\D/g, '');
+  return {
+    legalEntityName: (input.legalEntityName || '').toLowerCase().trim(),
+    businessDescription: (input.businessDescription || '').toLowerCase(),
+    emailDomain: (input.buyerNameEmail || '').toLowerCase().split('@')[1] || '',
+    phoneDigits: (input.phoneNo || '').replace(/\D/g, ''),
+    einDigits,
+    einPrefix: einDigits.length === 9 ? einDigits.substring(0, 2) : '',
+    billToAddress: (input.billToAddress || '').toLowerCase(),
+    trade1Name: (input.trade1Name || '').trim(),
+    trade2Name: (input.trade2Name || '').trim(),
+    trade3Name: (input.trade3Name || '').trim(),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compile(source: string): RegExp {
+  let pattern = compiledPatterns.get(source);
+  if (!pattern) {
+    pattern = new RegExp(source, 'i');
+    compiledPatterns.set(source, pattern);
+  }
+  return pattern;
+}
+
+// The keyword as a whole word or phrase; also used for the scorecard's test indicators
+export function keywordPattern(keyword: string): RegExp {
+  return compile(`(^|[^a-z0-9])${escapeRegExp(keyword.toLowerCase())}($|[^a-z0-9])`);
+}
+
+// What matched in one field value: list entries for list matchers, the value itself otherwise
+function matchValue(matcher: FraudRuleMatcher, value: string): string[] {
+  switch (matcher.type) {
+    case 'keywords':
+      return matcher.values.filter(keyword => keywordPattern(keyword).test(value));
+    case 'substrings':
+      return matcher.values.filter(fragment => value.includes(fragment.toLowerCase()));
+    case 'patterns':
+      return matcher.values.filter(source => compile(source).test(value));
+    case 'inList':
+      return value && matcher.values.some(entry => entry.toLowerCase() === value) ? [value] : [];
+    case 'outsideRanges': {
+      if (!value) return [];
+      const number = parseInt(value, 10);
+      return matcher.ranges.some(([min, max]) => number >= min && number <= max) ? [] : [value];
+    }
+    case 'shorterThan':
+      return value.length < matcher.length ? [value] : [];
+    case 'wordRepetition': {
+      if (!value || value.length < matcher.minLength) return [];
+      const words = value.split(/\s+/);
+      return words.length / new Set(words).size > matcher.ratio ? [value] : [];
+    }
+    case 'gibberish': {
+      if (!value) return [];
+      const words = value.split(/\s+/);
+      const clusters = words.filter(word =>
+        word.length >= matcher.minWordLength &&
+        (word.match(/[^aeiou]/gi) || []).length / word.length > matcher.consonantRatio
+      );
+      return clusters.length > words.length * matcher.wordShare ? [value] : [];
+    }
+    case 'personName': {
+      const [firstName, lastName, ...rest] = value.split(' ');
+      if (!firstName || !lastName || rest.length > 0 || !/^[a-z]+ [a-z]+$/i.test(value)) return [];
+      const known = matcher.firstNames.some(name => firstName.includes(name)) ||
+        matcher.lastNames.some(name => lastName.includes(name));
+      return known ? [value] : [];
+    }
+    case 'allEmpty':
+      return [];
+  }
+}
+
+export function ruleMatches(rule: FraudRuleMatch, values: Record<FraudRuleField, string>): { match: string; value: string }[] {
+  if (rule.matcher.type === 'allEmpty') {
+    return rule.fields.every(field => !values[field]) ? [{ match: '', value: '' }] : [];
+  }
+
+  // A term found in several fields counts once
+  const found = new Map<string, string>();
+  for (const field of rule.fields) {
+    for (const match of matchValue(rule.matcher, values[field])) {
+      if (!found.has(match)) {
+        found.set(match, values[field]);
+      }
+    }
+  }
+  return Array.from(found, ([match, value]) => ({ match, value }));
+}
@@ -0,0 +1,55 @@
+import { db } from '@/lib/db';
+import { creditApprovals, fraudRuleHits } from '@/lib/schema';
+import { desc, eq, gte, sql } from 'drizzle-orm';
+import { FRAUD_RULE_SET, type FraudRuleEvaluation } from '@/lib/fraud-rules';
+
+// Log which fraud rules fired for an application's analysis
+export async function recordFraudRuleHits(applicationId: number, evaluation: FraudRuleEvaluation): Promise<void> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+  if (evaluation.hits.length === 0) {
+    return;
+  }
+
+  await db.insert(fraudRuleHits).values(evaluation.hits.map(hit => ({
+    ruleId: hit.ruleId,
+    ruleSetVersion: evaluation.ruleSetVersion,
+    applicationId,
+    matches: hit.matches,
+    points: hit.points,
+  })));
+}
+
+// Every rule in the current rule set with how often it fired, and how many of those
+// applications were approved anyway - a rule that mostly flags approved customers is
+// a false-positive candidate. Rules no longer in the set are listed after the others.
+export async function getFraudRuleStats(since?: Date) {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const rows = await db
+    .select({
+      ruleId: fraudRuleHits.ruleId,
+      hits: sql<number>`count(*)::int`,
+      applications: sql<number>`count(distinct ${fraudRuleHits.applicationId})::int`,
+      approvedApplications: sql<number>`count(distinct ${fraudRuleHits.applicationId}) filter (where ${creditApprovals.decision} = 'APPROVE')::int`,
+      deniedApplications: sql<number>`count(distinct ${fraudRuleHits.applicationId}) filter (where ${creditApprovals.decision} = 'DENY')::int`,
+      lastHitAt: sql<Date | null>`max(${fraudRuleHits.createdAt})`,
+    })
+    .from(fraudRuleHits)
+    .leftJoin(creditApprovals, eq(creditApprovals.applicationId, fraudRuleHits.applicationId))
+    .where(since ? gte(fraudRuleHits.createdAt, since) : undefined)
+    .groupBy(fraudRuleHits.ruleId)
+    .orderBy(desc(sql`count(*)`));
+
+  const statsByRule = new Map(rows.map(({ ruleId, ...stats }) => [ruleId, stats]));
+  const emptyStats = { hits: 0, applications: 0, approvedApplications: 0, deniedApplications: 0, lastHitAt: null };
+
+  return {
+    version: FRAUD_RULE_SET.version,
+    rules: FRAUD_RULE_SET.rules.map(rule => ({ ...rule, stats: statsByRule.get(rule.id) ?? emptyStats })),
+    retiredRules: rows.filter(row => !FRAUD_RULE_SET.rules.some(rule => rule.id === row.ruleId)),
+  };
+}
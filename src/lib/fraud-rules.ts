@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import ruleSetJson from '@/lib/fraud-rules.json';
+import {
+  FRAUD_RULE_FIELDS,
+  fieldValues,
+  fraudRuleMatcherSchema,
+  ruleMatches,
+  type FraudRuleInput,
+} from '@/lib/fraud-rule-matchers';
+
+// Rule-based fraud screening, run by the fraud agent before any model is asked (see
+// ai-processor.ts). The rules themselves live in fraud-rules.json: each names the fields
+// it looks at, how it matches, the points it adds per match and whether it is enabled.
+// Hits are stored per rule (see fraud-rule-stats.ts) so noisy rules can be tuned.
+// Server only: importing this from a component would ship every rule, weight and reason
+// to the browser. The form uses fraud-rule-hints.ts, generated from the hinted rules.
+
+const SEVERITIES = ['LOW', 'MEDIUM', 'HIGH'] as const;
+export type FraudSeverity = typeof SEVERITIES[number];
+
+const fraudRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Rule IDs are lowercase words joined by hyphens'),
+  description: z.string().min(1),
+  fields: z.array(z.enum(FRAUD_RULE_FIELDS)).min(1),
+  matcher: fraudRuleMatcherSchema,
+  weight: z.number().int().min(0).max(100), // Fraud points per match
+  severity: z.enum(SEVERITIES), // Lowest confidence a hit implies
+  enabled: z.boolean(),
+  // Analyst-facing; {match} is what matched, {value} the field it was found in
+  reason: z.string().min(1),
+  // Shown to applicants under the field while they fill in the form
+  hint: z.string().optional(),
+});
+
+const fraudRuleSetSchema = z.object({
+  version: z.string().min(1),
+  rules: z.array(fraudRuleSchema).refine(
+    rules => new Set(rules.map(rule => rule.id)).size === rules.length,
+    'Rule IDs must be unique'
+  ),
+});
+
+export type FraudRule = z.infer<typeof fraudRuleSchema>;
+export type FraudRuleSet = z.infer<typeof fraudRuleSetSchema>;
+
+// Parsed at load so a bad edit to fraud-rules.json fails the build, not an application
+export const FRAUD_RULE_SET: FraudRuleSet = fraudRuleSetSchema.parse(ruleSetJson);
+
+export interface FraudRuleHit {
+  ruleId: string;
+  matches: string[];
+  points: number;
+}
+
+export interface FraudRuleEvaluation {
+  ruleSetVersion: string;
+  hits: FraudRuleHit[];
+  isFake: boolean;
+  reasons: string[];
+  confidence: FraudSeverity;
+  fraudProbability: number;
+}
+
+const SEVERITY_RANK: Record<FraudSeverity, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+// Run every enabled rule. Each match adds the rule's weight; the total (capped at 100)
+// is the fraud probability, and confidence follows the score once it reaches 40.
+export function evaluateFraudRules(input: FraudRuleInput, ruleSet: FraudRuleSet = FRAUD_RULE_SET): FraudRuleEvaluation {
+  const values = fieldValues(input);
+  const hits: FraudRuleHit[] = [];
+  const reasons: string[] = [];
+  let confidence: FraudSeverity = 'LOW';
+  let fraudScore = 0;
+
+  for (const rule of ruleSet.rules) {
+    if (!rule.enabled) continue;
+
+    const matches = ruleMatches(rule, values);
+    if (matches.length === 0) continue;
+
+    for (const { match, value } of matches) {
+      reasons.push(rule.reason.replace(/\{match\}/g, match).replace(/\{value\}/g, value));
+    }
+    const points = rule.weight * matches.length;
+    hits.push({ ruleId: rule.id, matches: matches.map(({ match }) => match), points });
+    fraudScore += points;
+    if (SEVERITY_RANK[rule.severity] > SEVERITY_RANK[confidence]) {
+      confidence = rule.severity;
+    }
+  }
+
+  const fraudProbability = Math.min(fraudScore, 100);
+  if (fraudProbability >= 70) {
+    confidence = 'HIGH';
+  } else if (fraudProbability >= 40) {
+    confidence = 'MEDIUM';
+  }
+
+  return {
+    ruleSetVersion: ruleSet.version,
+    hits,
+    isFake: reasons.length > 0,
+    reasons,
+    confidence,
+    fraudProbability,
+  };
+}
@@ -0,0 +1,131 @@
+import { db, type DbExecutor } from '@/lib/db';
+import { idempotencyKeys } from '@/lib/schema';
+import { and, eq, isNull, lt } from 'drizzle-orm';
+import { canonicalJson, hashSubmissionPayload } from '@/lib/submission-snapshots';
+
+// Repeats of a request with the same Idempotency-Key within this window get the first response
+export const IDEMPOTENCY_WINDOW_HOURS = 24;
+
+// A claim still unfinished after this long belongs to a request that died (function timeout)
+// and may be taken over. Longer than any route's maxDuration in vercel.json.
+const IN_PROGRESS_TIMEOUT_MS = 2 * 60 * 1000;
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+export type IdempotencyClaim =
+  | { state: 'claimed' }
+  | { state: 'replay'; statusCode: number; responseBody: unknown }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+// Printable ASCII without spaces, up to 255 characters (UUIDs from the form fit easily)
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+function windowCutoff(): Date {
+  return new Date(Date.now() - IDEMPOTENCY_WINDOW_HOURS * 60 * 60 * 1000);
+}
+
+// Claim a key before doing the work. Only 'claimed' lets the caller proceed; it must then
+// call completeIdempotencyKey with its response, or releaseIdempotencyKey if it failed.
+export async function claimIdempotencyKey(endpoint: string, key: string, requestBody: unknown): Promise<IdempotencyClaim> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const requestHash = hashSubmissionPayload(canonicalJson(requestBody));
+  const [inserted] = await db
+    .insert(idempotencyKeys)
+    .values({ endpoint, idempotencyKey: key, requestHash })
+    .onConflictDoNothing()
+    .returning({ id: idempotencyKeys.id });
+  if (inserted) {
+    return { state: 'claimed' };
+  }
+
+  const [existing] = await db
+    .select()
+    .from(idempotencyKeys)
+    .where(and(eq(idempotencyKeys.endpoint, endpoint), eq(idempotencyKeys.idempotencyKey, key)))
+    .limit(1);
+  if (!existing) {
+    // Released between our insert and select; the client can simply retry
+    return { state: 'in_progress' };
+  }
+
+  const abandonedBefore = new Date(Date.now() - IN_PROGRESS_TIMEOUT_MS);
+  const expired = existing.createdAt < windowCutoff();
+  const abandoned = existing.statusCode === null && existing.createdAt < abandonedBefore;
+  if (expired || abandoned) {
+    // Re-checked in the update (which resets created_at), so only one concurrent request takes it over
+    const [takenOver] = await db
+      .update(idempotencyKeys)
+      .set({ requestHash, statusCode: null, responseBody: null, applicationId: null, createdAt: new Date(), completedAt: null })
+      .where(and(
+        eq(idempotencyKeys.id, existing.id),
+        expired
+          ? lt(idempotencyKeys.createdAt, windowCutoff())
+          : and(isNull(idempotencyKeys.statusCode), lt(idempotencyKeys.createdAt, abandonedBefore))
+      ))
+      .returning({ id: idempotencyKeys.id });
+    return takenOver ? { state: 'claimed' } : { state: 'in_progress' };
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return { state: 'mismatch' };
+  }
+  if (existing.statusCode === null) {
+    return { state: 'in_progress' };
+  }
+  return { state: 'replay', statusCode: existing.statusCode, responseBody: existing.responseBody };
+}
+
+export async function completeIdempotencyKey(
+  endpoint: string,
+  key: string,
+  response: { statusCode: number; body: unknown; applicationId?: number },
+  executor: DbExecutor | null = db
+): Promise<void> {
+  if (!executor) {
+    throw new Error('Database connection not available');
+  }
+
+  await executor
+    .update(idempotencyKeys)
+    .set({
+      statusCode: response.statusCode,
+      responseBody: response.body,
+      applicationId: response.applicationId,
+      completedAt: new Date(),
+    })
+    .where(and(eq(idempotencyKeys.endpoint, endpoint), eq(idempotencyKeys.idempotencyKey, key)));
+}
+
+// Give the key back after a failed request, so a retry runs again instead of replaying the error
+export async function releaseIdempotencyKey(endpoint: string, key: string): Promise<void> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  await db
+    .delete(idempotencyKeys)
+    .where(and(
+      eq(idempotencyKeys.endpoint, endpoint),
+      eq(idempotencyKeys.idempotencyKey, key),
+      isNull(idempotencyKeys.statusCode)
+    ));
+}
+
+// Keys past the window are never replayed again; the retention job removes them
+export async function purgeExpiredIdempotencyKeys(): Promise<number> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const deleted = await db
+    .delete(idempotencyKeys)
+    .where(lt(idempotencyKeys.createdAt, windowCutoff()))
+    .returning({ id: idempotencyKeys.id });
+  return deleted.length;
+}
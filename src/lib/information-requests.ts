@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import { customerApplications, informationRequests, vendorForms, type InformationRequest } from '@/lib/schema';
+import { and, asc, desc, eq, isNotNull } from 'drizzle-orm';
+import { canTransition, isTerminalStatus, transitionApplicationStatus } from '@/lib/application-status';
+import { extractEmailAddress } from '@/lib/drafts';
+import { sendInformationRequest } from '@/lib/email';
+import { getPriorApplications } from '@/lib/customers';
+import { getSubmissionSnapshot } from '@/lib/submission-snapshots';
+import { emitApplicationEvent } from '@/lib/webhooks';
+import { SECURITY_ENV } from '@/lib/security-config';
+import type {
+  INFORMATION_REQUEST_ITEM_KINDS,
+  InformationRequestCreateData,
+  InformationRequestResponseData,
+  ValidationErrorDetail,
+} from '@/lib/validation';
+
+// Requests for more information: staff list the documents and answers they need, the
+// buyer gets an emailed link, and uploads made through it are stored with the
+// application's other documents (vendor_forms, linked by information_request_id).
+// Once the customer responds, the application is analyzed again with the new material.
+
+export interface InformationRequestItem {
+  label: string;
+  kind: typeof INFORMATION_REQUEST_ITEM_KINDS[number];
+}
+
+export interface InformationRequestAnswer {
+  itemIndex: number;
+  answer: string;
+}
+
+// What the customer and the AI agents see of a request
+export interface InformationRequestView {
+  id: number;
+  applicationId: number;
+  legalEntityName: string;
+  items: InformationRequestItem[];
+  message: string;
+  status: string;
+  sentTo: string;
+  requestedBy: string;
+  answers: InformationRequestAnswer[];
+  responseMessage: string | null;
+  documents: { id: number; fileName: string; fileSize: number; createdAt: Date }[];
+  createdAt: Date;
+  fulfilledAt: Date | null;
+}
+
+// Thrown when the request can't be created or answered in its current state
+export class InformationRequestConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InformationRequestConflictError';
+  }
+}
+
+// Thrown when a response leaves requested items unanswered
+export class IncompleteInformationResponseError extends Error {
+  constructor(public readonly details: ValidationErrorDetail[]) {
+    super('The response does not cover every requested item');
+    this.name = 'IncompleteInformationResponseError';
+  }
+}
+
+function hashRequestToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+export function informationRequestUrl(requestId: number, token: string): string {
+  const url = new URL('/information-request', SECURITY_ENV.NEXT_PUBLIC_BASE_URL);
+  url.searchParams.set('request', String(requestId));
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+async function loadView(request: InformationRequest): Promise<InformationRequestView> {
+  const [[application], documents] = await Promise.all([
+    db!
+      .select({ legalEntityName: customerApplications.legalEntityName })
+      .from(customerApplications)
+      .where(eq(customerApplications.id, request.applicationId))
+      .limit(1),
+    db!
+      .select({ id: vendorForms.id, fileName: vendorForms.fileName, fileSize: vendorForms.fileSize, createdAt: vendorForms.createdAt })
+      .from(vendorForms)
+      .where(eq(vendorForms.informationRequestId, request.id))
+      .orderBy(asc(vendorForms.createdAt)),
+  ]);
+
+  return {
+    id: request.id,
+    applicationId: request.applicationId,
+    legalEntityName: application?.legalEntityName ?? '',
+    items: request.items,
+    message: request.message,
+    status: request.status,
+    sentTo: request.sentTo,
+    requestedBy: request.requestedBy,
+    answers: request.answers ?? [],
+    responseMessage: request.responseMessage,
+    documents,
+    createdAt: request.createdAt,
+    fulfilledAt: request.fulfilledAt,
+  };
+}
+
+// Ask the buyer on the application for more information. Returns null if the
+// application doesn't exist.
+export async function createInformationRequest(data: InformationRequestCreateData): Promise<InformationRequestView | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [application] = await db
+    .select({
+      id: customerApplications.id,
+      status: customerApplications.status,
+      legalEntityName: customerApplications.legalEntityName,
+      buyerNameEmail: customerApplications.buyerNameEmail,
+    })
+    .from(customerApplications)
+    .where(eq(customerApplications.id, data.applicationId))
+    .limit(1);
+
+  if (!application) {
+    return null;
+  }
+  if (application.status === 'draft' || isTerminalStatus(application.status)) {
+    throw new InformationRequestConflictError(`Application #${application.id} is ${application.status}; information can only be requested while it is being reviewed`);
+  }
+
+  const sentTo = extractEmailAddress(application.buyerNameEmail);
+  if (!sentTo) {
+    throw new InformationRequestConflictError(`Application #${application.id} has no buyer email address to send the request to`);
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const [request] = await db.insert(informationRequests).values({
+    applicationId: application.id,
+    items: data.items,
+    message: data.message,
+    sentTo,
+    tokenHash: hashRequestToken(token),
+    requestedBy: data.requestedBy,
+  }).returning();
+
+  await sendInformationRequest({
+    to: sentTo,
+    applicationId: application.id,
+    legalEntityName: application.legalEntityName,
+    message: data.message,
+    items: data.items,
+    requestUrl: informationRequestUrl(request.id, token),
+  });
+
+  console.log(`📨 Information request #${request.id} for application #${application.id} sent to ${sentTo} by ${data.requestedBy}`);
+  return loadView(request);
+}
+
+// The request behind a customer link, or null if it doesn't exist or the token is wrong
+export async function getInformationRequestByToken(requestId: number, token: string): Promise<InformationRequest | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [request] = await db
+    .select()
+    .from(informationRequests)
+    .where(eq(informationRequests.id, requestId))
+    .limit(1);
+
+  if (!request) {
+    return null;
+  }
+
+  const expected = Buffer.from(request.tokenHash, 'hex');
+  const actual = Buffer.from(hashRequestToken(token), 'hex');
+  return crypto.timingSafeEqual(expected, actual) ? request : null;
+}
+
+export async function getInformationRequestView(requestId: number, token: string): Promise<InformationRequestView | null> {
+  const request = await getInformationRequestByToken(requestId, token);
+  return request ? loadView(request) : null;
+}
+
+export async function listInformationRequests(applicationId: number): Promise<InformationRequestView[]> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const requests = await db
+    .select()
+    .from(informationRequests)
+    .where(eq(informationRequests.applicationId, applicationId))
+    .orderBy(desc(informationRequests.createdAt));
+  return Promise.all(requests.map(loadView));
+}
+
+// Withdraw an open request; its link stops accepting responses. Returns null if the
+// request doesn't exist.
+export async function cancelInformationRequest(requestId: number): Promise<InformationRequestView | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [request] = await db
+    .select()
+    .from(informationRequests)
+    .where(eq(informationRequests.id, requestId))
+    .limit(1);
+  if (!request) {
+    return null;
+  }
+  if (request.status !== 'open') {
+    throw new InformationRequestConflictError(`Information request #${requestId} is already ${request.status}`);
+  }
+
+  const [cancelled] = await db
+    .update(informationRequests)
+    .set({ status: 'cancelled', cancelledAt: new Date() })
+    .where(and(eq(informationRequests.id, requestId), eq(informationRequests.status, 'open')))
+    .returning();
+  if (!cancelled) {
+    throw new InformationRequestConflictError(`Information request #${requestId} was answered or cancelled meanwhile`);
+  }
+
+  console.log(`📨 Information request #${requestId} cancelled`);
+  return loadView(cancelled);
+}
+
+// Record the customer's response. Every 'answer' item needs an answer and, if any
+// documents were requested, at least one file must have been uploaded through the link
+// first. Returns null if the request doesn't exist or the token is wrong.
+export async function respondToInformationRequest(data: InformationRequestResponseData): Promise<InformationRequestView | null> {
+  const request = await getInformationRequestByToken(data.requestId, data.token);
+  if (!request) {
+    return null;
+  }
+  if (request.status !== 'open') {
+    throw new InformationRequestConflictError(`This request has already been ${request.status === 'fulfilled' ? 'answered' : 'withdrawn'}`);
+  }
+
+  const details: ValidationErrorDetail[] = [];
+  data.answers.forEach((answer, index) => {
+    if (request.items[answer.itemIndex]?.kind !== 'answer') {
+      details.push({ field: `answers.${index}.itemIndex`, code: 'invalid_choice', message: 'This item does not take a written answer' });
+    }
+  });
+  request.items.forEach((item, itemIndex) => {
+    if (item.kind === 'answer' && !data.answers.some(answer => answer.itemIndex === itemIndex)) {
+      details.push({ field: 'answers', code: 'required', message: `Answer "${item.label}"` });
+    }
+  });
+
+  const view = await loadView(request);
+  if (request.items.some(item => item.kind === 'document') && view.documents.length === 0) {
+    details.push({ field: 'documents', code: 'required', message: 'Upload the requested documents before submitting' });
+  }
+  if (details.length > 0) {
+    throw new IncompleteInformationResponseError(details);
+  }
+
+  const [fulfilled] = await db!
+    .update(informationRequests)
+    .set({
+      status: 'fulfilled',
+      answers: data.answers,
+      responseMessage: data.message || null,
+      fulfilledAt: new Date(),
+    })
+    .where(and(eq(informationRequests.id, request.id), eq(informationRequests.status, 'open')))
+    .returning();
+  if (!fulfilled) {
+    throw new InformationRequestConflictError('This request has already been answered or withdrawn');
+  }
+
+  console.log(`📨 Information request #${request.id} answered for application #${request.applicationId}`);
+  return { ...view, status: fulfilled.status, answers: data.answers, responseMessage: fulfilled.responseMessage, fulfilledAt: fulfilled.fulfilledAt };
+}
+
+// Everything customers have sent in answer to requests on an application, oldest first
+export async function getFulfilledInformationRequests(applicationId: number): Promise<InformationRequestView[]> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const requests = await db
+    .select()
+    .from(informationRequests)
+    .where(and(eq(informationRequests.applicationId, applicationId), isNotNull(informationRequests.fulfilledAt)))
+    .orderBy(asc(informationRequests.fulfilledAt));
+  return Promise.all(requests.map(loadView));
+}
+
+// One line per requested item, for the analysis prompt and the approver report
+export function describeInformationResponse(request: InformationRequestView): string[] {
+  return request.items.map((item, itemIndex) => {
+    if (item.kind === 'document') {
+      const files = request.documents.map(document => document.fileName).join(', ');
+      return `${item.label}: ${files ? `uploaded ${files}` : 'no file uploaded'}`;
+    }
+    const answer = request.answers.find(candidate => candidate.itemIndex === itemIndex);
+    return `${item.label}: ${answer ? answer.answer : 'not answered'}`;
+  });
+}
+
+// Analyze the application again with the customer's response and send the approver a
+// fresh report. An application still waiting on its first analysis moves on to
+// pending_decision like a new submission would. Never throws.
+export async function reanalyzeAfterInformationRequest(request: InformationRequestView): Promise<void> {
+  const applicationId = request.applicationId;
+  try {
+    const { processApplicationWithAI, sendAIAnalysisReport, isAIFraudRejection } = await import('@/lib/ai-processor');
+    const aiDecision = await processApplicationWithAI(applicationId, { trigger: 'information_request' });
+    console.log(`✅ Re-analysis after information request #${request.id} completed: ${aiDecision.decision}`);
+
+    const [application] = await db!
+      .select({
+        status: customerApplications.status,
+        customerId: customerApplications.customerId,
+        applicationType: customerApplications.applicationType,
+      })
+      .from(customerApplications)
+      .where(eq(customerApplications.id, applicationId))
+      .limit(1);
+    if (!application) {
+      throw new Error('Application not found');
+    }
+
+    if (canTransition(application.status, 'analyzed')) {
+      await transitionApplicationStatus(applicationId, 'analyzed', {
+        changedBy: 'ai-processor',
+        reason: `AI decision after information request #${request.id}: ${aiDecision.decision}`,
+      });
+    }
+    await emitApplicationEvent('application.analyzed', applicationId, {
+      aiRecommendation: aiDecision.decision,
+      informationRequestId: request.id,
+    });
+
+    const [snapshot, priorApplications, informationResponses] = await Promise.all([
+      getSubmissionSnapshot(applicationId),
+      application.customerId ? getPriorApplications(application.customerId, applicationId) : Promise.resolve([]),
+      getFulfilledInformationRequests(applicationId),
+    ]);
+    await sendAIAnalysisReport({
+      ...snapshot?.payload,
+      id: applicationId,
+      legalEntityName: request.legalEntityName,
+      applicationType: application.applicationType,
+      priorApplications,
+      informationResponses,
+    }, aiDecision);
+
+    // Same outcome as the first analysis: fraud rejections are final, everything else waits on Andre
+    if (isAIFraudRejection(aiDecision) && canTransition(application.status, 'denied')) {
+      await transitionApplicationStatus(applicationId, 'denied', {
+        changedBy: 'ai-processor',
+        reason: `Fraud rejection (${aiDecision.fraudRiskScore}% fraud risk)`,
+      });
+      await emitApplicationEvent('application.denied', applicationId, { decidedBy: 'ai-processor' });
+    } else if (canTransition(application.status, 'analyzed')) {
+      await transitionApplicationStatus(applicationId, 'pending_decision', {
+        changedBy: 'system',
+        reason: 'AI analysis report sent to approver',
+      });
+    }
+  } catch (error) {
+    console.error(`❌ Re-analysis after information request #${request.id} failed:`, error);
+  }
+}
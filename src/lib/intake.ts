@@ -0,0 +1,343 @@
+import { db, type DbExecutor } from '@/lib/db';
+import { customerApplications, tradeReferences, bankReferences, authorizedPurchasers, type CustomerApplication } from '@/lib/schema';
+import { eq } from 'drizzle-orm';
+import { sendApplicationSummary } from '@/lib/email';
+import { recordInitialStatus, transitionApplicationStatus } from '@/lib/application-status';
+import { normalizeAddress } from '@/lib/address';
+import { findOrCreateCustomer, getPriorApplications, classifyApplication, einBlindIndex, type ApplicationType, type PriorApplication } from '@/lib/customers';
+import { recordSubmissionSnapshot } from '@/lib/submission-snapshots';
+import type { SavedDraft } from '@/lib/drafts';
+import type { CustomerApplicationData } from '@/lib/validation';
+import { emitApplicationEvent } from '@/lib/webhooks';
+
+// Application intake shared by the web form (/api/applications) and the partner API
+// (/api/v1/applications). The data has already passed customerApplicationSchema.
+
+export interface IntakeContext {
+  ipAddress: string;
+  userAgent: string;
+  changedBy: string; // Recorded in the status history: 'customer' or 'api-key:<prefix>'
+  draft?: SavedDraft | null; // Promote this draft instead of creating a new application
+  apiKeyId?: number;
+  // Runs inside the intake transaction, e.g. to store the response for Idempotency-Key replays
+  beforeCommit?: (tx: DbExecutor, result: IntakeResult) => Promise<void>;
+}
+
+export interface IntakeResult {
+  application: CustomerApplication;
+  applicationType: ApplicationType;
+  priorApplications: PriorApplication[];
+  submissionHash: string;
+}
+
+// The form posts yes/no radio answers as 'true'/'false' strings; unanswered stays null
+function parseYesNo(value?: string): boolean | null {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return null;
+}
+
+// The 201 body returned for a new application
+export function submissionResponseBody(result: IntakeResult) {
+  const { application } = result;
+  return {
+    success: true,
+    message: 'Application submitted successfully',
+    application: {
+      id: application.id,
+      legalEntityName: application.legalEntityName,
+      status: application.status,
+      customerId: application.customerId,
+      applicationType: application.applicationType,
+      submissionHash: result.submissionHash,
+      createdAt: application.createdAt,
+    },
+  };
+}
+
+// The application fields intake stores. Legacy imports (legacy-import.ts) go through the same
+// mapping but may not have a requested credit amount.
+export type ApplicationFields = Omit<CustomerApplicationData, 'requestedCreditAmount'> & {
+  requestedCreditAmount?: number | null;
+};
+
+// customer_applications columns for the submitted fields, with both addresses normalized
+export function applicationColumns(data: ApplicationFields) {
+  const billTo = normalizeAddress({
+    street: data.billToAddress,
+    city: data.billToCity,
+    state: data.billToState,
+    postalCode: data.billToZip,
+  });
+  const shipTo = normalizeAddress({
+    street: data.shipToAddress,
+    city: data.shipToCity,
+    state: data.shipToState,
+    postalCode: data.shipToZip,
+  });
+
+  return {
+    legalEntityName: data.legalEntityName || '',
+    dba: data.dba,
+    taxEIN: data.taxEIN || '',
+    taxEinHash: einBlindIndex(data.taxEIN),
+    dunsNumber: data.dunsNumber,
+    phoneNo: data.phoneNo || '',
+    billToAddress: billTo.street || '',
+    billToCity: billTo.city,
+    billToState: billTo.state,
+    billToPostalCode: billTo.postalCode,
+    billToCountry: billTo.country,
+    shipToAddress: shipTo.street || '',
+    shipToCity: shipTo.city,
+    shipToState: shipTo.state,
+    shipToPostalCode: shipTo.postalCode,
+    shipToCountry: shipTo.country,
+    buyerNameEmail: data.buyerNameEmail || '',
+    accountsPayableNameEmail: data.accountsPayableNameEmail || '',
+    wantInvoicesEmailed: data.wantInvoicesEmailed,
+    invoiceEmail: data.invoiceEmail,
+    industry: data.industry,
+    companyType: data.companyType,
+    numberOfEmployees: data.numberOfEmployees,
+    yearsSinceIncorporation: data.yearsSinceIncorporation,
+    stateIncorporated: data.stateIncorporated,
+    companyValuation: data.companyValuation,
+    businessWebsite: data.businessWebsite,
+    businessDescription: data.businessDescription,
+    requestedCreditAmount: data.requestedCreditAmount != null ? Math.round(data.requestedCreditAmount) : null,
+    isTaxExempt: parseYesNo(data.isTaxExempt),
+    usesPaymentPortal: parseYesNo(data.usesPaymentPortal),
+    referenceUploadMethod: data.referenceUploadMethod,
+    termsAgreed: data.termsAgreed,
+  };
+}
+
+// Store the trade and bank references and additional purchasers given with an application
+export async function recordReferences(applicationId: number, data: ApplicationFields, tx: DbExecutor): Promise<void> {
+  // Insert trade references if provided
+  const tradeReferencesToInsert = [];
+
+  if (data.trade1Name) {
+    const trade1Address = normalizeAddress({
+      street: data.trade1Address,
+      city: data.trade1City,
+      state: data.trade1State,
+      postalCode: data.trade1Zip,
+    });
+    tradeReferencesToInsert.push({
+      applicationId,
+      name: data.trade1Name,
+      faxNo: data.trade1FaxNo,
+      address: trade1Address.street,
+      city: trade1Address.city,
+      state: trade1Address.state,
+      postalCode: trade1Address.postalCode,
+      country: trade1Address.country,
+      email: data.trade1Email,
+      attn: data.trade1Attn,
+      phone: data.trade1Phone,
+    });
+  }
+
+  if (data.trade2Name) {
+    const trade2Address = normalizeAddress({
+      street: data.trade2Address,
+      city: data.trade2City,
+      state: data.trade2State,
+      postalCode: data.trade2Zip,
+    });
+    tradeReferencesToInsert.push({
+      applicationId,
+      name: data.trade2Name,
+      faxNo: data.trade2FaxNo,
+      address: trade2Address.street,
+      city: trade2Address.city,
+      state: trade2Address.state,
+      postalCode: trade2Address.postalCode,
+      country: trade2Address.country,
+      email: data.trade2Email,
+      attn: data.trade2Attn,
+      phone: data.trade2Phone,
+    });
+  }
+
+  if (data.trade3Name) {
+    const trade3Address = normalizeAddress({
+      street: data.trade3Address,
+      city: data.trade3City,
+      state: data.trade3State,
+      postalCode: data.trade3Zip,
+    });
+    tradeReferencesToInsert.push({
+      applicationId,
+      name: data.trade3Name,
+      faxNo: data.trade3FaxNo,
+      address: trade3Address.street,
+      city: trade3Address.city,
+      state: trade3Address.state,
+      postalCode: trade3Address.postalCode,
+      country: trade3Address.country,
+      email: data.trade3Email,
+      attn: data.trade3Attn,
+      phone: data.trade3Phone,
+    });
+  }
+
+  // Insert all trade references at once if any exist
+  if (tradeReferencesToInsert.length > 0) {
+    console.log(`🔍 Inserting ${tradeReferencesToInsert.length} trade references...`);
+    await tx.insert(tradeReferences).values(tradeReferencesToInsert);
+    console.log('✅ Trade references inserted successfully');
+  } else {
+    console.log('ℹ️ No trade references to insert');
+  }
+
+  // Insert bank reference if provided
+  if (data.bankName) {
+    console.log('🔍 Inserting bank reference...');
+    await tx.insert(bankReferences).values({
+      applicationId,
+      bankName: data.bankName,
+      accountNumber: data.bankAccountNumber,
+      contactName: data.bankContactName,
+      contactPhone: data.bankContactPhone,
+      contactEmail: data.bankContactEmail,
+    });
+    console.log('✅ Bank reference inserted successfully');
+  }
+
+  // Insert additional authorized purchasers, skipping blank rows
+  const purchasersToInsert = (data.additionalPurchasers || [])
+    .filter(purchaser => purchaser.name && purchaser.name.trim().length > 0)
+    .map(purchaser => ({
+      applicationId,
+      name: purchaser.name!.trim(),
+      title: purchaser.title,
+      email: purchaser.email,
+      phone: purchaser.phone,
+    }));
+
+  if (purchasersToInsert.length > 0) {
+    console.log(`🔍 Inserting ${purchasersToInsert.length} additional purchasers...`);
+    await tx.insert(authorizedPurchasers).values(purchasersToInsert);
+    console.log('✅ Additional purchasers inserted successfully');
+  }
+}
+
+// Record a submitted application with its customer link, status history, submission
+// snapshot, references and purchasers
+export async function recordApplication(data: CustomerApplicationData, context: IntakeContext): Promise<IntakeResult> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const draft = context.draft;
+
+  // The application and everything recorded with it commit together; nothing is left
+  // behind if a later insert fails
+  return db.transaction(async (tx) => {
+    // Attach the submission to the customer's account so earlier decisions follow it
+    const customer = await findOrCreateCustomer({
+      taxEIN: data.taxEIN,
+      legalEntityName: data.legalEntityName,
+    }, tx);
+    const priorApplications = await getPriorApplications(customer.id, undefined, tx);
+    const applicationType = classifyApplication(priorApplications);
+
+    const applicationValues = {
+      customerId: customer.id,
+      applicationType,
+      ...applicationColumns(data),
+      apiKeyId: context.apiKeyId,
+    };
+
+    let application: CustomerApplication;
+    if (draft) {
+      // The status moves first: its conditional update makes a double submit of the same draft fail
+      await transitionApplicationStatus(draft.id, 'submitted', {
+        changedBy: context.changedBy,
+        reason: 'Draft submitted',
+      }, tx);
+      [application] = await tx
+        .update(customerApplications)
+        .set({ ...applicationValues, draftData: null, resumeTokenHash: null, updatedAt: new Date() })
+        .where(eq(customerApplications.id, draft.id))
+        .returning();
+      if (!application) {
+        throw new Error('Failed to update draft application record');
+      }
+    } else {
+      [application] = await tx.insert(customerApplications).values({
+        ...applicationValues,
+        status: 'submitted',
+      }).returning();
+      if (!application) {
+        throw new Error('Failed to create application record');
+      }
+      await recordInitialStatus(application.id, 'submitted', { changedBy: context.changedBy }, tx);
+    }
+
+    console.log('✅ Application inserted successfully:', {
+      id: application.id,
+      legalEntityName: application.legalEntityName,
+      customerId: application.customerId,
+      applicationType: application.applicationType,
+      createdAt: application.createdAt
+    });
+
+    // Keep exactly what the customer sent, before any normalization, for disputes and collections
+    const submission = await recordSubmissionSnapshot({
+      applicationId: application.id,
+      payload: data,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }, tx);
+
+    await recordReferences(application.id, data, tx);
+
+    const result: IntakeResult = { application, applicationType, priorApplications, submissionHash: submission.payloadHash };
+    if (context.beforeCommit) {
+      await context.beforeCommit(tx, result);
+    }
+    return result;
+  });
+}
+
+// Work that runs after the intake commits (pass it to waitUntil): the summary email, the
+// application.submitted webhook, and AI analysis moving the application to analyzed, then
+// pending_decision or denied. Failures are logged, never thrown.
+export async function processSubmittedApplication(data: CustomerApplicationData, result: IntakeResult): Promise<void> {
+  const { application, applicationType, priorApplications } = result;
+
+  await Promise.all([
+    // Send application summary email
+    sendApplicationSummary({
+      id: application.id,
+      ...data,
+    }).catch(error => {
+      console.error('❌ Failed to send application summary:', error);
+    }),
+
+    // Notify webhook subscribers
+    emitApplicationEvent('application.submitted', application.id),
+
+    // Process with AI
+    import('@/lib/ai-processor').then(({ processApplicationWithAI, completeAnalysisReview }) =>
+      processApplicationWithAI(application.id)
+        .then(async aiDecision => {
+          console.log('✅ AI processing completed:', aiDecision.decision);
+          await completeAnalysisReview(application.id, aiDecision, {
+            id: application.id,
+            ...data,
+            applicationType,
+            priorApplications,
+          }, `AI decision: ${aiDecision.decision}`);
+        })
+    ).catch(error => {
+      // The application stays where it got to; an admin re-run (POST /api/admin/credit-analyses)
+      // picks up from there and sends it to the approver
+      console.error(`❌ AI processing failed for application #${application.id}:`, error);
+    })
+  ]);
+}
@@ -0,0 +1,86 @@
+import { db } from '@/lib/db';
+import { internationalShippingRequests, type InternationalShippingRequest } from '@/lib/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { SHIPPING_REQUEST_STATUSES } from '@/lib/validation';
+
+export type ShippingRequestStatus = typeof SHIPPING_REQUEST_STATUSES[number];
+
+// pending → quoted → shipped. A request can also ship without a separate quote
+// (e.g. pre-arranged freight), but never moves backwards.
+const ALLOWED_TRANSITIONS: Record<ShippingRequestStatus, readonly ShippingRequestStatus[]> = {
+  pending: ['quoted', 'shipped'],
+  quoted: ['shipped'],
+  shipped: [],
+};
+
+export class InvalidShippingStatusError extends Error {
+  constructor(
+    public readonly requestId: number,
+    public readonly fromStatus: string,
+    public readonly toStatus: ShippingRequestStatus
+  ) {
+    super(`Shipping request #${requestId} cannot move from '${fromStatus}' to '${toStatus}'`);
+    this.name = 'InvalidShippingStatusError';
+  }
+}
+
+export function canTransitionShippingRequest(fromStatus: string, toStatus: ShippingRequestStatus): boolean {
+  return (SHIPPING_REQUEST_STATUSES as readonly string[]).includes(fromStatus)
+    && ALLOWED_TRANSITIONS[fromStatus as ShippingRequestStatus].includes(toStatus);
+}
+
+// Move a shipping request to a new status. Returns null if the request doesn't exist.
+export async function updateShippingRequestStatus(
+  requestId: number,
+  toStatus: ShippingRequestStatus
+): Promise<InternationalShippingRequest | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [shippingRequest] = await db
+    .select()
+    .from(internationalShippingRequests)
+    .where(eq(internationalShippingRequests.id, requestId))
+    .limit(1);
+
+  if (!shippingRequest) {
+    return null;
+  }
+
+  const fromStatus = shippingRequest.status;
+  if (!canTransitionShippingRequest(fromStatus, toStatus)) {
+    throw new InvalidShippingStatusError(requestId, fromStatus, toStatus);
+  }
+
+  const [updated] = await db
+    .update(internationalShippingRequests)
+    .set({ status: toStatus, updatedAt: new Date() })
+    .where(and(
+      eq(internationalShippingRequests.id, requestId),
+      eq(internationalShippingRequests.status, fromStatus)
+    ))
+    .returning();
+
+  if (!updated) {
+    // Someone else moved the request between our read and write
+    throw new InvalidShippingStatusError(requestId, fromStatus, toStatus);
+  }
+
+  console.log(`🚢 Shipping request #${requestId}: ${fromStatus} → ${toStatus}`);
+  return updated;
+}
+
+// Shipping requests for staff, newest first, optionally filtered by status
+export async function listShippingRequests(status?: ShippingRequestStatus): Promise<InternationalShippingRequest[]> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  return db
+    .select()
+    .from(internationalShippingRequests)
+    .where(status ? eq(internationalShippingRequests.status, status) : undefined)
+    .orderBy(desc(internationalShippingRequests.createdAt))
+    .limit(200);
+}
@@ -0,0 +1,379 @@
+import { db } from '@/lib/db';
+import { customerApplications, creditApprovals, legacyImports, type LegacyImport } from '@/lib/schema';
+import { and, desc, eq, inArray, ne } from 'drizzle-orm';
+import { recordInitialStatus } from '@/lib/application-status';
+import { findOrCreateCustomer, getPriorApplications, classifyApplication, einBlindIndex } from '@/lib/customers';
+import { applicationColumns, recordReferences } from '@/lib/intake';
+import { recordSubmissionSnapshot } from '@/lib/submission-snapshots';
+import { CONTACT_EMAIL_FIELDS, extractEmailAddress } from '@/lib/drafts';
+import {
+  legacyApplicationSchema,
+  validationErrorDetails,
+  type LegacyApplicationData,
+  type ValidationErrorDetail,
+} from '@/lib/validation';
+
+// Bulk import of paper and spreadsheet credit applications from before the online form.
+// Rows are validated and deduplicated by EIN first; a dry run stops there. Imported
+// applications keep their original decision, are marked with legacy_import_id, and go
+// through none of intake's follow-up work: no AI analysis, emails or webhooks.
+
+export const MAX_LEGACY_IMPORT_ROWS = 2000;
+
+const LEGACY_CHANGED_BY = 'legacy-import';
+
+// Columns every CSV must have; the rest of the application fields are optional
+const REQUIRED_COLUMNS = ['legalEntityName', 'taxEIN', 'status'] as const;
+
+// Common spreadsheet headings for fields whose form names differ
+const COLUMN_ALIASES: Record<string, keyof LegacyApplicationData> = {
+  ein: 'taxEIN',
+  taxid: 'taxEIN',
+  companyname: 'legalEntityName',
+  phone: 'phoneNo',
+  creditlimit: 'approvedCreditLimit',
+  terms: 'approvedTerms',
+  date: 'applicationDate',
+};
+
+const YES_NO_COLUMNS = new Set<string>(['isTaxExempt', 'usesPaymentPortal']);
+const BOOLEAN_COLUMNS = new Set<string>(['wantInvoicesEmailed', 'termsAgreed']);
+const AMOUNT_COLUMNS = new Set<string>(['requestedCreditAmount', 'approvedCreditLimit']);
+
+// Thrown when the file itself can't be imported (not CSV, missing columns, too many rows)
+export class LegacyImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LegacyImportFormatError';
+  }
+}
+
+export type LegacyImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'imported' | 'failed';
+
+export interface LegacyImportRowResult {
+  row: number; // Line in the CSV, counting the header as line 1
+  legalEntityName: string | null;
+  status: LegacyImportRowStatus;
+  errors?: ValidationErrorDetail[];
+  duplicateOf?: { row: number } | { applicationId: number };
+  applicationId?: number;
+  documentsFolder?: string;
+}
+
+export interface LegacyImportReport {
+  dryRun: boolean;
+  importId: number | null;
+  fileName: string;
+  totalRows: number;
+  validRows: number; // Rows that would be (or were) imported
+  invalidRows: number;
+  duplicateRows: number;
+  failedRows: number;
+  unmappedColumns: string[];
+  rows: LegacyImportRowResult[];
+}
+
+export interface LegacyImportOptions {
+  fileName: string;
+  importedBy: string;
+  dryRun: boolean;
+  ipAddress: string;
+  userAgent: string;
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, ''); // Excel's byte order mark
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new LegacyImportFormatError('The CSV has an unterminated quoted field');
+  }
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const normalizeHeading = (heading: string) => heading.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Map each CSV heading to a field of legacyApplicationSchema, matching case- and
+// punctuation-insensitively so "Legal Entity Name" and legal_entity_name both work
+function mapColumns(headings: string[]): { columns: (string | null)[]; unmappedColumns: string[] } {
+  const fieldsByHeading = new Map<string, string>(Object.entries(COLUMN_ALIASES));
+  for (const field of Object.keys(legacyApplicationSchema.shape)) {
+    fieldsByHeading.set(normalizeHeading(field), field);
+  }
+
+  const columns = headings.map(heading => fieldsByHeading.get(normalizeHeading(heading)) ?? null);
+  const unmappedColumns = headings.filter((heading, index) => heading.trim() && !columns[index]);
+
+  const missing = REQUIRED_COLUMNS.filter(field => !columns.includes(field));
+  if (missing.length > 0) {
+    throw new LegacyImportFormatError(`The CSV is missing required columns: ${missing.join(', ')}`);
+  }
+  return { columns, unmappedColumns };
+}
+
+function parseYesNoCell(value: string): boolean | null {
+  if (/^(y|yes|true|1)$/i.test(value)) return true;
+  if (/^(n|no|false|0)$/i.test(value)) return false;
+  return null;
+}
+
+// Turn a row's cells into the shape the schema expects. Spreadsheet conventions (Yes/No,
+// "$25,000", lowercase state codes, "Jane Doe - jane@acme.com" contacts) are accepted; anything else is left for the schema to reject.
+function rowValues(cells: string[], columns: (string | null)[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  columns.forEach((field, index) => {
+    const cell = cells[index]?.trim();
+    if (!field || !cell) return;
+
+    if (YES_NO_COLUMNS.has(field)) {
+      const answer = parseYesNoCell(cell);
+      values[field] = answer === null ? cell : String(answer);
+    } else if (BOOLEAN_COLUMNS.has(field)) {
+      values[field] = parseYesNoCell(cell) ?? cell;
+    } else if (AMOUNT_COLUMNS.has(field)) {
+      const amount = Number(cell.replace(/[$,\s]/g, ''));
+      values[field] = Number.isFinite(amount) ? amount : cell;
+    } else if ((CONTACT_EMAIL_FIELDS as readonly string[]).includes(field)) {
+      values[field] = extractEmailAddress(cell) ?? cell;
+    } else if (field === 'status') {
+      values[field] = cell.toLowerCase();
+    } else if (field === 'stateIncorporated' || field.endsWith('State')) {
+      values[field] = cell.toUpperCase();
+    } else {
+      values[field] = cell;
+    }
+  });
+  return values;
+}
+
+// The CSV row as it was in the file, kept as the application's submission snapshot
+function rawRow(cells: string[], headings: string[]): Record<string, string> {
+  return Object.fromEntries(headings.map((heading, index) => [heading, cells[index] ?? '']));
+}
+
+// Applications already on file for these EINs (drafts don't count), by blind index
+async function findExistingApplications(einHashes: string[]): Promise<Map<string, number>> {
+  if (einHashes.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db!
+    .select({ id: customerApplications.id, taxEinHash: customerApplications.taxEinHash })
+    .from(customerApplications)
+    .where(and(inArray(customerApplications.taxEinHash, einHashes), ne(customerApplications.status, 'draft')))
+    .orderBy(customerApplications.id);
+
+  const existing = new Map<string, number>();
+  for (const row of rows) {
+    if (row.taxEinHash && !existing.has(row.taxEinHash)) {
+      existing.set(row.taxEinHash, row.id);
+    }
+  }
+  return existing;
+}
+
+// One imported application with its customer link, status history, snapshot, references
+// and, for approvals and denials, the original decision
+async function insertLegacyApplication(
+  data: LegacyApplicationData,
+  raw: Record<string, string>,
+  importId: number,
+  options: LegacyImportOptions
+): Promise<number> {
+  return db!.transaction(async (tx) => {
+    const customer = await findOrCreateCustomer({
+      taxEIN: data.taxEIN,
+      legalEntityName: data.legalEntityName,
+    }, tx);
+    const priorApplications = await getPriorApplications(customer.id, undefined, tx);
+    const applicationDate = data.applicationDate ? new Date(data.applicationDate) : undefined;
+
+    const [application] = await tx.insert(customerApplications).values({
+      customerId: customer.id,
+      applicationType: classifyApplication(priorApplications),
+      ...applicationColumns(data),
+      status: data.status,
+      legacyImportId: importId,
+      legacyReference: data.legacyReference,
+      createdAt: applicationDate,
+      updatedAt: applicationDate,
+    }).returning();
+
+    await recordInitialStatus(application.id, data.status, {
+      changedBy: LEGACY_CHANGED_BY,
+      reason: `Imported from ${options.fileName}`,
+    }, tx);
+
+    await recordSubmissionSnapshot({
+      applicationId: application.id,
+      payload: raw,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+    }, tx);
+
+    await recordReferences(application.id, data, tx);
+
+    if (data.status === 'approved' || data.status === 'denied') {
+      await tx.insert(creditApprovals).values({
+        applicationId: application.id,
+        decision: data.status === 'approved' ? 'APPROVE' : 'DENY',
+        approvedAmount: data.approvedCreditLimit != null ? Math.round(data.approvedCreditLimit * 100) : null, // cents
+        approvedTerms: data.approvedTerms,
+        approverNotes: `Decision from legacy records (${options.fileName})`,
+        customerNotified: true,
+        createdAt: applicationDate,
+      });
+    }
+
+    return application.id;
+  });
+}
+
+// Import batches, newest first
+export async function listLegacyImports(): Promise<LegacyImport[]> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  return db.select().from(legacyImports).orderBy(desc(legacyImports.createdAt));
+}
+
+// Validate, dedupe and (unless dryRun) import a CSV of legacy applications. Every row is
+// reported: invalid rows with their errors, duplicates with the row or application they
+// repeat. Rows import one at a time, so a failing row doesn't hold back the rest and a
+// re-run skips the rows already imported as duplicates.
+export async function importLegacyApplications(csv: string, options: LegacyImportOptions): Promise<LegacyImportReport> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [headings, ...dataRows] = parseCsv(csv).filter(cells => cells.some(cell => cell.trim()));
+  if (!headings) {
+    throw new LegacyImportFormatError('The CSV is empty');
+  }
+  if (dataRows.length > MAX_LEGACY_IMPORT_ROWS) {
+    throw new LegacyImportFormatError(`The CSV has ${dataRows.length} rows; split it into files of at most ${MAX_LEGACY_IMPORT_ROWS}`);
+  }
+  const { columns, unmappedColumns } = mapColumns(headings);
+
+  const rows: LegacyImportRowResult[] = [];
+  const toImport: { result: LegacyImportRowResult; data: LegacyApplicationData; raw: Record<string, string>; einHash: string }[] = [];
+  const firstRowByEin = new Map<string, number>();
+
+  dataRows.forEach((cells, index) => {
+    const values = rowValues(cells, columns);
+    const result: LegacyImportRowResult = {
+      row: index + 2,
+      legalEntityName: typeof values.legalEntityName === 'string' ? values.legalEntityName : null,
+      status: 'valid',
+    };
+    rows.push(result);
+
+    const validationResult = legacyApplicationSchema.safeParse(values);
+    if (!validationResult.success) {
+      result.status = 'invalid';
+      result.errors = validationErrorDetails(validationResult.error);
+      return;
+    }
+
+    const einHash = einBlindIndex(validationResult.data.taxEIN)!;
+    const earlierRow = firstRowByEin.get(einHash);
+    if (earlierRow) {
+      result.status = 'duplicate';
+      result.duplicateOf = { row: earlierRow };
+      return;
+    }
+    firstRowByEin.set(einHash, result.row);
+
+    result.documentsFolder = validationResult.data.documentsFolder;
+    toImport.push({ result, data: validationResult.data, raw: rawRow(cells, headings), einHash });
+  });
+
+  const existing = await findExistingApplications([...firstRowByEin.keys()]);
+  const newRows = toImport.filter(({ result, einHash }) => {
+    const applicationId = existing.get(einHash);
+    if (applicationId) {
+      result.status = 'duplicate';
+      result.duplicateOf = { applicationId };
+      return false;
+    }
+    return true;
+  });
+
+  let importId: number | null = null;
+  if (!options.dryRun && newRows.length > 0) {
+    const [batch] = await db.insert(legacyImports).values({
+      fileName: options.fileName,
+      importedBy: options.importedBy,
+      totalRows: dataRows.length,
+    }).returning();
+    importId = batch.id;
+    console.log(`📥 Legacy import #${importId}: importing ${newRows.length} of ${dataRows.length} rows from ${options.fileName}`);
+
+    for (const { result, data, raw } of newRows) {
+      try {
+        result.applicationId = await insertLegacyApplication(data, raw, batch.id, options);
+        result.status = 'imported';
+      } catch (error) {
+        console.error(`❌ Legacy import #${importId}: row ${result.row} failed:`, error);
+        result.status = 'failed';
+        result.errors = [{ field: '', code: 'custom', message: error instanceof Error ? error.message : 'Unknown error' }];
+      }
+    }
+
+    const importedRows = rows.filter(row => row.status === 'imported').length;
+    await db.update(legacyImports)
+      .set({ importedRows, skippedRows: dataRows.length - importedRows, completedAt: new Date() })
+      .where(eq(legacyImports.id, batch.id));
+    console.log(`✅ Legacy import #${importId}: ${importedRows} applications imported`);
+  }
+
+  const count = (...statuses: LegacyImportRowStatus[]) => rows.filter(row => statuses.includes(row.status)).length;
+  return {
+    dryRun: options.dryRun,
+    importId,
+    fileName: options.fileName,
+    totalRows: dataRows.length,
+    validRows: count('valid', 'imported'),
+    invalidRows: count('invalid'),
+    duplicateRows: count('duplicate'),
+    failedRows: count('failed'),
+    unmappedColumns,
+    rows,
+  };
+}
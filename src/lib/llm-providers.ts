@@ -0,0 +1,260 @@
+import fs from 'fs';
+import type { z } from 'zod';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  CREDIT_AGENT_PROVIDERS,
+  FRAUD_AGENT_PROVIDERS,
+  GEMINI_API_KEY,
+  LLM_FIXTURE_FILE,
+  OPENAI_API_KEY,
+} from '@/lib/config';
+import { toJsonSchema } from '@/lib/openapi';
+
+// Language model providers behind the fraud and credit agents (see ai-processor.ts).
+// Each agent has its own ordered provider list in configuration; a provider that isn't
+// configured is skipped and one that fails hands over to the next, so an outage at one
+// vendor doesn't stop analysis. The 'fixture' provider answers without any network call,
+// for tests and offline development.
+
+export const LLM_PROVIDER_NAMES = ['openai', 'gemini', 'fixture'] as const;
+export type LLMProviderName = typeof LLM_PROVIDER_NAMES[number];
+
+export type AgentName = 'fraud' | 'credit';
+
+const LLM_TIMEOUT_MS = 60_000;
+
+export interface LLMRequest {
+  agent: AgentName;
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  // JSON Schema of the expected answer, for providers that can enforce it
+  responseSchema?: Record<string, unknown>;
+  // What the fixture provider answers unless LLM_FIXTURE_FILE has a response for the agent
+  fixture: unknown;
+}
+
+export interface LLMCompletion {
+  content: string;
+  provider: LLMProviderName;
+  model: string; // Recorded with the stored analysis
+}
+
+interface LLMProvider {
+  defaultModel: string;
+  isConfigured(): boolean;
+  complete(request: LLMRequest, model: string): Promise<string>;
+}
+
+// Thrown when every configured provider for an agent failed
+export class LLMUnavailableError extends Error {
+  constructor(agent: AgentName, public readonly failures: string[]) {
+    super(`No provider answered for the ${agent} agent: ${failures.join('; ')}`);
+    this.name = 'LLMUnavailableError';
+  }
+}
+
+// Thrown when an agent's answer still doesn't match its schema after the repair attempt.
+// The reason is stored with the analysis run.
+export class AgentOutputError extends Error {
+  constructor(agent: AgentName, public readonly reason: string) {
+    super(`The ${agent} agent returned unusable output: ${reason}`);
+    this.name = 'AgentOutputError';
+  }
+}
+
+const openaiProvider: LLMProvider = {
+  defaultModel: 'gpt-5-2025-08-07',
+  isConfigured: () => !!OPENAI_API_KEY,
+  async complete(request, model) {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${OPENAI_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { name: `${request.agent}_agent_output`, schema: request.responseSchema } }
+          : { type: 'json_object' },
+      }),
+      signal: AbortSignal.timeout(LLM_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.choices?.[0]?.message?.content ?? '';
+  },
+};
+
+const geminiProvider: LLMProvider = {
+  defaultModel: 'gemini-2.5-pro',
+  isConfigured: () => !!GEMINI_API_KEY,
+  async complete(request, model) {
+    // JSON mode only: Gemini's responseSchema takes its own OpenAPI subset, not JSON Schema
+    const generativeModel = new GoogleGenerativeAI(GEMINI_API_KEY!).getGenerativeModel({
+      model,
+      systemInstruction: request.system,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        responseMimeType: 'application/json',
+      },
+    }, { timeout: LLM_TIMEOUT_MS });
+
+    const result = await generativeModel.generateContent(request.prompt);
+    return result.response.text();
+  },
+};
+
+// Deterministic answers: the agent's own fixture, or the agent's entry in LLM_FIXTURE_FILE
+// ({ "fraud": {...}, "credit": {...} }) so a test can script what the model says
+const fixtureProvider: LLMProvider = {
+  defaultModel: 'fixture',
+  isConfigured: () => true,
+  async complete(request) {
+    if (LLM_FIXTURE_FILE) {
+      const fixtures = JSON.parse(fs.readFileSync(LLM_FIXTURE_FILE, 'utf8'));
+      if (fixtures[request.agent] !== undefined) {
+        return JSON.stringify(fixtures[request.agent]);
+      }
+    }
+    return JSON.stringify(request.fixture);
+  },
+};
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  fixture: fixtureProvider,
+};
+
+const AGENT_PROVIDER_CONFIG: Record<AgentName, string> = {
+  fraud: FRAUD_AGENT_PROVIDERS,
+  credit: CREDIT_AGENT_PROVIDERS,
+};
+
+function isProviderName(name: string): name is LLMProviderName {
+  return (LLM_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+// The agent's providers in order, with the model each should use. Unknown names are
+// ignored with a warning; providers without credentials are left out.
+export function getAgentProviders(agent: AgentName): { provider: LLMProviderName; model: string }[] {
+  return AGENT_PROVIDER_CONFIG[agent]
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      const [name, ...modelParts] = entry.split(':');
+      if (!isProviderName(name)) {
+        console.warn(`⚠️ Unknown LLM provider '${name}' configured for the ${agent} agent`);
+        return [];
+      }
+      if (!PROVIDERS[name].isConfigured()) {
+        return [];
+      }
+      return [{ provider: name, model: modelParts.join(':') || PROVIDERS[name].defaultModel }];
+    });
+}
+
+async function completeWith(provider: LLMProviderName, model: string, request: LLMRequest): Promise<LLMCompletion> {
+  const content = await PROVIDERS[provider].complete(request, model);
+  if (!content) {
+    throw new Error('Empty response');
+  }
+  return { content, provider, model };
+}
+
+// Ask the agent's providers in turn until one returns a non-empty answer
+export async function completeForAgent(request: LLMRequest): Promise<LLMCompletion> {
+  const failures: string[] = [];
+
+  for (const { provider, model } of getAgentProviders(request.agent)) {
+    try {
+      return await completeWith(provider, model, request);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ ${provider} (${model}) failed for the ${request.agent} agent:`, message);
+      failures.push(`${provider}: ${message}`);
+    }
+  }
+
+  throw new LLMUnavailableError(request.agent, failures.length > 0 ? failures : ['no provider configured']);
+}
+
+// Parse a model answer and check it against the schema. Models sometimes wrap JSON in a
+// markdown code fence even in JSON mode, so that is stripped first.
+function parseAgentOutput<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>):
+  { success: true; data: T } | { success: false; reason: string } {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { success: false, reason: `Not valid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return {
+      success: false,
+      reason: result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; '),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+// Like completeForAgent, but the answer must match the schema. A malformed answer is sent
+// back to the same provider once with what was wrong; if the repaired answer still fails,
+// AgentOutputError carries both reasons.
+export async function completeStructuredForAgent<T>(
+  request: LLMRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<LLMCompletion & { output: T; repaired: boolean }> {
+  const structuredRequest: LLMRequest = { ...request, responseSchema: toJsonSchema(schema) };
+  const completion = await completeForAgent(structuredRequest);
+
+  const first = parseAgentOutput(completion.content, schema);
+  if (first.success) {
+    return { ...completion, output: first.data, repaired: false };
+  }
+
+  console.warn(`⚠️ ${request.agent} agent output invalid (${first.reason}) - asking ${completion.provider} to repair it`);
+  let repair: LLMCompletion;
+  try {
+    repair = await completeWith(completion.provider, completion.model, {
+      ...structuredRequest,
+      prompt: `${request.prompt}
+
+Your previous response could not be used:
+${first.reason}
+
+Previous response:
+${completion.content}
+
+Return ONLY the corrected JSON object.`,
+    });
+  } catch (error) {
+    throw new AgentOutputError(request.agent, `${first.reason}; repair request failed (${error instanceof Error ? error.message : 'Unknown error'})`);
+  }
+
+  const second = parseAgentOutput(repair.content, schema);
+  if (!second.success) {
+    throw new AgentOutputError(request.agent, `${first.reason}; after repair: ${second.reason}`);
+  }
+  console.log(`🔧 ${request.agent} agent output repaired by ${repair.provider} (${repair.model})`);
+  return { ...repair, output: second.data, repaired: true };
+}
@@ -0,0 +1,570 @@
+import { z } from 'zod';
+import {
+  API_KEY_SCOPES,
+  apiKeyCreateSchema,
+  customerApplicationSchema,
+  digitalSignatureSchema,
+  draftReferenceSchema,
+  draftSaveSchema,
+  getStrictFieldRules,
+  informationRequestCreateSchema,
+  informationRequestResponseSchema,
+  internationalShippingRequestSchema,
+  legalHoldUpdateSchema,
+  scorecardSaveSchema,
+  SHIPPING_REQUEST_STATUSES,
+  shippingRequestStatusUpdateSchema,
+  VALIDATION_ERROR_CODES,
+  WEBHOOK_EVENTS,
+  webhookRedeliverySchema,
+  webhookSubscriptionCreateSchema,
+} from '@/lib/validation';
+
+// OpenAPI 3.1 document for the API routes, served at /api/openapi. Request bodies are
+// generated from the same zod schemas the routes validate with, so the document can't
+// drift from validation.ts; scripts/openapi-contract-test.js checks it against a
+// running deployment. Add an entry to API_OPERATIONS when adding or changing a route.
+
+type JsonSchema = { [keyword: string]: unknown };
+
+// Request bodies, published under components.schemas
+const REQUEST_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  // /api/applications also accepts the draft reference when submitting a saved draft
+  ApplicationSubmission: customerApplicationSchema.extend(draftReferenceSchema.partial().shape),
+  CustomerApplication: customerApplicationSchema,
+  DraftSave: draftSaveSchema,
+  DigitalSignature: digitalSignatureSchema,
+  InternationalShippingRequest: internationalShippingRequestSchema,
+  ShippingRequestStatusUpdate: shippingRequestStatusUpdateSchema,
+  LegalHoldUpdate: legalHoldUpdateSchema,
+  ApiKeyCreate: apiKeyCreateSchema,
+  WebhookSubscriptionCreate: webhookSubscriptionCreateSchema,
+  WebhookRedelivery: webhookRedeliverySchema,
+  InformationRequestCreate: informationRequestCreateSchema,
+  InformationRequestResponse: informationRequestResponseSchema,
+  ScorecardSave: scorecardSaveSchema,
+};
+
+type RequestSchemaName = keyof typeof REQUEST_SCHEMAS;
+type Auth = 'admin' | 'partnerApiKey' | 'cron';
+
+interface Parameter {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  description: string;
+  required?: boolean;
+  schema?: JsonSchema;
+}
+
+interface ApiOperation {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;
+  tag: string;
+  summary: string;
+  auth?: Auth;
+  parameters?: Parameter[];
+  // JSON body validated with a zod schema (a 400 lists the failed rules), a JSON body the
+  // route checks by hand, or a multipart upload
+  body?: RequestSchemaName | { json: JsonSchema } | { multipart: Record<string, JsonSchema>; required: string[] };
+  responses: Record<string, string | { description: string; schema: JsonSchema }>;
+  contentType?: 'text/html';
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const idParameter = (name: string, location: 'query' | 'path', description: string): Parameter => ({
+  name, in: location, description, required: true, schema: { type: 'integer', minimum: 1 },
+});
+const idempotencyKeyHeader: Parameter = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  description: 'Repeats with the same key within 24 hours return the first response (with Idempotent-Replayed: true) instead of creating another application',
+  schema: { type: 'string', pattern: '^[\\x21-\\x7e]{1,255}$' },
+};
+
+export const API_OPERATIONS: ApiOperation[] = [
+  // Customer-facing form
+  {
+    method: 'post', path: '/api/applications', tag: 'Applications',
+    summary: 'Submit a credit application (or a saved draft, with draftId and resumeToken)',
+    parameters: [idempotencyKeyHeader],
+    body: 'ApplicationSubmission',
+    responses: {
+      '201': { description: 'Application recorded; AI analysis runs in the background', schema: ref('ApplicationSubmitted') },
+      '404': 'Draft not found',
+      '409': 'Draft already submitted, or a request with this Idempotency-Key is still running',
+      '422': 'Idempotency-Key reused with a different body',
+    },
+  },
+  {
+    method: 'post', path: '/api/application-drafts', tag: 'Applications',
+    summary: 'Save the form to finish later; a new draft emails the resume link to the buyer',
+    body: 'DraftSave',
+    responses: { '200': 'Draft updated', '201': 'Draft created', '404': 'Draft not found' },
+  },
+  {
+    method: 'get', path: '/api/application-drafts', tag: 'Applications',
+    summary: 'Load a saved draft from its resume link',
+    parameters: [
+      idParameter('draftId', 'query', 'Draft (application) ID'),
+      { name: 'token', in: 'query', description: 'Resume token from the emailed link', required: true, schema: { type: 'string' } },
+    ],
+    responses: { '200': 'The saved form', '400': 'Missing draftId or token', '404': 'Draft not found' },
+  },
+  {
+    method: 'post', path: '/api/signatures', tag: 'Applications',
+    summary: 'Record the digital signature of the current terms',
+    body: 'DigitalSignature',
+    responses: { '201': 'Signature recorded', '404': 'Application not found', '409': 'Draft, closed or already signed application, or the terms changed' },
+  },
+  {
+    method: 'post', path: '/api/upload', tag: 'Applications',
+    summary: 'Upload a vendor form or reference document (10MB max)',
+    body: {
+      multipart: {
+        file: { type: 'string', contentMediaType: 'application/octet-stream' },
+        applicationId: { type: 'string', pattern: '^\\d+$' },
+        informationRequestId: { type: 'string', pattern: '^\\d+$', description: 'Attach the file to an information request (requires token)' },
+        token: { type: 'string', description: 'Token from the information request link' },
+      },
+      required: ['file', 'applicationId'],
+    },
+    responses: {
+      '201': 'File stored',
+      '400': 'File rejected or invalid application ID',
+      '404': 'Application or information request not found',
+      '409': 'Information request already answered or withdrawn',
+    },
+  },
+  {
+    method: 'get', path: '/api/information-requests', tag: 'Applications',
+    summary: 'Load a request for more information from its emailed link',
+    parameters: [
+      idParameter('request', 'query', 'Information request ID'),
+      { name: 'token', in: 'query', description: 'Token from the emailed link', required: true, schema: { type: 'string' } },
+    ],
+    responses: { '200': 'The requested items and files uploaded so far', '400': 'Missing request or token', '404': 'Invalid link' },
+  },
+  {
+    method: 'post', path: '/api/information-requests', tag: 'Applications',
+    summary: 'Answer a request for more information; the application is analyzed again',
+    body: 'InformationRequestResponse',
+    responses: { '200': 'Response recorded', '404': 'Invalid link', '409': 'Request already answered or withdrawn' },
+  },
+  {
+    method: 'get', path: '/api/terms', tag: 'Applications',
+    summary: 'The terms and conditions currently in effect',
+    responses: { '200': 'Current terms with version and content hash', '503': 'No terms published' },
+  },
+  {
+    method: 'post', path: '/api/international-shipping', tag: 'International shipping',
+    summary: 'Request an international shipping quote',
+    body: 'InternationalShippingRequest',
+    responses: { '201': 'Request recorded and emailed to the shipping team' },
+  },
+
+  // Approver links
+  {
+    method: 'get', path: '/api/credit-approval', tag: 'Approvals',
+    summary: 'Record an approve/deny decision from the signed link in the AI analysis email',
+    parameters: [
+      { name: 'id', in: 'query', description: 'Application ID', required: true, schema: { type: 'string' } },
+      { name: 'decision', in: 'query', description: 'Decision', required: true, schema: { type: 'string', enum: ['APPROVE', 'DENY'] } },
+      { name: 'amount', in: 'query', description: 'Approved credit limit in cents', schema: { type: 'string' } },
+      { name: 'token', in: 'query', description: 'Link timestamp', schema: { type: 'string' } },
+      { name: 'sig', in: 'query', description: 'Link signature', schema: { type: 'string' } },
+    ],
+    contentType: 'text/html',
+    responses: { '200': 'Confirmation page', '409': 'Application is not awaiting a decision' },
+  },
+
+  // Partner API
+  {
+    method: 'post', path: '/api/v1/applications', tag: 'Partner API', auth: 'partnerApiKey',
+    summary: 'Submit an application on a customer\'s behalf (scope applications:submit)',
+    parameters: [idempotencyKeyHeader],
+    body: 'CustomerApplication',
+    responses: {
+      '201': { description: 'Application recorded', schema: ref('ApplicationSubmitted') },
+      '409': 'A request with this Idempotency-Key is still running',
+      '422': 'Idempotency-Key reused with a different body',
+    },
+  },
+  {
+    method: 'get', path: '/api/v1/applications/{id}', tag: 'Partner API', auth: 'partnerApiKey',
+    summary: 'Status and status history of an application submitted with this key (scope applications:read)',
+    parameters: [idParameter('id', 'path', 'Application ID')],
+    responses: { '200': 'Application status', '404': 'Not found or not submitted with this key' },
+  },
+  {
+    method: 'post', path: '/api/v1/applications/{id}/documents', tag: 'Partner API', auth: 'partnerApiKey',
+    summary: 'Attach a document to an application submitted with this key (scope documents:upload)',
+    parameters: [idParameter('id', 'path', 'Application ID')],
+    body: {
+      multipart: { file: { type: 'string', contentMediaType: 'application/octet-stream' } },
+      required: ['file'],
+    },
+    responses: { '201': 'File stored', '400': 'File rejected', '404': 'Not found or not submitted with this key' },
+  },
+
+  // Admin
+  {
+    method: 'get', path: '/api/admin/submissions', tag: 'Admin', auth: 'admin',
+    summary: 'The submission snapshot of an application, exactly as received',
+    parameters: [idParameter('applicationId', 'query', 'Application ID')],
+    responses: { '200': 'Snapshot with payload hash', '404': 'No snapshot' },
+  },
+  {
+    method: 'get', path: '/api/admin/credit-analyses', tag: 'Admin', auth: 'admin',
+    summary: 'All AI analysis runs for an application, compared with the approver\'s decision',
+    parameters: [idParameter('applicationId', 'query', 'Application ID')],
+    responses: { '200': 'Analysis history', '404': 'Application not found' },
+  },
+  {
+    method: 'post', path: '/api/admin/credit-analyses', tag: 'Admin', auth: 'admin',
+    summary: 'Re-run the AI analysis as a new version; applications that never reached the approver are sent on to them',
+    body: { json: { type: 'object', properties: { applicationId: { type: 'integer', minimum: 1 } }, required: ['applicationId'] } },
+    responses: { '200': 'The new analysis', '400': 'Invalid JSON or application ID', '404': 'Application not found', '409': 'Application was imported from legacy records' },
+  },
+  {
+    method: 'get', path: '/api/admin/information-requests', tag: 'Admin', auth: 'admin',
+    summary: 'Requests for more information on an application, with the customer\'s answers',
+    parameters: [idParameter('applicationId', 'query', 'Application ID')],
+    responses: { '200': 'Information requests' },
+  },
+  {
+    method: 'post', path: '/api/admin/information-requests', tag: 'Admin', auth: 'admin',
+    summary: 'Ask the buyer for documents or answers and email them a link to respond',
+    body: 'InformationRequestCreate',
+    responses: { '201': 'Request created and emailed', '404': 'Application not found', '409': 'Application is a draft or closed, or has no buyer email' },
+  },
+  {
+    method: 'delete', path: '/api/admin/information-requests', tag: 'Admin', auth: 'admin',
+    summary: 'Withdraw an open information request',
+    parameters: [idParameter('id', 'query', 'Information request ID')],
+    responses: { '200': 'Request withdrawn', '404': 'Information request not found', '409': 'Request already answered or withdrawn' },
+  },
+  {
+    method: 'get', path: '/api/admin/legacy-imports', tag: 'Admin', auth: 'admin',
+    summary: 'Past imports of legacy applications',
+    responses: { '200': 'Import batches with row counts' },
+  },
+  {
+    method: 'post', path: '/api/admin/legacy-imports', tag: 'Admin', auth: 'admin',
+    summary: 'Validate and import legacy applications from a CSV (a dry run unless dryRun=false)',
+    body: {
+      multipart: {
+        file: { type: 'string', contentMediaType: 'text/csv', description: 'One application per row; headings name application form fields (5MB max)' },
+        importedBy: { type: 'string' },
+        dryRun: { type: 'string', enum: ['true', 'false'], default: 'true' },
+      },
+      required: ['file', 'importedBy'],
+    },
+    responses: {
+      '200': 'Dry-run report: each row valid, invalid (with errors) or a duplicate EIN',
+      '201': 'Import report with the created application IDs',
+      '400': 'Missing file, invalid form fields, or a CSV without the required columns',
+    },
+  },
+  {
+    method: 'get', path: '/api/admin/fraud-rules', tag: 'Admin', auth: 'admin',
+    summary: 'Fraud rules in force with hit counts and how the flagged applications were decided',
+    parameters: [{ name: 'since', in: 'query', description: 'Only count hits from this date', schema: { type: 'string', format: 'date' } }],
+    responses: { '200': 'Rule set version, each rule with its statistics, and hits for rules since removed', '400': 'Invalid since date' },
+  },
+  {
+    method: 'get', path: '/api/admin/scorecards', tag: 'Admin', auth: 'admin',
+    summary: 'The credit scorecard in force and its earlier versions',
+    responses: { '200': 'Current scorecard and all versions, newest first' },
+  },
+  {
+    method: 'post', path: '/api/admin/scorecards', tag: 'Admin', auth: 'admin',
+    summary: 'Save an edited credit scorecard as the next version',
+    body: 'ScorecardSave',
+    responses: { '201': 'Scorecard saved and in force', '409': 'Another version was saved since basedOnVersion' },
+  },
+  {
+    method: 'get', path: '/api/admin/international-shipping', tag: 'Admin', auth: 'admin',
+    summary: 'Shipping requests, optionally filtered by status',
+    parameters: [{ name: 'status', in: 'query', description: 'Status filter', schema: { type: 'string', enum: SHIPPING_REQUEST_STATUSES } }],
+    responses: { '200': 'Shipping requests' },
+  },
+  {
+    method: 'patch', path: '/api/admin/international-shipping', tag: 'Admin', auth: 'admin',
+    summary: 'Move a shipping request to its next status',
+    body: 'ShippingRequestStatusUpdate',
+    responses: { '200': 'Status updated', '404': 'Shipping request not found', '409': 'Transition not allowed' },
+  },
+  {
+    method: 'get', path: '/api/admin/legal-holds', tag: 'Admin', auth: 'admin',
+    summary: 'Applications exempt from retention purges',
+    responses: { '200': 'Applications on legal hold' },
+  },
+  {
+    method: 'post', path: '/api/admin/legal-holds', tag: 'Admin', auth: 'admin',
+    summary: 'Place or lift a legal hold',
+    body: 'LegalHoldUpdate',
+    responses: { '200': 'Legal hold updated', '404': 'Application not found' },
+  },
+  {
+    method: 'get', path: '/api/admin/api-keys', tag: 'Admin', auth: 'admin',
+    summary: 'Partner API keys (without hashes)',
+    responses: { '200': 'API keys' },
+  },
+  {
+    method: 'post', path: '/api/admin/api-keys', tag: 'Admin', auth: 'admin',
+    summary: 'Issue a partner API key; the key is only returned in this response',
+    body: 'ApiKeyCreate',
+    responses: { '201': 'Key issued' },
+  },
+  {
+    method: 'delete', path: '/api/admin/api-keys', tag: 'Admin', auth: 'admin',
+    summary: 'Revoke a partner API key',
+    parameters: [idParameter('id', 'query', 'API key ID')],
+    responses: { '200': 'Key revoked', '404': 'API key not found' },
+  },
+  {
+    method: 'get', path: '/api/admin/webhooks', tag: 'Admin', auth: 'admin',
+    summary: 'Webhook subscriptions (without secrets)',
+    responses: { '200': 'Subscriptions' },
+  },
+  {
+    method: 'post', path: '/api/admin/webhooks', tag: 'Admin', auth: 'admin',
+    summary: 'Subscribe to application events; the signing secret is only returned in this response',
+    body: 'WebhookSubscriptionCreate',
+    responses: { '201': 'Subscription created' },
+  },
+  {
+    method: 'delete', path: '/api/admin/webhooks', tag: 'Admin', auth: 'admin',
+    summary: 'Disable a webhook subscription',
+    parameters: [idParameter('id', 'query', 'Subscription ID')],
+    responses: { '200': 'Subscription disabled', '404': 'Subscription not found' },
+  },
+  {
+    method: 'get', path: '/api/admin/webhook-deliveries', tag: 'Admin', auth: 'admin',
+    summary: 'Webhook delivery log, newest first',
+    parameters: [
+      { name: 'subscriptionId', in: 'query', description: 'Subscription filter', schema: { type: 'integer' } },
+      { name: 'applicationId', in: 'query', description: 'Application filter', schema: { type: 'integer' } },
+      { name: 'status', in: 'query', description: 'Status filter', schema: { type: 'string', enum: ['pending', 'delivered', 'failed'] } },
+    ],
+    responses: { '200': 'Deliveries' },
+  },
+  {
+    method: 'post', path: '/api/admin/webhook-deliveries', tag: 'Admin', auth: 'admin',
+    summary: 'Send a delivered or failed webhook delivery again',
+    body: 'WebhookRedelivery',
+    responses: { '200': 'Delivery attempted', '409': 'Delivery not found or still being retried' },
+  },
+  {
+    method: 'get', path: '/api/admin/field-encryption', tag: 'Admin', auth: 'admin',
+    summary: 'Rows whose sensitive fields still need (re-)encryption',
+    responses: { '200': 'Remaining counts per field' },
+  },
+  {
+    method: 'post', path: '/api/admin/field-encryption', tag: 'Admin', auth: 'admin',
+    summary: 'Encrypt one batch of each sensitive field under the current key',
+    responses: { '200': 'Processed and remaining counts' },
+  },
+  {
+    method: 'get', path: '/api/admin/schema-drift', tag: 'Admin', auth: 'admin',
+    summary: 'Compare the database with src/lib/schema.ts',
+    responses: { '200': 'Drift report' },
+  },
+
+  // Scheduled jobs (vercel.json crons)
+  { method: 'get', path: '/api/process-emails', tag: 'Jobs', summary: 'Email queue statistics', responses: { '200': 'Queue stats' } },
+  { method: 'post', path: '/api/process-emails', tag: 'Jobs', summary: 'Send queued emails', responses: { '200': 'Queue processed' } },
+  { method: 'get', path: '/api/cleanup-queue', tag: 'Jobs', summary: 'Remove old email queue entries', responses: { '200': 'Queue cleaned' } },
+  {
+    method: 'get', path: '/api/retention-purge', tag: 'Jobs', auth: 'cron',
+    summary: 'Expire abandoned applications and delete records past their retention period',
+    parameters: [{ name: 'dryRun', in: 'query', description: 'List what would be expired and purged without changing anything', schema: { type: 'string', enum: ['true', 'false'] } }],
+    responses: { '200': 'Purge result' },
+  },
+  { method: 'get', path: '/api/webhook-retries', tag: 'Jobs', auth: 'cron', summary: 'Retry webhook deliveries whose backoff has elapsed', responses: { '200': 'Retry result' } },
+];
+
+// JSON Schema for the zod types validation.ts uses. Anything else becomes {} (any value).
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const strictRules = getStrictFieldRules(schema);
+  if (strictRules) {
+    return { type: 'string', maxLength: strictRules.max, ...strictRules.format?.jsonSchema };
+  }
+
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' };
+      for (const check of (schema as z.ZodString)._def.checks) {
+        if (check.kind === 'min') result.minLength = check.value;
+        else if (check.kind === 'max') result.maxLength = check.value;
+        else if (check.kind === 'email') result.format = 'email';
+        else if (check.kind === 'url') result.format = 'uri';
+        else if (check.kind === 'regex') result.pattern = check.regex.source;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        if (check.kind === 'int') result.type = 'integer';
+        else if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        else if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: (schema as z.ZodEnum<[string, ...string[]]>).options };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: (schema as z.ZodLiteral<unknown>).value };
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const array = schema as z.ZodArray<z.ZodTypeAny>;
+      const result: JsonSchema = { type: 'array', items: toJsonSchema(array.element) };
+      if (array._def.minLength) result.minItems = array._def.minLength.value;
+      if (array._def.maxLength) result.maxItems = array._def.maxLength.value;
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        // isOptional() asks the schema itself, so a strict field's superRefine counts too
+        if (!value.isOptional()) {
+          required.push(key);
+        }
+      }
+      return required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+    }
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema((schema as z.ZodOptional<z.ZodTypeAny>).unwrap());
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [toJsonSchema((schema as z.ZodNullable<z.ZodTypeAny>).unwrap()), { type: 'null' }] };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      // Refinements can't be expressed; the schema they refine still describes the shape
+      return toJsonSchema((schema as z.ZodEffects<z.ZodTypeAny>).innerType());
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: (def.options as z.ZodTypeAny[]).map(toJsonSchema) };
+    default:
+      return {};
+  }
+}
+
+function toOpenApiOperation(operation: ApiOperation) {
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(operation.responses)) {
+    if (typeof response === 'string') {
+      responses[status] = operation.contentType && status.startsWith('2')
+        ? { description: response, content: { [operation.contentType]: { schema: { type: 'string' } } } }
+        : { description: response };
+    } else {
+      responses[status] = { description: response.description, content: { 'application/json': { schema: response.schema } } };
+    }
+  }
+
+  let requestBody: unknown;
+  if (typeof operation.body === 'string') {
+    requestBody = { required: true, content: { 'application/json': { schema: ref(operation.body) } } };
+    responses['400'] ??= { description: 'Invalid JSON or failed validation', content: { 'application/json': { schema: ref('ValidationError') } } };
+  } else if (operation.body && 'json' in operation.body) {
+    requestBody = { required: true, content: { 'application/json': { schema: operation.body.json } } };
+  } else if (operation.body) {
+    requestBody = {
+      required: true,
+      content: { 'multipart/form-data': { schema: { type: 'object', properties: operation.body.multipart, required: operation.body.required } } },
+    };
+  }
+
+  if (operation.auth) {
+    responses['401'] ??= { description: 'Missing or invalid credentials' };
+  }
+  if (operation.auth === 'partnerApiKey') {
+    responses['403'] ??= { description: 'API key lacks the required scope' };
+    responses['429'] ??= { description: 'API key rate limit exceeded (see X-RateLimit-* and Retry-After)' };
+  }
+  responses['503'] ??= { description: 'Database or storage not configured' };
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    operationId: `${operation.method}${operation.path.replace(/[{}]/g, '').split(/[/-]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('')}`,
+    ...(operation.auth && { security: [{ [operation.auth]: [] }] }),
+    ...(operation.parameters && { parameters: operation.parameters }),
+    ...(requestBody ? { requestBody } : {}),
+    responses,
+  };
+}
+
+export function buildOpenApiDocument(serverUrl?: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = toOpenApiOperation(operation);
+  }
+
+  const schemas: Record<string, JsonSchema> = Object.fromEntries(
+    Object.entries(REQUEST_SCHEMAS).map(([name, schema]) => [name, toJsonSchema(schema)])
+  );
+  schemas.ValidationError = {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      details: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            field: { type: 'string', description: 'Dotted path of the field, e.g. additionalPurchasers.0.email' },
+            code: { type: 'string', description: `Application routes: ${VALIDATION_ERROR_CODES.join(', ')} or a zod issue code` },
+            message: { type: 'string' },
+          },
+          required: ['field', 'message'],
+        },
+      },
+    },
+    required: ['error', 'details'],
+  };
+  schemas.ApplicationSubmitted = {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      message: { type: 'string' },
+      application: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          legalEntityName: { type: 'string' },
+          status: { type: 'string' },
+          customerId: { type: ['integer', 'null'] },
+          applicationType: { type: 'string', enum: ['new', 'repeat', 'reapplication', 'credit_limit_revision'] },
+          submissionHash: { type: 'string', description: 'SHA-256 of the submission as received' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+  };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Alliance Chemical Credit Application API',
+      version: '1.0.0',
+      description: `Partner API keys carry the scopes ${API_KEY_SCOPES.join(', ')}. Webhook events: ${WEBHOOK_EVENTS.join(', ')}.`,
+    },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        admin: { type: 'apiKey', in: 'header', name: 'x-admin-token' },
+        partnerApiKey: { type: 'http', scheme: 'bearer', description: 'Partner API key issued through /api/admin/api-keys' },
+        cron: { type: 'http', scheme: 'bearer', description: 'CRON_SECRET' },
+      },
+    },
+  };
+}
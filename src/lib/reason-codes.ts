@@ -0,0 +1,51 @@
+// Standard adverse-action reason codes. Every analysis stores the reasons that counted
+// against the application, ranked by how many score points each cost, so denial notices
+// and the approver report state the same reasons in the same words. Codes are permanent:
+// add new ones rather than rewording or reusing an existing code.
+
+export const REASON_CODES = {
+  R01: 'Business registration not verified',
+  R02: 'Business email domain could not be verified',
+  R03: 'Application contains test or placeholder information',
+  R04: 'Insufficient trade references',
+  R05: 'D-U-N-S number not provided',
+  R06: 'Billing and shipping addresses differ',
+  R07: 'Application information could not be verified',
+  R08: 'Length of time in business',
+  R09: 'Insufficient financial information',
+  R10: 'Credit requested exceeds what the application supports',
+} as const;
+
+export type ReasonCode = keyof typeof REASON_CODES;
+export const REASON_CODE_LIST = Object.keys(REASON_CODES) as [ReasonCode, ...ReasonCode[]];
+
+export interface AdverseActionReason {
+  code: ReasonCode;
+  description: string;
+  // Score points lost to this reason; null when the credit agent raised it without a score factor
+  impact: number | null;
+}
+
+// Customer notices name at most this many reasons, the most significant first
+export const NOTICE_REASON_LIMIT = 4;
+
+export function adverseReason(code: ReasonCode, impact: number | null): AdverseActionReason {
+  return { code, description: REASON_CODES[code], impact };
+}
+
+// One entry per code, largest impact first; reasons without a score impact go last
+export function rankReasons(reasons: AdverseActionReason[]): AdverseActionReason[] {
+  const byCode = new Map<ReasonCode, AdverseActionReason>();
+  for (const reason of reasons) {
+    const existing = byCode.get(reason.code);
+    if (!existing || (reason.impact ?? -1) > (existing.impact ?? -1)) {
+      byCode.set(reason.code, reason);
+    }
+  }
+  return Array.from(byCode.values()).sort((a, b) => (b.impact ?? -1) - (a.impact ?? -1));
+}
+
+// "R04 Insufficient trade references (-40 points)"
+export function describeReason(reason: AdverseActionReason): string {
+  return `${reason.code} ${reason.description}${reason.impact !== null ? ` (-${reason.impact} points)` : ''}`;
+}
@@ -0,0 +1,42 @@
+// How long each kind of record is kept before the retention job (/api/retention-purge)
+// deletes it. Override any period with RETENTION_DAYS_<TYPE>, e.g.
+// RETENTION_DAYS_CLOSED_APPLICATION=1095. Applications under legal hold are never purged.
+//
+// Signatures, submission snapshots, credit analyses and approvals have no period of
+// their own - they are part of the application record and go with it.
+
+export const RETENTION_RECORD_TYPES = [
+  'draft_application',    // Started but never submitted, measured from the last change
+  'open_application',     // Submitted but never decided, measured from the last status change; expired, not deleted
+  'closed_application',   // Denied, withdrawn or expired, measured from when it closed
+  'approved_application', // Approved, measured from the decision
+  'vendor_form',          // Uploaded documents in S3, measured from upload
+  'email_record',         // Sent/failed email records in KV
+] as const;
+
+export type RetentionRecordType = typeof RETENTION_RECORD_TYPES[number];
+
+const DEFAULT_RETENTION_DAYS: Record<RetentionRecordType, number> = {
+  draft_application: 30,
+  open_application: 90,
+  closed_application: 760, // 25 months
+  approved_application: 2555, // 7 years
+  vendor_form: 2555,
+  email_record: 1,
+};
+
+export function getRetentionDays(recordType: RetentionRecordType): number {
+  const override = parseInt(process.env[`RETENTION_DAYS_${recordType.toUpperCase()}`] ?? '', 10);
+  return Number.isInteger(override) && override > 0 ? override : DEFAULT_RETENTION_DAYS[recordType];
+}
+
+export function getRetentionPolicy(): Record<RetentionRecordType, number> {
+  return Object.fromEntries(
+    RETENTION_RECORD_TYPES.map(recordType => [recordType, getRetentionDays(recordType)])
+  ) as Record<RetentionRecordType, number>;
+}
+
+// Records last changed before this date are past retention
+export function getRetentionCutoff(recordType: RetentionRecordType, now: Date = new Date()): Date {
+  return new Date(now.getTime() - getRetentionDays(recordType) * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,327 @@
+import { db } from '@/lib/db';
+import {
+  customers,
+  customerApplications,
+  applicationStatusHistory,
+  applicationSubmissions,
+  tradeReferences,
+  bankReferences,
+  authorizedPurchasers,
+  digitalSignatures,
+  vendorForms,
+  creditApprovals,
+  creditAnalyses,
+  retentionPurges,
+  idempotencyKeys,
+  webhookDeliveries,
+  informationRequests,
+  fraudRuleHits,
+  type CustomerApplication,
+} from '@/lib/schema';
+import { and, eq, inArray, lt, or, sql } from 'drizzle-orm';
+import { getRetentionCutoff, getRetentionDays, getRetentionPolicy, type RetentionRecordType } from '@/lib/retention-policy';
+import { deleteS3Object, deleteVendorFormObjects, s3KeyFromUrl } from '@/lib/storage';
+import { purgeExpiredIdempotencyKeys } from '@/lib/idempotency';
+import { transitionApplicationStatus } from '@/lib/application-status';
+
+const OPEN_STATUSES = ['submitted', 'signed', 'analyzed', 'pending_decision'];
+const CLOSED_STATUSES = ['denied', 'withdrawn', 'expired'];
+
+export interface PurgeCandidate {
+  recordType: RetentionRecordType;
+  recordId: number;
+  applicationId: number;
+  lastChangedAt: Date;
+}
+
+export interface RetentionPurgeResult {
+  dryRun: boolean;
+  policy: Record<RetentionRecordType, number>;
+  staleApplications: PurgeCandidate[];
+  expired: PurgeCandidate[];
+  candidates: PurgeCandidate[];
+  purged: PurgeCandidate[];
+  errors: { recordType: RetentionRecordType; recordId: number; error: string }[];
+  idempotencyKeysPurged: number;
+}
+
+function applicationRecordType(status: string): RetentionRecordType {
+  if (status === 'draft') return 'draft_application';
+  if (status === 'approved') return 'approved_application';
+  return 'closed_application';
+}
+
+// When the application reached its current status. updated_at alone isn't used for
+// decided applications because unrelated updates (legal holds, re-encryption) touch it.
+const statusChangedAt = sql<Date>`coalesce(
+  (SELECT max(${applicationStatusHistory.createdAt}) FROM ${applicationStatusHistory}
+   WHERE ${applicationStatusHistory.applicationId} = ${customerApplications.id}),
+  ${customerApplications.updatedAt})`.mapWith(customerApplications.updatedAt);
+
+// Applications past retention for their status. Applications still in
+// progress (submitted through pending_decision) are never candidates; stale ones
+// are expired first (see findStaleOpenApplications).
+async function findExpiredApplications(limit: number): Promise<PurgeCandidate[]> {
+  const rows = await db!
+    .select({ id: customerApplications.id, status: customerApplications.status, updatedAt: customerApplications.updatedAt, statusChangedAt })
+    .from(customerApplications)
+    .where(and(
+      eq(customerApplications.legalHold, false),
+      or(
+        and(eq(customerApplications.status, 'draft'), lt(customerApplications.updatedAt, getRetentionCutoff('draft_application'))),
+        and(inArray(customerApplications.status, CLOSED_STATUSES), lt(statusChangedAt, getRetentionCutoff('closed_application'))),
+        and(eq(customerApplications.status, 'approved'), lt(statusChangedAt, getRetentionCutoff('approved_application'))),
+      )
+    ))
+    .orderBy(customerApplications.id)
+    .limit(limit);
+
+  return rows.map(row => ({
+    recordType: applicationRecordType(row.status),
+    recordId: row.id,
+    applicationId: row.id,
+    lastChangedAt: row.status === 'draft' ? row.updatedAt : row.statusChangedAt,
+  }));
+}
+
+// Submitted applications nobody has moved for the open_application period. They are
+// expired rather than deleted, which starts their closed_application period.
+async function findStaleOpenApplications(limit: number): Promise<PurgeCandidate[]> {
+  const rows = await db!
+    .select({ id: customerApplications.id, statusChangedAt })
+    .from(customerApplications)
+    .where(and(
+      inArray(customerApplications.status, OPEN_STATUSES),
+      lt(statusChangedAt, getRetentionCutoff('open_application'))
+    ))
+    .orderBy(customerApplications.id)
+    .limit(limit);
+
+  return rows.map(row => ({
+    recordType: 'open_application' as const,
+    recordId: row.id,
+    applicationId: row.id,
+    lastChangedAt: row.statusChangedAt,
+  }));
+}
+
+// Uploaded documents past retention on applications that are still kept
+async function findExpiredVendorForms(limit: number): Promise<PurgeCandidate[]> {
+  const rows = await db!
+    .select({ id: vendorForms.id, applicationId: vendorForms.applicationId, uploadedAt: vendorForms.uploadedAt })
+    .from(vendorForms)
+    .innerJoin(customerApplications, eq(customerApplications.id, vendorForms.applicationId))
+    .where(and(
+      eq(customerApplications.legalHold, false),
+      lt(vendorForms.uploadedAt, getRetentionCutoff('vendor_form'))
+    ))
+    .orderBy(vendorForms.uploadedAt)
+    .limit(limit);
+
+  return rows.map(row => ({
+    recordType: 'vendor_form' as const,
+    recordId: row.id,
+    applicationId: row.applicationId!,
+    lastChangedAt: row.uploadedAt,
+  }));
+}
+
+async function isOnLegalHold(applicationId: number): Promise<boolean> {
+  const [application] = await db!
+    .select({ legalHold: customerApplications.legalHold })
+    .from(customerApplications)
+    .where(eq(customerApplications.id, applicationId))
+    .limit(1);
+  return !!application?.legalHold;
+}
+
+// Delete an application and everything recorded for it: S3 documents first (so a
+// failure leaves the database rows to retry from), then all rows in one transaction.
+async function purgeApplication(candidate: PurgeCandidate): Promise<void> {
+  const applicationId = candidate.applicationId;
+  if (await isOnLegalHold(applicationId)) {
+    throw new Error('Application was placed on legal hold');
+  }
+  const s3Objects = await deleteVendorFormObjects(applicationId);
+
+  await db!.transaction(async (tx) => {
+    // Re-check inside the transaction: a legal hold may have been set since the candidate query
+    const [application] = await tx
+      .select({ id: customerApplications.id, status: customerApplications.status, customerId: customerApplications.customerId, legalHold: customerApplications.legalHold })
+      .from(customerApplications)
+      .where(eq(customerApplications.id, applicationId))
+      .for('update');
+    if (!application || application.legalHold) {
+      throw new Error(application ? 'Application was placed on legal hold' : 'Application no longer exists');
+    }
+
+    await tx.delete(applicationStatusHistory).where(eq(applicationStatusHistory.applicationId, applicationId));
+    await tx.delete(applicationSubmissions).where(eq(applicationSubmissions.applicationId, applicationId));
+    await tx.delete(tradeReferences).where(eq(tradeReferences.applicationId, applicationId));
+    await tx.delete(bankReferences).where(eq(bankReferences.applicationId, applicationId));
+    await tx.delete(authorizedPurchasers).where(eq(authorizedPurchasers.applicationId, applicationId));
+    await tx.delete(digitalSignatures).where(eq(digitalSignatures.applicationId, applicationId));
+    await tx.delete(vendorForms).where(eq(vendorForms.applicationId, applicationId));
+    await tx.delete(informationRequests).where(eq(informationRequests.applicationId, applicationId));
+    await tx.delete(creditApprovals).where(eq(creditApprovals.applicationId, applicationId));
+    await tx.delete(creditAnalyses).where(eq(creditAnalyses.applicationId, applicationId));
+    await tx.delete(fraudRuleHits).where(eq(fraudRuleHits.applicationId, applicationId));
+    await tx.delete(idempotencyKeys).where(eq(idempotencyKeys.applicationId, applicationId));
+    await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.applicationId, applicationId));
+    await tx.delete(customerApplications).where(eq(customerApplications.id, applicationId));
+
+    // A customer account with no applications left has nothing to link to
+    if (application.customerId) {
+      await tx.delete(customers).where(and(
+        eq(customers.id, application.customerId),
+        sql`NOT EXISTS (SELECT 1 FROM ${customerApplications} WHERE ${customerApplications.customerId} = ${application.customerId})`
+      ));
+    }
+
+    await tx.insert(retentionPurges).values({
+      recordType: candidate.recordType,
+      recordId: applicationId,
+      applicationId,
+      retentionDays: getRetentionDays(candidate.recordType),
+      details: { status: application.status, lastChangedAt: candidate.lastChangedAt, s3Objects },
+    });
+  });
+}
+
+async function purgeVendorForm(candidate: PurgeCandidate): Promise<void> {
+  const [vendorForm] = await db!.select().from(vendorForms).where(eq(vendorForms.id, candidate.recordId)).limit(1);
+  if (!vendorForm) {
+    return;
+  }
+  if (await isOnLegalHold(candidate.applicationId)) {
+    throw new Error('Application was placed on legal hold');
+  }
+
+  const key = s3KeyFromUrl(vendorForm.fileUrl);
+  if (key) {
+    await deleteS3Object(key);
+  }
+
+  await db!.transaction(async (tx) => {
+    await tx.delete(vendorForms).where(eq(vendorForms.id, vendorForm.id));
+    await tx.insert(retentionPurges).values({
+      recordType: 'vendor_form',
+      recordId: vendorForm.id,
+      applicationId: vendorForm.applicationId,
+      retentionDays: getRetentionDays('vendor_form'),
+      details: { fileName: vendorForm.fileName, uploadedAt: vendorForm.uploadedAt, s3Objects: key ? [key] : [] },
+    });
+  });
+}
+
+// One run of the retention job. Each record is purged independently, so one failure
+// (e.g. an S3 error) doesn't stop the rest; failed records are retried on the next run.
+// KV email records are not handled here - they expire through their TTL (see email-queue.ts).
+export async function runRetentionPurge(options: { dryRun?: boolean; batchSize?: number } = {}): Promise<RetentionPurgeResult> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const { dryRun = false, batchSize = 50 } = options;
+  const staleApplications = await findStaleOpenApplications(batchSize);
+  const candidates = [
+    ...(await findExpiredApplications(batchSize)),
+    ...(await findExpiredVendorForms(batchSize)),
+  ];
+
+  const result: RetentionPurgeResult = {
+    dryRun,
+    policy: getRetentionPolicy(),
+    staleApplications,
+    expired: [],
+    candidates,
+    purged: [],
+    errors: [],
+    idempotencyKeysPurged: 0,
+  };
+  if (dryRun) {
+    return result;
+  }
+
+  // Stored submission responses are only kept for the replay window
+  result.idempotencyKeysPurged = await purgeExpiredIdempotencyKeys();
+
+  // Abandoned applications would otherwise never reach a purgeable status
+  for (const stale of staleApplications) {
+    try {
+      await transitionApplicationStatus(stale.applicationId, 'expired', {
+        changedBy: 'retention-purge',
+        reason: `No status change in ${getRetentionDays('open_application')} days`,
+      });
+      result.expired.push(stale);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Failed to expire application #${stale.applicationId}:`, message);
+      result.errors.push({ recordType: stale.recordType, recordId: stale.recordId, error: message });
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      if (candidate.recordType === 'vendor_form') {
+        await purgeVendorForm(candidate);
+      } else {
+        await purgeApplication(candidate);
+      }
+      result.purged.push(candidate);
+      console.log(`🗑️ Purged ${candidate.recordType} #${candidate.recordId}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Failed to purge ${candidate.recordType} #${candidate.recordId}:`, message);
+      result.errors.push({ recordType: candidate.recordType, recordId: candidate.recordId, error: message });
+    }
+  }
+
+  console.log(`🧹 Retention purge complete: ${result.expired.length} expired, ${result.purged.length} purged, ${result.errors.length} failed`);
+  return result;
+}
+
+// Place or lift a legal hold. Returns null if the application doesn't exist.
+export async function setLegalHold(
+  applicationId: number,
+  hold: { legalHold: boolean; reason?: string; setBy: string }
+): Promise<CustomerApplication | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [application] = await db
+    .update(customerApplications)
+    .set({
+      legalHold: hold.legalHold,
+      legalHoldReason: hold.legalHold ? hold.reason ?? null : null,
+      legalHoldSetBy: hold.setBy,
+      legalHoldSetAt: new Date(),
+    })
+    .where(eq(customerApplications.id, applicationId))
+    .returning();
+
+  if (application) {
+    console.log(`⚖️ Legal hold ${hold.legalHold ? 'placed on' : 'lifted from'} application #${applicationId} by ${hold.setBy}`);
+  }
+  return application ?? null;
+}
+
+export async function listLegalHolds() {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  return db
+    .select({
+      applicationId: customerApplications.id,
+      legalEntityName: customerApplications.legalEntityName,
+      status: customerApplications.status,
+      legalHoldReason: customerApplications.legalHoldReason,
+      legalHoldSetBy: customerApplications.legalHoldSetBy,
+      legalHoldSetAt: customerApplications.legalHoldSetAt,
+    })
+    .from(customerApplications)
+    .where(eq(customerApplications.legalHold, true))
+    .orderBy(customerApplications.legalHoldSetAt);
+}
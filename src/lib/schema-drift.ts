@@ -0,0 +1,166 @@
+// Compares a live database with src/lib/schema.ts. migrations/*.sql is the only way
+// the database changes (run_migration.sh); this catches a schema.ts change that shipped
+// without its migration, or a migration that never ran, before the code is deployed.
+import { is, sql } from 'drizzle-orm';
+import { PgDialect, PgTable, getTableConfig } from 'drizzle-orm/pg-core';
+import { db } from '@/lib/db';
+import * as schema from '@/lib/schema';
+
+export interface SchemaDriftReport {
+  ok: boolean;
+  checkedTables: string[];
+  missingTables: string[];
+  missingColumns: string[];
+  columnMismatches: { column: string; expected: string; actual: string }[];
+  missingIndexes: string[];
+  missingForeignKeys: string[];
+  constraintMismatches: { constraint: string; expected: string; actual: string | null }[];
+  // In the database but not in schema.ts (legacy columns kept for old rows). Reported, not a failure.
+  extraColumns: string[];
+}
+
+// Drizzle SQL type → information_schema udt_name
+const UDT_NAMES: Record<string, string> = {
+  serial: 'int4',
+  integer: 'int4',
+  text: 'text',
+  boolean: 'bool',
+  timestamp: 'timestamp',
+  jsonb: 'jsonb',
+};
+
+type ColumnRow = { table_schema: string; table_name: string; column_name: string; udt_name: string; is_nullable: string };
+type IndexRow = { schemaname: string; indexname: string };
+type ConstraintRow = { table_schema: string; table_name: string; name: string; type: string; definition: string };
+
+// Allowed values of an IN-list CHECK, however Postgres chose to print it
+function checkLiterals(definition: string): string {
+  return Array.from(definition.matchAll(/'((?:[^']|'')*)'/g), match => match[1]).sort().join(', ');
+}
+
+function schemaTables(): PgTable[] {
+  return (Object.values(schema) as unknown[]).filter((value): value is PgTable => is(value, PgTable));
+}
+
+export async function checkSchemaDrift(): Promise<SchemaDriftReport> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const tables = schemaTables().map(table => getTableConfig(table));
+  const schemaNames = Array.from(new Set(tables.map(table => table.schema ?? 'public')));
+  const schemaList = sql.join(schemaNames.map(name => sql`${name}`), sql`, `);
+
+  const columnRows = await db.execute<ColumnRow>(sql`
+    SELECT table_schema, table_name, column_name, udt_name, is_nullable
+    FROM information_schema.columns
+    WHERE table_schema IN (${schemaList})`);
+  const indexRows = await db.execute<IndexRow>(sql`
+    SELECT schemaname, indexname FROM pg_indexes
+    WHERE schemaname IN (${schemaList})`);
+  const constraintRows = await db.execute<ConstraintRow>(sql`
+    SELECT n.nspname AS table_schema, c.relname AS table_name, con.conname AS name,
+           con.contype AS type, pg_get_constraintdef(con.oid) AS definition
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname IN (${schemaList}) AND con.contype IN ('c', 'f')`);
+
+  const dialect = new PgDialect();
+  const report: SchemaDriftReport = {
+    ok: true,
+    checkedTables: [],
+    missingTables: [],
+    missingColumns: [],
+    columnMismatches: [],
+    missingIndexes: [],
+    missingForeignKeys: [],
+    constraintMismatches: [],
+    extraColumns: [],
+  };
+
+  for (const table of tables) {
+    const tableSchema = table.schema ?? 'public';
+    const qualifiedName = `${tableSchema}.${table.name}`;
+    report.checkedTables.push(qualifiedName);
+
+    const liveColumns = new Map(
+      columnRows
+        .filter(row => row.table_schema === tableSchema && row.table_name === table.name)
+        .map(row => [row.column_name, row])
+    );
+    if (liveColumns.size === 0) {
+      report.missingTables.push(qualifiedName);
+      continue;
+    }
+
+    for (const column of table.columns) {
+      const columnName = `${qualifiedName}.${column.name}`;
+      const live = liveColumns.get(column.name);
+      if (!live) {
+        report.missingColumns.push(columnName);
+        continue;
+      }
+
+      const expectedType = UDT_NAMES[column.getSQLType()] ?? column.getSQLType();
+      if (live.udt_name !== expectedType) {
+        report.columnMismatches.push({ column: columnName, expected: expectedType, actual: live.udt_name });
+      }
+      const liveNotNull = live.is_nullable === 'NO';
+      if (liveNotNull !== column.notNull) {
+        report.columnMismatches.push({
+          column: columnName,
+          expected: column.notNull ? 'NOT NULL' : 'nullable',
+          actual: liveNotNull ? 'NOT NULL' : 'nullable',
+        });
+      }
+    }
+
+    const declaredColumns = new Set(table.columns.map(column => column.name));
+    for (const name of Array.from(liveColumns.keys())) {
+      if (!declaredColumns.has(name)) {
+        report.extraColumns.push(`${qualifiedName}.${name}`);
+      }
+    }
+
+    for (const index of table.indexes) {
+      const indexName = index.config.name;
+      if (indexName && !indexRows.some(row => row.schemaname === tableSchema && row.indexname === indexName)) {
+        report.missingIndexes.push(`${tableSchema}.${indexName}`);
+      }
+    }
+
+    const liveConstraints = constraintRows.filter(row => row.table_schema === tableSchema && row.table_name === table.name);
+
+    for (const foreignKey of table.foreignKeys) {
+      const reference = foreignKey.reference();
+      const columns = reference.columns.map(column => column.name).join(', ');
+      const foreignTable = getTableConfig(reference.foreignTable);
+      const exists = liveConstraints.some(row => {
+        const match = row.type === 'f' && row.definition.match(/^FOREIGN KEY \((.+?)\) REFERENCES (?:[\w"]+\.)?"?(\w+)"?\(/);
+        return !!match && match[1] === columns && match[2] === foreignTable.name;
+      });
+      if (!exists) {
+        report.missingForeignKeys.push(`${qualifiedName}(${columns}) → ${foreignTable.schema ?? 'public'}.${foreignTable.name}`);
+      }
+    }
+
+    for (const constraint of table.checks) {
+      const expected = checkLiterals(dialect.sqlToQuery(constraint.value).sql);
+      const live = liveConstraints.find(row => row.type === 'c' && row.name === constraint.name);
+      const actual = live ? checkLiterals(live.definition) : null;
+      if (actual !== expected) {
+        report.constraintMismatches.push({ constraint: `${qualifiedName}.${constraint.name}`, expected, actual });
+      }
+    }
+  }
+
+  report.ok = report.missingTables.length === 0
+    && report.missingColumns.length === 0
+    && report.columnMismatches.length === 0
+    && report.missingIndexes.length === 0
+    && report.missingForeignKeys.length === 0
+    && report.constraintMismatches.length === 0;
+
+  return report;
+}
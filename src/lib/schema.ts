@@ -1,30 +1,105 @@
-import { pgTable, serial, text, timestamp, boolean, integer, index, pgSchema } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, timestamp, boolean, integer, index, pgSchema, jsonb, uniqueIndex, check } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
+import { encryptedText } from './field-encryption';
+import type { ApiKeyScope } from './api-keys';
+import type { WebhookEvent } from './webhooks';
+import type { InformationRequestAnswer, InformationRequestItem } from './information-requests';
+import type { ScorecardDefinition } from './validation';
+import type { AdverseActionReason } from './reason-codes';
 
 // Define schema to match database structure
 export const applicationsSchema = pgSchema('applications'); // Main schema: verceldb.applications
 
 // === APPLICATIONS SCHEMA TABLES (main application tables) ===
 
+// Customers table (in applications schema)
+// One account per business; repeat applications, reapplications and credit-limit
+// revisions link to it. Matched on EIN (via its blind index), or normalized legal
+// name when no valid EIN was given (see customers.ts).
+export const customers = applicationsSchema.table('customers', {
+  id: serial('id').primaryKey(),
+  einHash: text('ein_hash'), // Blind index of the normalized EIN, null when the applicant gave no valid EIN
+  normalizedName: text('normalized_name').notNull(),
+  legalEntityName: text('legal_entity_name').notNull(), // As given on the most recent application
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  einHashIdx: uniqueIndex('idx_customers_ein_hash').on(table.einHash),
+  normalizedNameIdx: index('idx_customers_normalized_name').on(table.normalizedName),
+}));
+
 // Customer Applications table (in applications schema)
 export const customerApplications = applicationsSchema.table('customer_applications', {
   id: serial('id').primaryKey(),
+  customerId: integer('customer_id').references(() => customers.id),
+  applicationType: text('application_type').default('new').notNull(), // 'new', 'repeat', 'reapplication', 'credit_limit_revision'
   legalEntityName: text('legal_entity_name').notNull(),
   dba: text('dba'),
-  taxEIN: text('tax_ein').notNull(),
+  taxEIN: encryptedText('tax_ein').notNull(),
+  taxEinHash: text('tax_ein_hash'), // Blind index for duplicate-EIN lookups (see field-encryption.ts)
   dunsNumber: text('duns_number'),
   phoneNo: text('phone_no').notNull(),
-  billToAddress: text('bill_to_address').notNull(),
-  billToCityStateZip: text('bill_to_city_state_zip').notNull(),
-  shipToAddress: text('ship_to_address').notNull(),
-  shipToCityStateZip: text('ship_to_city_state_zip').notNull(),
+  billToAddress: text('bill_to_address').notNull(), // Street line
+  billToCity: text('bill_to_city'),
+  billToState: text('bill_to_state'),
+  billToPostalCode: text('bill_to_postal_code'),
+  billToCountry: text('bill_to_country').default('US').notNull(),
+  shipToAddress: text('ship_to_address').notNull(), // Street line
+  shipToCity: text('ship_to_city'),
+  shipToState: text('ship_to_state'),
+  shipToPostalCode: text('ship_to_postal_code'),
+  shipToCountry: text('ship_to_country').default('US').notNull(),
   buyerNameEmail: text('buyer_name_email').notNull(),
   accountsPayableNameEmail: text('accounts_payable_name_email').notNull(),
   wantInvoicesEmailed: boolean('want_invoices_emailed').default(false),
   invoiceEmail: text('invoice_email'),
+  // Business profile
+  industry: text('industry'),
+  companyType: text('company_type'),
+  numberOfEmployees: text('number_of_employees'),
+  yearsSinceIncorporation: text('years_since_incorporation'),
+  stateIncorporated: text('state_incorporated'),
+  companyValuation: text('company_valuation'),
+  businessWebsite: text('business_website'),
+  businessDescription: text('business_description'),
+  // Credit terms
+  requestedCreditAmount: integer('requested_credit_amount'), // Whole dollars as entered on the form
+  isTaxExempt: boolean('is_tax_exempt'),
+  usesPaymentPortal: boolean('uses_payment_portal'),
+  referenceUploadMethod: text('reference_upload_method'), // 'manual' or 'upload'
   termsAgreed: boolean('terms_agreed').notNull(),
+  status: text('status').default('submitted').notNull(), // See APPLICATION_STATUSES in application-status.ts
+  // Saved-but-unsubmitted form (status 'draft'): the partial form as encrypted JSON, and the
+  // SHA-256 of the token in the emailed resume link. Both are cleared on submission.
+  draftData: encryptedText('draft_data'),
+  resumeTokenHash: text('resume_token_hash'),
+  // Legal hold exempts the application (and its signature, files and snapshot) from retention purges
+  legalHold: boolean('legal_hold').default(false).notNull(),
+  legalHoldReason: text('legal_hold_reason'),
+  legalHoldSetBy: text('legal_hold_set_by'),
+  legalHoldSetAt: timestamp('legal_hold_set_at'),
+  apiKeyId: integer('api_key_id').references(() => apiKeys.id), // Set when submitted through the partner API
+  // Set for paper/spreadsheet applications brought in by a legacy import. They arrive already
+  // decided and are never analyzed or emailed about.
+  legacyImportId: integer('legacy_import_id').references(() => legacyImports.id),
+  legacyReference: text('legacy_reference'), // File or account number in the old records
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  taxEinHashIdx: index('idx_customer_applications_tax_ein_hash').on(table.taxEinHash),
+  statusCheck: check('customer_applications_status_check', sql`${table.status} IN ('draft', 'submitted', 'signed', 'analyzed', 'pending_decision', 'approved', 'denied', 'withdrawn', 'expired')`),
+  applicationTypeCheck: check('customer_applications_application_type_check', sql`${table.applicationType} IN ('new', 'repeat', 'reapplication', 'credit_limit_revision')`),
+}));
+
+// Application Status History table (in applications schema)
+export const applicationStatusHistory = applicationsSchema.table('application_status_history', {
+  id: serial('id').primaryKey(),
+  applicationId: integer('application_id').references(() => customerApplications.id).notNull(),
+  fromStatus: text('from_status'), // null for the initial status
+  toStatus: text('to_status').notNull(),
+  changedBy: text('changed_by').notNull(), // 'customer', 'ai-processor', 'system' or an approver email
+  reason: text('reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
 // Trade References table (in applications schema)
@@ -33,10 +108,39 @@ export const tradeReferences = applicationsSchema.table('trade_references', {
   applicationId: integer('application_id').references(() => customerApplications.id),
   name: text('name'),
   faxNo: text('fax_no'),
-  address: text('address'),
+  address: text('address'), // Street line
+  city: text('city'),
+  state: text('state'),
+  postalCode: text('postal_code'),
+  country: text('country').default('US').notNull(),
   email: text('email'),
-  cityStateZip: text('city_state_zip'),
   attn: text('attn'),
+  phone: text('phone'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Bank References table (in applications schema)
+export const bankReferences = applicationsSchema.table('bank_references', {
+  id: serial('id').primaryKey(),
+  applicationId: integer('application_id').references(() => customerApplications.id).notNull(),
+  bankName: text('bank_name').notNull(),
+  accountNumber: encryptedText('account_number'),
+  contactName: text('contact_name'),
+  contactPhone: text('contact_phone'),
+  contactEmail: text('contact_email'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Additional Authorized Purchasers table (in applications schema)
+export const authorizedPurchasers = applicationsSchema.table('authorized_purchasers', {
+  id: serial('id').primaryKey(),
+  applicationId: integer('application_id').references(() => customerApplications.id).notNull(),
+  name: text('name').notNull(),
+  title: text('title'),
+  email: text('email'),
+  phone: text('phone'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -49,6 +153,8 @@ export const digitalSignatures = applicationsSchema.table('digital_signatures',
   ipAddress: text('ip_address').notNull(),
   userAgent: text('user_agent').notNull(),
   signedDocumentUrl: text('signed_document_url').notNull(),
+  termsVersion: text('terms_version'), // alliance_chemical.terms version the customer agreed to (null for legacy signatures)
+  termsContentHash: text('terms_content_hash'), // SHA-256 of that version's text, see terms.ts
   signedAt: timestamp('signed_at').defaultNow().notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -62,6 +168,7 @@ export const vendorForms = applicationsSchema.table('vendor_forms', {
   fileUrl: text('file_url').notNull(),
   fileType: text('file_type').notNull(),
   fileSize: integer('file_size').notNull(),
+  informationRequestId: integer('information_request_id').references(() => informationRequests.id), // Set when uploaded in answer to a request
   uploadedAt: timestamp('uploaded_at').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -79,13 +186,283 @@ export const creditApprovals = applicationsSchema.table('credit_approvals', {
   customerNotified: boolean('customer_notified').default(false),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  decisionCheck: check('credit_approvals_decision_check', sql`${table.decision} IN ('APPROVE', 'DENY', 'PENDING')`),
+}));
+
+// Credit Analyses table (in applications schema)
+// One row per AI analysis run; version counts runs per application (1 = at submission)
+export const creditAnalyses = applicationsSchema.table('credit_analyses', {
+  id: serial('id').primaryKey(),
+  applicationId: integer('application_id').references(() => customerApplications.id).notNull(),
+  version: integer('version').notNull(),
+  trigger: text('trigger').notNull(), // 'submission', 'rerun' or 'information_request'
+  status: text('status').notNull(), // 'completed' or 'failed'
+  ruleVersion: text('rule_version').notNull(),
+  scorecardVersion: integer('scorecard_version'), // null for runs before scorecards were versioned
+  fraudModel: text('fraud_model'), // null when the rules-only fallback was used
+  creditModel: text('credit_model'), // null when the rules-only fallback was used
+  fraudOutputError: text('fraud_output_error'), // Why the fraud agent's answer was rejected after the repair retry
+  creditOutputError: text('credit_output_error'), // Same for the credit agent
+  decision: text('decision'), // 'APPROVE', 'CONDITIONAL', 'DECLINE', 'REVIEW'
+  creditScore: integer('credit_score'),
+  riskLevel: text('risk_level'),
+  creditLimit: integer('credit_limit'), // Whole dollars
+  paymentTerms: text('payment_terms'),
+  fraudRiskScore: integer('fraud_risk_score'),
+  reasonCodes: jsonb('reason_codes').$type<AdverseActionReason[]>(), // Most score impact first; null before reason codes
+  input: jsonb('input').notNull(),
+  output: jsonb('output'),
+  error: text('error'),
+  startedAt: timestamp('started_at').notNull(),
+  completedAt: timestamp('completed_at').notNull(),
+  durationMs: integer('duration_ms').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  applicationVersionIdx: uniqueIndex('idx_credit_analyses_application_version').on(table.applicationId, table.version),
+}));
+
+// Application Submissions table (in applications schema)
+// Exactly what the customer sent, as validated by POST /api/applications. Never updated
+// except to re-encrypt the payload under a new key; payloadHash proves it is unchanged.
+export const applicationSubmissions = applicationsSchema.table('application_submissions', {
+  id: serial('id').primaryKey(),
+  applicationId: integer('application_id').references(() => customerApplications.id).notNull(),
+  payload: encryptedText('payload').notNull(), // Canonical JSON of the validated request body (contains EIN and bank details)
+  payloadHash: text('payload_hash').notNull(), // SHA-256 hex of the canonical JSON
+  ipAddress: text('ip_address').notNull(),
+  userAgent: text('user_agent').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  applicationIdx: uniqueIndex('idx_application_submissions_application_id').on(table.applicationId),
+}));
+
+// Retention Purges table (in applications schema)
+// Audit trail of what the retention job deleted. No foreign keys: the records are gone.
+export const retentionPurges = applicationsSchema.table('retention_purges', {
+  id: serial('id').primaryKey(),
+  recordType: text('record_type').notNull(), // See RETENTION_RECORD_TYPES in retention-policy.ts
+  recordId: integer('record_id').notNull(),
+  applicationId: integer('application_id'),
+  retentionDays: integer('retention_days').notNull(),
+  details: jsonb('details'), // Status, timestamps and S3 objects removed
+  purgedAt: timestamp('purged_at').defaultNow().notNull(),
+});
+
+// Idempotency Keys table (in applications schema)
+// Client-supplied Idempotency-Key per endpoint and the response first returned for it.
+// status_code is null while the first request is still running.
+export const idempotencyKeys = applicationsSchema.table('idempotency_keys', {
+  id: serial('id').primaryKey(),
+  endpoint: text('endpoint').notNull(), // e.g. 'POST /api/applications'
+  idempotencyKey: text('idempotency_key').notNull(),
+  requestHash: text('request_hash').notNull(), // SHA-256 of the canonical request body
+  statusCode: integer('status_code'),
+  responseBody: jsonb('response_body'),
+  applicationId: integer('application_id'), // No foreign key, so purging an application isn't blocked; see retention.ts
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+}, (table) => ({
+  endpointKeyIdx: uniqueIndex('idx_idempotency_keys_endpoint_key').on(table.endpoint, table.idempotencyKey),
+  createdAtIdx: index('idx_idempotency_keys_created_at').on(table.createdAt),
+}));
+
+// API Keys table (in applications schema)
+// Credentials for the partner API (/api/v1). Only the SHA-256 of a key is stored; the
+// rate window columns count requests in the current minute (see api-keys.ts).
+export const apiKeys = applicationsSchema.table('api_keys', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(), // Partner the key was issued to
+  keyPrefix: text('key_prefix').notNull(), // First characters of the key, to recognize it in lists and logs
+  keyHash: text('key_hash').notNull(),
+  scopes: jsonb('scopes').$type<ApiKeyScope[]>().notNull(), // See API_KEY_SCOPES in validation.ts
+  rateLimitPerMinute: integer('rate_limit_per_minute').default(60).notNull(),
+  rateWindowStart: timestamp('rate_window_start'),
+  rateWindowCount: integer('rate_window_count').default(0).notNull(),
+  createdBy: text('created_by').notNull(),
+  lastUsedAt: timestamp('last_used_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  keyHashIdx: uniqueIndex('idx_api_keys_key_hash').on(table.keyHash),
+}));
+
+// Webhook Subscriptions table (in applications schema)
+// Downstream systems notified of application lifecycle events (see webhooks.ts). The signing
+// secret is encrypted because it has to be read back to sign every delivery.
+export const webhookSubscriptions = applicationsSchema.table('webhook_subscriptions', {
+  id: serial('id').primaryKey(),
+  url: text('url').notNull(),
+  description: text('description'),
+  events: jsonb('events').$type<WebhookEvent[]>().notNull(), // See WEBHOOK_EVENTS in validation.ts
+  secret: encryptedText('secret').notNull(),
+  createdBy: text('created_by').notNull(),
+  disabledAt: timestamp('disabled_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Webhook Deliveries table (in applications schema)
+// One row per event per subscription: the payload sent and the outcome of each attempt.
+export const webhookDeliveries = applicationsSchema.table('webhook_deliveries', {
+  id: serial('id').primaryKey(),
+  subscriptionId: integer('subscription_id').references(() => webhookSubscriptions.id).notNull(),
+  event: text('event').notNull(),
+  eventId: text('event_id').notNull(), // Same for every subscription receiving the event; receivers dedupe on it
+  applicationId: integer('application_id'), // No foreign key, so purging an application isn't blocked; see retention.ts
+  payload: jsonb('payload').notNull(),
+  status: text('status').default('pending').notNull(), // 'pending', 'delivered', 'failed'
+  attempts: integer('attempts').default(0).notNull(),
+  nextAttemptAt: timestamp('next_attempt_at').defaultNow(), // null once delivered or given up
+  lastAttemptAt: timestamp('last_attempt_at'),
+  lastResponseStatus: integer('last_response_status'),
+  lastError: text('last_error'),
+  deliveredAt: timestamp('delivered_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  nextAttemptIdx: index('idx_webhook_deliveries_next_attempt').on(table.nextAttemptAt),
+  applicationIdx: index('idx_webhook_deliveries_application_id').on(table.applicationId),
+  statusCheck: check('webhook_deliveries_status_check', sql`${table.status} IN ('pending', 'delivered', 'failed')`),
+}));
+
+// Information Requests table (in applications schema)
+// Staff asking the customer for more documents or answers about an application (see
+// information-requests.ts). The customer responds through an emailed link; like draft
+// resume tokens, only the token's SHA-256 is stored.
+export const informationRequests = applicationsSchema.table('information_requests', {
+  id: serial('id').primaryKey(),
+  applicationId: integer('application_id').references(() => customerApplications.id).notNull(),
+  items: jsonb('items').$type<InformationRequestItem[]>().notNull(),
+  message: text('message').notNull(),
+  sentTo: text('sent_to').notNull(),
+  tokenHash: text('token_hash').notNull(),
+  status: text('status').default('open').notNull(), // 'open', 'fulfilled', 'cancelled'
+  requestedBy: text('requested_by').notNull(),
+  answers: jsonb('answers').$type<InformationRequestAnswer[]>(),
+  responseMessage: text('response_message'),
+  fulfilledAt: timestamp('fulfilled_at'),
+  cancelledAt: timestamp('cancelled_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  applicationIdx: index('idx_information_requests_application_id').on(table.applicationId),
+  statusCheck: check('information_requests_status_check', sql`${table.status} IN ('open', 'fulfilled', 'cancelled')`),
+}));
+
+// Legacy Imports table (in applications schema)
+// One row per CSV of historical applications imported (see legacy-import.ts)
+export const legacyImports = applicationsSchema.table('legacy_imports', {
+  id: serial('id').primaryKey(),
+  fileName: text('file_name').notNull(),
+  importedBy: text('imported_by').notNull(),
+  totalRows: integer('total_rows').notNull(),
+  importedRows: integer('imported_rows').default(0).notNull(),
+  skippedRows: integer('skipped_rows').default(0).notNull(), // Invalid, duplicate or failed rows
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+});
+
+// Fraud Rule Hits table (in applications schema)
+// One row per fraud rule that fired during an analysis (see fraud-rule-stats.ts)
+export const fraudRuleHits = applicationsSchema.table('fraud_rule_hits', {
+  id: serial('id').primaryKey(),
+  ruleId: text('rule_id').notNull(), // Rule ID from fraud-rules.json
+  ruleSetVersion: text('rule_set_version').notNull(),
+  applicationId: integer('application_id').references(() => customerApplications.id).notNull(),
+  matches: jsonb('matches').$type<string[]>().notNull(),
+  points: integer('points').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  ruleIdx: index('idx_fraud_rule_hits_rule_id').on(table.ruleId),
+}));
+
+// Scorecards table (in applications schema)
+// One row per saved scorecard version (see scorecard.ts); the highest version is in force
+export const scorecards = applicationsSchema.table('scorecards', {
+  id: serial('id').primaryKey(),
+  version: integer('version').notNull(),
+  definition: jsonb('definition').$type<ScorecardDefinition>().notNull(),
+  changeNote: text('change_note').notNull(),
+  createdBy: text('created_by').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  versionIdx: uniqueIndex('idx_scorecards_version').on(table.version),
+}));
+
+// === ALLIANCE_CHEMICAL SCHEMA TABLES (company-wide tables) ===
+export const allianceChemicalSchema = pgSchema('alliance_chemical');
+
+// Terms table (in alliance_chemical schema)
+// One row per section; a terms version is every row sharing the same version.
+// Section text is never edited in place - changes are published as a new version.
+export const terms = allianceChemicalSchema.table('terms', {
+  id: serial('id').primaryKey(),
+  title: text('title').notNull(),
+  content: text('content').notNull(), // Paragraphs separated by newlines; lines starting with "• " are list items
+  version: text('version').default('1.0').notNull(),
+  orderIndex: integer('order_index').default(0).notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  effectiveDate: timestamp('effective_date').defaultNow().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// International Shipping Requests table (in alliance_chemical schema)
+export const internationalShippingRequests = allianceChemicalSchema.table('international_shipping_requests', {
+  id: serial('id').primaryKey(),
+  firstName: text('first_name').notNull(),
+  lastName: text('last_name').notNull(),
+  email: text('email').notNull(),
+  phone: text('phone').notNull(),
+  company: text('company'),
+  shippingAddress: text('shipping_address').notNull(),
+  addressLine2: text('address_line2'),
+  city: text('city').notNull(),
+  stateProvince: text('state_province').notNull(),
+  postalCode: text('postal_code').notNull(),
+  country: text('country').notNull(),
+  productDescription: text('product_description').notNull(),
+  quantity: text('quantity').notNull(),
+  estimatedValue: text('estimated_value').notNull(),
+  orderRequest: text('order_request').notNull(),
+  specialInstructions: text('special_instructions'),
+  shippingMethod: text('shipping_method').notNull(),
+  customShippingMethod: text('custom_shipping_method'), // When shippingMethod is 'other'
+  urgency: text('urgency').notNull(),
+  trackingRequired: boolean('tracking_required').default(false),
+  insuranceRequired: boolean('insurance_required').default(false),
+  // Customs
+  purposeOfShipment: text('purpose_of_shipment'),
+  customPurpose: text('custom_purpose'), // When purposeOfShipment is 'other'
+  hsCode: text('hs_code'),
+  countryOfOrigin: text('country_of_origin'),
+  status: text('status').default('pending').notNull(), // 'pending', 'quoted', 'shipped'
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  statusCheck: check('international_shipping_requests_status_check', sql`${table.status} IN ('pending', 'quoted', 'shipped')`),
+}));
+
 // Export types for TypeScript inference
+export type Customer = typeof customers.$inferSelect;
 export type CustomerApplication = typeof customerApplications.$inferSelect;
+export type ApplicationStatusHistory = typeof applicationStatusHistory.$inferSelect;
 export type TradeReference = typeof tradeReferences.$inferSelect;
+export type BankReference = typeof bankReferences.$inferSelect;
+export type AuthorizedPurchaser = typeof authorizedPurchasers.$inferSelect;
 export type DigitalSignature = typeof digitalSignatures.$inferSelect;
 export type VendorForm = typeof vendorForms.$inferSelect;
 export type CreditApproval = typeof creditApprovals.$inferSelect;
+export type CreditAnalysis = typeof creditAnalyses.$inferSelect;
+export type ApplicationSubmission = typeof applicationSubmissions.$inferSelect;
+export type RetentionPurge = typeof retentionPurges.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InformationRequest = typeof informationRequests.$inferSelect;
+export type LegacyImport = typeof legacyImports.$inferSelect;
+export type FraudRuleHitRow = typeof fraudRuleHits.$inferSelect;
+export type ScorecardRow = typeof scorecards.$inferSelect;
 
- 
\ No newline at end of file
+ 
+export type TermsSection = typeof terms.$inferSelect;
+export type InternationalShippingRequest = typeof internationalShippingRequests.$inferSelect;
@@ -0,0 +1,165 @@
+import { db } from '@/lib/db';
+import { scorecards } from '@/lib/schema';
+import { desc } from 'drizzle-orm';
+import type { ScorecardDefinition, ScorecardSaveData } from '@/lib/validation';
+
+// The credit scorecard: points behind the system credit score, and the score each
+// recommendation needs with its credit limit, payment terms and conditions. Credit staff
+// save new versions through /api/admin/scorecards; the highest version is in force and is
+// recorded with every analysis run. Version 1 is the scorecard below, used until a
+// version is saved.
+
+export type ScorecardDecision = keyof ScorecardDefinition['tiers'];
+
+export interface Scorecard {
+  version: number;
+  definition: ScorecardDefinition;
+  changeNote: string;
+  createdBy: string;
+  createdAt: Date | null; // null for the built-in version
+}
+
+export const BUILT_IN_SCORECARD: Scorecard = {
+  version: 1,
+  definition: {
+    baseScore: 600,
+    minScore: 150,
+    maxScore: 850,
+    points: {
+      businessRegistered: 60,
+      businessNotRegistered: -200,
+      domainValid: 30,
+      domainSuspicious: -100,
+      testCompany: -300,
+      completeWithDuns: 50,
+      completeWithoutDuns: 20,
+      dunsProvided: 40,
+      dunsMissing: -40,
+      perTradeReference: 20,
+      sameAddress: 20,
+      differentAddress: 10,
+    },
+    testIndicators: ['test', 'demo', 'example', 'fake', 'temp'],
+    tiers: {
+      APPROVE: { minScore: 750, creditLimit: 50000, paymentTerms: 'Net 30', riskLevel: 'LOW', conditions: [] },
+      CONDITIONAL: {
+        minScore: 650,
+        creditLimit: 25000,
+        paymentTerms: 'Net 15',
+        riskLevel: 'MEDIUM',
+        conditions: ['Provide additional trade references', 'Submit recent financial statements'],
+      },
+      REVIEW: {
+        minScore: 500,
+        creditLimit: 10000,
+        paymentTerms: 'COD or Prepayment',
+        riskLevel: 'HIGH',
+        conditions: ['Manual underwriting required', 'Additional documentation needed'],
+      },
+      DECLINE: {
+        creditLimit: 0,
+        paymentTerms: 'Cash in Advance Only',
+        riskLevel: 'HIGH',
+        conditions: ['Credit profile does not meet minimum requirements'],
+      },
+    },
+  },
+  changeNote: 'Built-in scorecard',
+  createdBy: 'system',
+  createdAt: null,
+};
+
+// Thrown when a save was based on a version that is no longer the latest
+export class ScorecardConflictError extends Error {
+  constructor(public readonly currentVersion: number) {
+    super(`The scorecard has changed since it was loaded; version ${currentVersion} is now in force`);
+    this.name = 'ScorecardConflictError';
+  }
+}
+
+// The system recommendation for a credit score
+export function scorecardDecision(definition: ScorecardDefinition, score: number): ScorecardDecision {
+  const { APPROVE, CONDITIONAL, REVIEW } = definition.tiers;
+  if (score >= APPROVE.minScore) return 'APPROVE';
+  if (score >= CONDITIONAL.minScore) return 'CONDITIONAL';
+  if (score >= REVIEW.minScore) return 'REVIEW';
+  return 'DECLINE';
+}
+
+// The scorecard in force
+export async function getCurrentScorecard(): Promise<Scorecard> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [latest] = await db
+    .select()
+    .from(scorecards)
+    .orderBy(desc(scorecards.version))
+    .limit(1);
+
+  return latest ?? BUILT_IN_SCORECARD;
+}
+
+// Every version, newest first, ending with the built-in one
+export async function listScorecards(): Promise<Scorecard[]> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const saved = await db
+    .select()
+    .from(scorecards)
+    .orderBy(desc(scorecards.version));
+
+  return [...saved, BUILT_IN_SCORECARD];
+}
+
+// Save an edited scorecard as the next version. The definition has already been
+// validated by scorecardSaveSchema.
+export async function saveScorecard(data: ScorecardSaveData): Promise<Scorecard> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  try {
+    return await insertNextScorecard(data);
+  } catch (error) {
+    // Before the first save there is no row to lock, so two saves can both insert the
+    // same version; the loser hits idx_scorecards_version
+    if (error instanceof Error && error.message.includes('idx_scorecards_version')) {
+      throw new ScorecardConflictError((await getCurrentScorecard()).version);
+    }
+    throw error;
+  }
+}
+
+async function insertNextScorecard(data: ScorecardSaveData): Promise<Scorecard> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  return db.transaction(async (tx) => {
+    const [latest] = await tx
+      .select({ version: scorecards.version })
+      .from(scorecards)
+      .orderBy(desc(scorecards.version))
+      .limit(1)
+      .for('update');
+
+    const currentVersion = latest?.version ?? BUILT_IN_SCORECARD.version;
+    if (data.basedOnVersion !== currentVersion) {
+      throw new ScorecardConflictError(currentVersion);
+    }
+
+    const [saved] = await tx.insert(scorecards).values({
+      version: currentVersion + 1,
+      definition: data.definition,
+      changeNote: data.changeNote,
+      createdBy: data.createdBy,
+    }).returning();
+
+    console.log(`📊 Scorecard v${saved.version} saved by ${data.createdBy}`);
+    return saved;
+  });
+}
@@ -21,7 +21,12 @@ export const SECURITY_ENV = {
   SIGNATURE_SECRET: process.env.SIGNATURE_SECRET || generateSecureSecret(),
   CSRF_SECRET: process.env.CSRF_SECRET || generateSecureSecret(),
   SESSION_SECRET: process.env.SESSION_SECRET || generateSecureSecret(),
-  ENCRYPTION_KEY: process.env.ENCRYPTION_KEY || generateSecureSecret(),
+  ENCRYPTION_KEY: process.env.ENCRYPTION_KEY, // No generated fallback, see requireSecret()
+  
+  // Field Encryption (see field-encryption.ts)
+  ENCRYPTION_KEY_ID: process.env.ENCRYPTION_KEY_ID || 'k1',
+  ENCRYPTION_PREVIOUS_KEYS: process.env.ENCRYPTION_PREVIOUS_KEYS, // "k0:old-secret,..." kept for decrypting older rows
+  BLIND_INDEX_KEY: process.env.BLIND_INDEX_KEY, // Separate from ENCRYPTION_KEY so key rotation leaves it alone
   
   // Application Security
   NEXT_PUBLIC_BASE_URL: process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000',
@@ -33,10 +38,14 @@ export const SECURITY_ENV = {
   // Admin Authentication
   ADMIN_EMAIL: process.env.ADMIN_EMAIL || 'andre@alliancechemical.com',
   ADMIN_PASSWORD_HASH: process.env.ADMIN_PASSWORD_HASH,
+  ADMIN_TOKEN: process.env.ADMIN_TOKEN, // Required for /admin and /api/admin/* (see admin-auth.ts)
   
   // Rate Limiting Storage (for production, use Redis)
   KV_URL: process.env.KV_URL,
   
+  // Scheduled jobs (Vercel sends "Authorization: Bearer <CRON_SECRET>" with cron requests)
+  CRON_SECRET: process.env.CRON_SECRET,
+  
   // Monitoring and Alerting
   SECURITY_WEBHOOK_URL: process.env.SECURITY_WEBHOOK_URL,
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
@@ -48,6 +57,17 @@ function generateSecureSecret(): string {
   return secret;
 }
 
+// Keys for data that is stored. A generated stand-in would differ per process and be
+// lost on restart, leaving encrypted fields unreadable and blind indexes unmatched, so
+// a missing key is an error rather than a fallback.
+export function requireSecret(name: 'ENCRYPTION_KEY' | 'BLIND_INDEX_KEY'): string {
+  const value = SECURITY_ENV[name];
+  if (!value) {
+    throw new Error(`${name} is not set; sensitive fields cannot be encrypted or looked up without it`);
+  }
+  return value;
+}
+
 // Security Configuration Constants
 export const SECURITY_CONFIG = {
   // Rate Limiting Configuration
@@ -194,6 +214,14 @@ export function validateSecurityConfiguration(): { valid: boolean; errors: strin
       errors.push('SESSION_SECRET must be at least 32 characters in production');
     }
     
+    if (!SECURITY_ENV.ENCRYPTION_KEY || SECURITY_ENV.ENCRYPTION_KEY.length < 32) {
+      errors.push('ENCRYPTION_KEY must be at least 32 characters in production (encrypted fields are unreadable without it)');
+    }
+    
+    if (!SECURITY_ENV.BLIND_INDEX_KEY || SECURITY_ENV.BLIND_INDEX_KEY.length < 32) {
+      errors.push('BLIND_INDEX_KEY must be at least 32 characters in production');
+    }
+    
     if (SECURITY_ENV.NEXT_PUBLIC_BASE_URL === 'http://localhost:3000') {
       errors.push('NEXT_PUBLIC_BASE_URL must be set to production URL');
     }
@@ -201,6 +229,14 @@ export function validateSecurityConfiguration(): { valid: boolean; errors: strin
     if (!SECURITY_ENV.ADMIN_PASSWORD_HASH) {
       errors.push('ADMIN_PASSWORD_HASH is required in production');
     }
+    
+    if (!SECURITY_ENV.CRON_SECRET) {
+      errors.push('CRON_SECRET is required in production (scheduled jobs refuse every request without it)');
+    }
+    
+    if (!SECURITY_ENV.ADMIN_TOKEN || SECURITY_ENV.ADMIN_TOKEN.length < 32) {
+      errors.push('ADMIN_TOKEN must be at least 32 characters in production (admin routes refuse every request without it)');
+    }
   }
   
   // AWS configuration validation
@@ -256,7 +292,7 @@ export const SecurityUtils = {
   // Encrypt sensitive data
   encrypt(text: string): string {
     const algorithm = 'aes-256-gcm';
-    const key = crypto.scryptSync(SECURITY_ENV.ENCRYPTION_KEY, 'salt', 32);
+    const key = crypto.scryptSync(requireSecret('ENCRYPTION_KEY'), 'salt', 32);
     const iv = crypto.randomBytes(16);
     const cipher = crypto.createCipher(algorithm, key);
     
@@ -269,7 +305,7 @@ export const SecurityUtils = {
   // Decrypt sensitive data
   decrypt(encryptedData: string): string {
     const algorithm = 'aes-256-gcm';
-    const key = crypto.scryptSync(SECURITY_ENV.ENCRYPTION_KEY, 'salt', 32);
+    const key = crypto.scryptSync(requireSecret('ENCRYPTION_KEY'), 'salt', 32);
     const [ivHex, encrypted] = encryptedData.split(':');
     const iv = Buffer.from(ivHex, 'hex');
     const decipher = crypto.createDecipher(algorithm, key);
@@ -1,6 +1,5 @@
 import crypto from 'crypto'
 import { NextRequest } from 'next/server'
-import { z } from 'zod'
 import SECURITY_CONFIG from './security-config'
 
 // Import security configuration from centralized config file
@@ -329,44 +328,4 @@ export class SecurityLogger {
   }
 }
 
-// Validation schemas with security enhancements
-export const secureApplicationSchema = z.object({
-  legalEntityName: z.string()
-    .min(1, { message: "Legal Entity Name is required" })
-    .max(SECURITY_CONFIG.INPUT_VALIDATION.MAX_NAME_LENGTH, { message: "Legal Entity Name is too long" })
-    .transform((val) => InputSanitizer.sanitizeString(val)),
-  
-  dba: z.string()
-    .max(SECURITY_CONFIG.INPUT_VALIDATION.MAX_NAME_LENGTH, { message: "DBA is too long" })
-    .optional()
-    .transform((val) => val ? InputSanitizer.sanitizeString(val) : val),
-    
-  taxEIN: z.string()
-    .min(1, { message: "Tax EIN is required" })
-    .regex(/^(\d{9}|\d{2}-\d{7})$/, { 
-      message: "Tax EIN must be 9 digits or XX-XXXXXXX format" 
-    })
-    .transform((val) => InputSanitizer.sanitizeString(val)),
-    
-  phoneNo: z.string()
-    .min(1, { message: "Phone Number is required" })
-    .max(SECURITY_CONFIG.INPUT_VALIDATION.MAX_PHONE_LENGTH, { message: "Phone Number is too long" })
-    .regex(/^[\d\s\-\(\)\+\.]+$/, { message: "Invalid phone number format" })
-    .transform((val) => InputSanitizer.sanitizeString(val)),
-    
-  buyerNameEmail: z.string()
-    .min(1, { message: "Buyer Name/Email is required" })
-    .max(SECURITY_CONFIG.INPUT_VALIDATION.MAX_EMAIL_LENGTH, { message: "Email is too long" })
-    .email({ message: "Invalid email format" })
-    .transform((val) => InputSanitizer.sanitizeEmail(val)),
-    
-  accountsPayableNameEmail: z.string()
-    .min(1, { message: "Accounts Payable Name/Email is required" })
-    .max(SECURITY_CONFIG.INPUT_VALIDATION.MAX_EMAIL_LENGTH, { message: "Email is too long" })
-    .email({ message: "Invalid email format" })
-    .transform((val) => InputSanitizer.sanitizeEmail(val)),
-    
-  // Add more fields as needed...
-})
-
-export type SecureApplicationData = z.infer<typeof secureApplicationSchema> 
\ No newline at end of file
+// Application field validation lives in validation.ts, shared with the form
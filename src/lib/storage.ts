@@ -0,0 +1,79 @@
+import { S3Client, ListObjectsV2Command, DeleteObjectsCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import {
+  AWS_ACCESS_KEY_ID,
+  AWS_SECRET_ACCESS_KEY,
+  AWS_REGION,
+  AWS_S3_BUCKET_NAME
+} from '@/lib/config';
+
+// Initialize S3 client only if credentials are provided
+export let s3Client: S3Client | null = null;
+if (AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY && AWS_REGION && AWS_S3_BUCKET_NAME) {
+  try {
+    s3Client = new S3Client({
+      region: AWS_REGION,
+      credentials: {
+        accessKeyId: AWS_ACCESS_KEY_ID,
+        secretAccessKey: AWS_SECRET_ACCESS_KEY,
+      },
+    });
+    console.log(`S3 client initialized with region: ${AWS_REGION}`);
+  } catch (error) {
+    console.error('Failed to initialize S3 client:', error);
+  }
+} else {
+  console.warn("AWS S3 credentials or region/bucket not fully configured. File upload API will not function.");
+}
+
+// Uploaded documents for an application live under this prefix
+export function vendorFormPrefix(applicationId: number): string {
+  return `vendor-forms/${applicationId}/`;
+}
+
+// vendor_forms.file_url is stored as s3://bucket/key
+export function s3KeyFromUrl(fileUrl: string): string | null {
+  const match = fileUrl.match(/^s3:\/\/[^/]+\/(.+)$/);
+  return match ? match[1] : null;
+}
+
+function requireS3(): S3Client {
+  if (!s3Client || !AWS_S3_BUCKET_NAME) {
+    throw new Error('S3 is not configured');
+  }
+  return s3Client;
+}
+
+export async function deleteS3Object(key: string): Promise<void> {
+  await requireS3().send(new DeleteObjectCommand({ Bucket: AWS_S3_BUCKET_NAME, Key: key }));
+}
+
+// Delete every object under vendor-forms/{applicationId}/. Returns the keys removed.
+export async function deleteVendorFormObjects(applicationId: number): Promise<string[]> {
+  const client = requireS3();
+  const deleted: string[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const listing = await client.send(new ListObjectsV2Command({
+      Bucket: AWS_S3_BUCKET_NAME,
+      Prefix: vendorFormPrefix(applicationId),
+      ContinuationToken: continuationToken,
+    }));
+
+    const keys = (listing.Contents ?? []).map(object => object.Key).filter((key): key is string => !!key);
+    if (keys.length > 0) {
+      const result = await client.send(new DeleteObjectsCommand({
+        Bucket: AWS_S3_BUCKET_NAME,
+        Delete: { Objects: keys.map(Key => ({ Key })), Quiet: true },
+      }));
+      if (result.Errors && result.Errors.length > 0) {
+        throw new Error(`Failed to delete ${result.Errors.length} S3 object(s) under ${vendorFormPrefix(applicationId)}: ${result.Errors[0].Message}`);
+      }
+      deleted.push(...keys);
+    }
+
+    continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return deleted;
+}
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { db, type DbExecutor } from '@/lib/db';
+import { applicationSubmissions, type ApplicationSubmission } from '@/lib/schema';
+import { eq } from 'drizzle-orm';
+
+// JSON with object keys sorted at every level, so the same payload always hashes the same
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.keys(val).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = val[key];
+        return sorted;
+      }, {});
+    }
+    return val;
+  });
+}
+
+export function hashSubmissionPayload(payloadJson: string): string {
+  return crypto.createHash('sha256').update(payloadJson, 'utf8').digest('hex');
+}
+
+// Store the validated request body exactly as received. One snapshot per application.
+export async function recordSubmissionSnapshot(snapshot: {
+  applicationId: number;
+  payload: unknown;
+  ipAddress: string;
+  userAgent: string;
+}, executor: DbExecutor | null = db): Promise<ApplicationSubmission> {
+  if (!executor) {
+    throw new Error('Database connection not available');
+  }
+
+  const payloadJson = canonicalJson(snapshot.payload);
+  const [submission] = await executor.insert(applicationSubmissions).values({
+    applicationId: snapshot.applicationId,
+    payload: payloadJson,
+    payloadHash: hashSubmissionPayload(payloadJson),
+    ipAddress: snapshot.ipAddress,
+    userAgent: snapshot.userAgent,
+  }).returning();
+
+  console.log(`🧾 Submission snapshot stored for application #${snapshot.applicationId} (sha256 ${submission.payloadHash.slice(0, 12)}…)`);
+  return submission;
+}
+
+// The original submission with its payload parsed. hashVerified is false if the stored
+// payload no longer matches the hash recorded at submission time.
+export async function getSubmissionSnapshot(applicationId: number) {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [submission] = await db
+    .select()
+    .from(applicationSubmissions)
+    .where(eq(applicationSubmissions.applicationId, applicationId))
+    .limit(1);
+
+  if (!submission) {
+    return null;
+  }
+
+  return {
+    id: submission.id,
+    applicationId: submission.applicationId,
+    payload: JSON.parse(submission.payload) as Record<string, unknown>,
+    payloadHash: submission.payloadHash,
+    hashVerified: hashSubmissionPayload(submission.payload) === submission.payloadHash,
+    ipAddress: submission.ipAddress,
+    userAgent: submission.userAgent,
+    createdAt: submission.createdAt,
+  };
+}
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import { terms } from '@/lib/schema';
+import { and, asc, desc, eq, lte } from 'drizzle-orm';
+
+export interface TermsDocument {
+  version: string;
+  effectiveDate: Date;
+  sections: { title: string; content: string }[];
+  contentHash: string;
+}
+
+// SHA-256 over the ordered section titles and text. Stored with each signature so
+// we can later prove exactly which wording a customer agreed to.
+export function hashTermsSections(sections: { title: string; content: string }[]): string {
+  const canonical = JSON.stringify(sections.map(section => [section.title, section.content]));
+  return crypto.createHash('sha256').update(canonical, 'utf8').digest('hex');
+}
+
+// All sections of one terms version, in display order (active or not)
+export async function getTermsVersion(version: string): Promise<TermsDocument | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const rows = await db
+    .select()
+    .from(terms)
+    .where(eq(terms.version, version))
+    .orderBy(asc(terms.orderIndex), asc(terms.id));
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const sections = rows.map(row => ({ title: row.title, content: row.content }));
+  return {
+    version,
+    effectiveDate: rows[0].effectiveDate,
+    sections,
+    contentHash: hashTermsSections(sections),
+  };
+}
+
+// The version customers sign today: the active version with the latest effective date
+export async function getCurrentTerms(): Promise<TermsDocument | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [latest] = await db
+    .select({ version: terms.version })
+    .from(terms)
+    .where(and(eq(terms.isActive, true), lte(terms.effectiveDate, new Date())))
+    .orderBy(desc(terms.effectiveDate), desc(terms.id))
+    .limit(1);
+
+  return latest ? getTermsVersion(latest.version) : null;
+}
@@ -1,59 +1,305 @@
 import { z } from 'zod';
 
-// Customer Application Validation Schema
-export const customerApplicationSchema = z.object({
-  legalEntityName: z.string().optional(),
-  dba: z.string().optional(),
-  taxEIN: z.string().optional(),
-  dunsNumber: z.string().optional(),
-  phoneNo: z.string().optional(),
-  billToAddress: z.string().optional(),
-  billToCity: z.string().optional(),
-  billToState: z.string().optional(),
-  billToZip: z.string().optional(),
-  shipToAddress: z.string().optional(),
-  shipToCity: z.string().optional(),
-  shipToState: z.string().optional(),
-  shipToZip: z.string().optional(),
-  buyerNameEmail: z.string().optional(),
-  accountsPayableNameEmail: z.string().optional(),
-  wantInvoicesEmailed: z.boolean().optional(),
-  invoiceEmail: z.string().optional(),
-  // Trade references - updated to separate fields
-  trade1Name: z.string().optional(),
-  trade1FaxNo: z.string().optional(),
-  trade1Address: z.string().optional(),
-  trade1Email: z.string().optional(),
-  trade1City: z.string().optional(),
-  trade1State: z.string().optional(),
-  trade1Zip: z.string().optional(),
-  trade1Attn: z.string().optional(),
-  trade1Phone: z.string().optional(),
-  trade2Name: z.string().optional(),
-  trade2FaxNo: z.string().optional(),
-  trade2Address: z.string().optional(),
-  trade2Email: z.string().optional(),
-  trade2City: z.string().optional(),
-  trade2State: z.string().optional(),
-  trade2Zip: z.string().optional(),
-  trade2Attn: z.string().optional(),
-  trade2Phone: z.string().optional(),
-  trade3Name: z.string().optional(),
-  trade3FaxNo: z.string().optional(),
-  trade3Address: z.string().optional(),
-  trade3Email: z.string().optional(),
-  trade3City: z.string().optional(),
-  trade3State: z.string().optional(),
-  trade3Zip: z.string().optional(),
-  trade3Attn: z.string().optional(),
-  trade3Phone: z.string().optional(),
-  // Terms
-  termsAgreed: z.boolean().refine(val => val === true, {
-    message: "You must agree to the terms and conditions"
+// Shared by the application form (zodResolver) and the API routes, so client and
+// server enforce the same rules. Every failed rule carries a machine-readable code.
+export const VALIDATION_ERROR_CODES = [
+  'required',
+  'too_long',
+  'invalid_ein',
+  'invalid_phone',
+  'invalid_email',
+  'invalid_zip',
+  'invalid_duns',
+  'invalid_state',
+  'invalid_url',
+  'invalid_choice',
+  'terms_not_agreed',
+] as const;
+
+export type ValidationErrorCode = typeof VALIDATION_ERROR_CODES[number];
+
+export interface ValidationErrorDetail {
+  field: string;
+  code: ValidationErrorCode | z.ZodIssueCode;
+  message: string;
+}
+
+export const US_STATE_CODES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA',
+  'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
+  'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
+  'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC',
+  'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
+] as const;
+
+const MAX_TEXT_LENGTH = 500;
+export const MAX_DESCRIPTION_LENGTH = 2000;
+
+interface FieldFormat {
+  code: ValidationErrorCode;
+  message: string;
+  test: (value: string) => boolean;
+  jsonSchema: { pattern?: string; format?: string; enum?: readonly string[] }; // How openapi.ts documents it
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const FORMATS = {
+  ein: {
+    code: 'invalid_ein',
+    message: 'Tax EIN must be 9 digits (XX-XXXXXXX)',
+    test: value => /^\d{2}-?\d{7}$/.test(value),
+    jsonSchema: { pattern: '^\\d{2}-?\\d{7}$' },
+  },
+  // US numbers: 10 digits, optionally with a leading 1 / +1 and the usual punctuation
+  phone: {
+    code: 'invalid_phone',
+    message: 'Enter a 10-digit phone number, e.g. (555) 123-4567',
+    test: value => /^[\d\s\-().+]+$/.test(value)
+      && (digitsOf(value).length === 10 || (digitsOf(value).length === 11 && digitsOf(value).startsWith('1'))),
+    jsonSchema: { pattern: '^[\\d\\s\\-().+]+$' },
+  },
+  email: {
+    code: 'invalid_email',
+    message: 'Enter a valid email address',
+    test: value => value.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(value),
+    jsonSchema: { format: 'email' },
+  },
+  zip: {
+    code: 'invalid_zip',
+    message: 'ZIP code must be 5 digits or ZIP+4 (12345-6789)',
+    test: value => /^\d{5}(-\d{4})?$/.test(value),
+    jsonSchema: { pattern: '^\\d{5}(-\\d{4})?$' },
+  },
+  duns: {
+    code: 'invalid_duns',
+    message: 'DUNS Number must be exactly 9 digits',
+    test: value => /^\d{2}-?\d{3}-?\d{4}$/.test(value),
+    jsonSchema: { pattern: '^\\d{2}-?\\d{3}-?\\d{4}$' },
+  },
+  state: {
+    code: 'invalid_state',
+    message: 'Select a US state',
+    test: value => (US_STATE_CODES as readonly string[]).includes(value),
+    jsonSchema: { enum: US_STATE_CODES },
+  },
+  url: {
+    code: 'invalid_url',
+    message: 'Please enter a valid website URL',
+    test: value => /^https?:\/\/.+\..+/.test(value),
+    jsonSchema: { pattern: '^https?://.+\\..+' },
+  },
+  yesNo: {
+    code: 'invalid_choice',
+    message: 'Please select Yes or No',
+    test: value => value === 'true' || value === 'false',
+    jsonSchema: { enum: ['true', 'false'] },
+  },
+} satisfies Record<string, FieldFormat>;
+
+type ValidationProfile = 'strict' | 'draft' | 'legacy';
+
+interface FieldRules {
+  required?: string; // Message shown when the field is left empty
+  format?: FieldFormat;
+  max?: number;
+}
+
+function issue(code: ValidationErrorCode, message: string) {
+  return { code: z.ZodIssueCode.custom, message, params: { code } };
+}
+
+// The rules behind each strict field. They live in a superRefine that zod can't describe,
+// so the OpenAPI document reads them from here (see openapi.ts).
+const strictFieldRules = new WeakMap<z.ZodTypeAny, FieldRules & { max: number }>();
+
+export function getStrictFieldRules(schema: z.ZodTypeAny): { required: boolean; max: number; format?: FieldFormat } | undefined {
+  const rules = strictFieldRules.get(schema);
+  return rules && { required: !!rules.required, max: rules.max, format: rules.format };
+}
+
+// Strict text field: trimmed, empty counts as missing, then length and format checks
+function strictField(rules: FieldRules) {
+  const max = rules.max ?? MAX_TEXT_LENGTH;
+  const schema = z.string().trim().optional().superRefine((value, ctx) => {
+    if (!value) {
+      if (rules.required) {
+        ctx.addIssue(issue('required', rules.required));
+      }
+      return;
+    }
+    if (value.length > max) {
+      ctx.addIssue(issue('too_long', `Must be ${max} characters or fewer`));
+    } else if (rules.format && !rules.format.test(value)) {
+      ctx.addIssue(issue(rules.format.code, rules.format.message));
+    }
+  });
+  strictFieldRules.set(schema, { ...rules, max });
+  return schema;
+}
+
+// The full application in one of three profiles. 'strict' is what a submission must meet;
+// 'draft' (saved drafts) accepts any partial form - nothing required, formats unchecked;
+// 'legacy' (imported paper applications) checks formats but requires nothing.
+function applicationSchema(profile: ValidationProfile) {
+  const field = (rules: FieldRules = {}): z.ZodType<string | undefined, z.ZodTypeDef, string | undefined> => {
+    if (profile === 'strict') return strictField(rules);
+    if (profile === 'legacy') return strictField({ ...rules, required: undefined });
+    return z.string().optional();
+  };
+
+  const tradeReference = {
+    Name: field(),
+    FaxNo: field({ format: FORMATS.phone }),
+    Address: field(),
+    Email: field({ format: FORMATS.email }),
+    City: field(),
+    State: field({ format: FORMATS.state }),
+    Zip: field({ format: FORMATS.zip }),
+    Attn: field(),
+    Phone: field({ format: FORMATS.phone }),
+  };
+  const tradeFields = (prefix: string) =>
+    Object.fromEntries(Object.entries(tradeReference).map(([suffix, schema]) => [`${prefix}${suffix}`, schema]));
+
+  return z.object({
+    legalEntityName: field({ required: 'Legal Entity Name is required' }),
+    dba: field(),
+    taxEIN: field({ required: 'Tax EIN is required', format: FORMATS.ein }),
+    dunsNumber: field({ format: FORMATS.duns }),
+    phoneNo: field({ required: 'Phone Number is required', format: FORMATS.phone }),
+    billToAddress: field({ required: 'Billing street address is required' }),
+    billToCity: field({ required: 'Billing city is required' }),
+    billToState: field({ required: 'Billing state is required', format: FORMATS.state }),
+    billToZip: field({ required: 'Billing ZIP code is required', format: FORMATS.zip }),
+    shipToAddress: field({ required: 'Shipping street address is required' }),
+    shipToCity: field({ required: 'Shipping city is required' }),
+    shipToState: field({ required: 'Shipping state is required', format: FORMATS.state }),
+    shipToZip: field({ required: 'Shipping ZIP code is required', format: FORMATS.zip }),
+    buyerNameEmail: field({ required: 'Primary buyer email is required', format: FORMATS.email }),
+    accountsPayableNameEmail: field({ required: 'Accounts payable email is required', format: FORMATS.email }),
+    wantInvoicesEmailed: z.boolean().optional(),
+    invoiceEmail: field({ format: FORMATS.email }),
+    // Additional authorized purchasers
+    hasAdditionalPurchasers: z.boolean().optional(),
+    additionalPurchasers: z.array(z.object({
+      name: field(),
+      title: field(),
+      email: field({ format: FORMATS.email }),
+      phone: field({ format: FORMATS.phone }),
+    })).optional(),
+    // Business information
+    industry: field({ required: 'Industry is required' }),
+    companyType: field({ required: 'Company type is required' }),
+    numberOfEmployees: field({ required: 'Number of employees is required' }),
+    yearsSinceIncorporation: field({ required: 'Years since incorporation is required' }),
+    stateIncorporated: field({ required: 'State incorporated is required', format: FORMATS.state }),
+    companyValuation: field(),
+    businessWebsite: field({ format: FORMATS.url }),
+    businessDescription: field({ required: 'Business description is required', max: MAX_DESCRIPTION_LENGTH }),
+    // Credit terms - the form posts the yes/no radios as 'true'/'false' strings
+    // (requestedCreditAmount differs per profile, see below)
+    isTaxExempt: field({ required: 'Please select Yes or No', format: FORMATS.yesNo }),
+    usesPaymentPortal: field({ required: 'Please select Yes or No', format: FORMATS.yesNo }),
+    // Bank reference
+    referenceUploadMethod: z.enum(['upload', 'manual']).optional(),
+    bankName: field(),
+    bankAccountNumber: field(),
+    bankContactName: field(),
+    bankContactPhone: field({ format: FORMATS.phone }),
+    bankContactEmail: field({ format: FORMATS.email }),
+    // Trade references - trade1Name, trade1Phone, ... trade3Attn
+    ...(tradeFields('trade1') as Record<`trade1${keyof typeof tradeReference}`, ReturnType<typeof field>>),
+    ...(tradeFields('trade2') as Record<`trade2${keyof typeof tradeReference}`, ReturnType<typeof field>>),
+    ...(tradeFields('trade3') as Record<`trade3${keyof typeof tradeReference}`, ReturnType<typeof field>>),
+  });
+}
+
+// Customer Application Validation Schema - what a submitted application must meet
+export const customerApplicationSchema = applicationSchema('strict').extend({
+  requestedCreditAmount: z.number({ required_error: 'Requested credit amount is required', invalid_type_error: 'Requested credit amount is required' })
+    .positive({ message: 'Requested credit amount must be greater than 0' }),
+  termsAgreed: z.boolean({ required_error: 'You must agree to the terms and conditions' }).refine(val => val === true, {
+    message: "You must agree to the terms and conditions",
+    params: { code: 'terms_not_agreed' },
+  }),
+});
+
+// Saved drafts are validated leniently: every field is optional and the terms
+// don't have to be agreed yet. The strict schema applies when the draft is submitted.
+export const draftApplicationSchema = applicationSchema('draft').extend({
+  requestedCreditAmount: z.number().nonnegative().nullish(),
+  termsAgreed: z.boolean().optional(),
+});
+
+// One row of a legacy import CSV (see legacy-import.ts). Old paper applications are often
+// incomplete, so only what identifies the business is required; whatever was filled in
+// must still be valid. The row carries the decision that was made at the time.
+export const LEGACY_APPLICATION_STATUSES = ['approved', 'denied', 'withdrawn', 'expired'] as const;
+
+const legacyAmount = (label: string) => z.number({ invalid_type_error: `${label} must be a dollar amount, e.g. 25000` })
+  .nonnegative({ message: `${label} cannot be negative` })
+  .optional();
+
+export const legacyApplicationSchema = applicationSchema('legacy').extend({
+  legalEntityName: strictField({ required: 'Legal Entity Name is required' }),
+  taxEIN: strictField({ required: 'Tax EIN is required to match the customer', format: FORMATS.ein }),
+  requestedCreditAmount: legacyAmount('Requested credit amount'),
+  // Only true when the old records show the customer accepted the terms
+  termsAgreed: z.boolean({ invalid_type_error: 'Terms agreed must be Yes or No' }).default(false),
+  status: z.enum(LEGACY_APPLICATION_STATUSES, {
+    errorMap: () => ({ message: `Status must be one of: ${LEGACY_APPLICATION_STATUSES.join(', ')}` }),
   }),
+  applicationDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Application date must be YYYY-MM-DD' })
+    .refine(value => !isNaN(Date.parse(value)) && Date.parse(value) <= Date.now(), { message: 'Application date must be a real date in the past' })
+    .optional(),
+  legacyReference: strictField({ max: 200 }),
+  approvedCreditLimit: legacyAmount('Approved credit limit'),
+  approvedTerms: strictField({ max: 100 }),
+  documentsFolder: strictField({ max: 200 }),
 });
 
+// Form fields sent with the CSV to /api/admin/legacy-imports. Nothing is written unless dryRun is 'false'.
+export const legacyImportRequestSchema = z.object({
+  importedBy: z.string().trim().min(1, { message: "Who is running the import is required" }),
+  dryRun: z.enum(['true', 'false'], { errorMap: () => ({ message: "dryRun must be 'true' or 'false'" }) }).default('true'),
+});
+
+// Zod's own issues (wrong type, bad enum) keep their zod code; a missing value is 'required'
+function issueCode(zodIssue: z.ZodIssue): ValidationErrorDetail['code'] {
+  if (zodIssue.code === z.ZodIssueCode.custom && zodIssue.params?.code) {
+    return zodIssue.params.code;
+  }
+  if (zodIssue.code === z.ZodIssueCode.invalid_type && ['undefined', 'null', 'nan'].includes(zodIssue.received)) {
+    return 'required';
+  }
+  return zodIssue.code;
+}
+
+// API error details: one entry per failed rule, with the field path and its code
+export function validationErrorDetails(error: z.ZodError): ValidationErrorDetail[] {
+  return error.issues.map(zodIssue => ({
+    field: zodIssue.path.join('.'),
+    code: issueCode(zodIssue),
+    message: zodIssue.message,
+  }));
+}
+
+export const draftSaveSchema = z.object({
+  draftId: z.number().int().positive().optional(),
+  resumeToken: z.string().min(1).optional(),
+  data: draftApplicationSchema,
+}).refine(save => !save.draftId || !!save.resumeToken, {
+  message: "A resume token is required to update a draft",
+  path: ["resumeToken"],
+});
 
+// Sent alongside the application fields when a saved draft is submitted
+export const draftReferenceSchema = z.object({
+  draftId: z.number().int().positive({ message: "Valid draft ID is required" }),
+  resumeToken: z.string().min(1, { message: "Resume token is required" }),
+});
 
 // Digital Signature Validation Schema
 export const digitalSignatureSchema = z.object({
@@ -65,6 +311,8 @@ export const digitalSignatureSchema = z.object({
     (url) => url.startsWith('http') || url.startsWith('blob:') || url.startsWith('data:'),
     { message: "Document URL must be a valid URL, blob URL, or data URL" }
   ),
+  termsVersion: z.string().min(1, { message: "Terms version is required" }),
+  termsContentHash: z.string().regex(/^[a-f0-9]{64}$/, { message: "Terms content hash must be a SHA-256 hex digest" }),
 });
 
 // File Upload Validation Schema (for form data)
@@ -72,10 +320,220 @@ export const fileUploadSchema = z.object({
   applicationId: z.string().refine(val => !isNaN(parseInt(val)), {
     message: "Valid application ID is required"
   }),
+  // Set when the file answers an information request (see information-requests.ts)
+  informationRequestId: z.string().regex(/^\d+$/, { message: "Valid information request ID is required" }).optional(),
+  token: z.string().min(1).optional(),
+}).refine(data => !data.informationRequestId || !!data.token, {
+  message: "The request token is required to upload in answer to an information request",
+  path: ["token"],
+});
+
+// International Shipping Request Validation Schema (shared by the public form and the API)
+export const SHIPPING_METHODS = ['air', 'ocean', 'ground', 'courier', 'other'] as const;
+export const SHIPPING_URGENCIES = ['standard', 'expedited', 'urgent'] as const;
+export const SHIPMENT_PURPOSES = ['commercial', 'sample', 'repair_return', 'personal', 'other'] as const;
+export const SHIPPING_REQUEST_STATUSES = ['pending', 'quoted', 'shipped'] as const;
+
+export const internationalShippingRequestSchema = z.object({
+  firstName: z.string().trim().min(1, { message: "First name is required" }),
+  lastName: z.string().trim().min(1, { message: "Last name is required" }),
+  email: z.string().trim().email({ message: "Valid email address is required" }),
+  phone: z.string().trim().min(7, { message: "Phone number is required" }),
+  company: z.string().trim().optional(),
+  shippingAddress: z.string().trim().min(1, { message: "Shipping address is required" }),
+  addressLine2: z.string().trim().optional(),
+  city: z.string().trim().min(1, { message: "City is required" }),
+  stateProvince: z.string().trim().min(1, { message: "State / province is required" }),
+  postalCode: z.string().trim().min(1, { message: "Postal code is required" }),
+  country: z.string().trim().min(2, { message: "Country is required" }),
+  productDescription: z.string().trim().min(1, { message: "Product description is required" }).max(2000),
+  quantity: z.string().trim().min(1, { message: "Quantity is required" }),
+  estimatedValue: z.string().trim().min(1, { message: "Estimated value is required" }),
+  orderRequest: z.string().trim().min(1, { message: "Order details are required" }).max(2000),
+  specialInstructions: z.string().trim().max(2000).optional(),
+  shippingMethod: z.enum(SHIPPING_METHODS, { message: "Select a shipping method" }),
+  customShippingMethod: z.string().trim().optional(),
+  urgency: z.enum(SHIPPING_URGENCIES, { message: "Select how urgent the shipment is" }),
+  trackingRequired: z.boolean().optional(),
+  insuranceRequired: z.boolean().optional(),
+  purposeOfShipment: z.enum(SHIPMENT_PURPOSES).optional(),
+  customPurpose: z.string().trim().optional(),
+  hsCode: z.string().trim().optional().refine(val => !val || /^\d{4}(\.?\d{2}){0,3}$/.test(val), {
+    message: "HS code must be 4 to 10 digits (e.g. 2815.12)"
+  }),
+  countryOfOrigin: z.string().trim().optional(),
+}).refine(data => data.shippingMethod !== 'other' || !!data.customShippingMethod, {
+  message: "Describe the shipping method you need",
+  path: ['customShippingMethod'],
+}).refine(data => data.purposeOfShipment !== 'other' || !!data.customPurpose, {
+  message: "Describe the purpose of the shipment",
+  path: ['customPurpose'],
+});
+
+export const shippingRequestStatusUpdateSchema = z.object({
+  id: z.number().int().positive({ message: "Valid shipping request ID is required" }),
+  status: z.enum(SHIPPING_REQUEST_STATUSES),
+});
+
+export const legalHoldUpdateSchema = z.object({
+  applicationId: z.number().int().positive({ message: "Valid application ID is required" }),
+  legalHold: z.boolean(),
+  reason: z.string().trim().max(500).optional(),
+  setBy: z.string().trim().min(1, { message: "Who is setting the hold is required" }),
+}).refine(data => !data.legalHold || !!data.reason, {
+  message: "A reason is required when placing a legal hold",
+  path: ["reason"],
+});
+
+// Partner API keys (see api-keys.ts)
+export const API_KEY_SCOPES = ['applications:submit', 'applications:read', 'documents:upload'] as const;
+
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name the partner this key is for" }).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, { message: "Select at least one scope" }),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).default(60),
+  createdBy: z.string().trim().min(1, { message: "Who is creating the key is required" }),
+});
+
+// Outbound webhooks (see webhooks.ts)
+export const WEBHOOK_EVENTS = [
+  'application.submitted',
+  'application.signed',
+  'application.analyzed',
+  'application.approved',
+  'application.denied',
+] as const;
+
+// Webhook payloads carry applicant data, so they are only ever sent over https
+export function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export const webhookSubscriptionCreateSchema = z.object({
+  url: z.string().trim().url({ message: "Enter a valid URL" }).refine(isHttpsUrl, {
+    message: "Webhook URLs must use https",
+  }),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, { message: "Select at least one event" }),
+  createdBy: z.string().trim().min(1, { message: "Who is creating the subscription is required" }),
+});
+
+export const webhookRedeliverySchema = z.object({
+  deliveryId: z.number().int().positive({ message: "Valid delivery ID is required" }),
+});
+
+// Requests for more information (see information-requests.ts)
+export const INFORMATION_REQUEST_ITEM_KINDS = ['document', 'answer'] as const;
+
+export const informationRequestCreateSchema = z.object({
+  applicationId: z.number().int().positive({ message: "Valid application ID is required" }),
+  items: z.array(z.object({
+    label: z.string().trim().min(1, { message: "Describe what you need" }).max(200),
+    kind: z.enum(INFORMATION_REQUEST_ITEM_KINDS),
+  })).min(1, { message: "List at least one item" }).max(20),
+  message: z.string().trim().min(1, { message: "A message to the customer is required" }).max(2000),
+  requestedBy: z.string().trim().min(1, { message: "Who is making the request is required" }),
+});
+
+export const informationRequestResponseSchema = z.object({
+  requestId: z.number().int().positive({ message: "Valid request ID is required" }),
+  token: z.string().min(1, { message: "Request token is required" }),
+  answers: z.array(z.object({
+    itemIndex: z.number().int().min(0),
+    answer: z.string().trim().min(1, { message: "Enter an answer" }).max(5000),
+  })).max(20).default([]),
+  message: z.string().trim().max(2000).optional(),
+});
+
+// Credit scorecards (see scorecard.ts). Points are added to baseScore, the total is
+// clamped to minScore..maxScore, and the highest tier whose minScore it reaches sets the
+// system recommendation; anything below the REVIEW tier is a DECLINE.
+const scorecardPointsSchema = z.number().int().min(-1000).max(1000);
+
+const scorecardTierSchema = z.object({
+  minScore: z.number().int().min(0).max(1000),
+  creditLimit: z.number().int().min(0).max(10_000_000), // Whole dollars
+  paymentTerms: z.string().trim().min(1, { message: "Payment terms are required" }).max(100),
+  riskLevel: z.enum(['LOW', 'MEDIUM', 'HIGH']),
+  conditions: z.array(z.string().trim().min(1).max(200)).max(10).default([]),
+});
+
+export const scorecardDefinitionSchema = z.object({
+  baseScore: z.number().int().min(0).max(1000),
+  minScore: z.number().int().min(0).max(1000),
+  maxScore: z.number().int().min(1).max(1000),
+  points: z.object({
+    businessRegistered: scorecardPointsSchema,
+    businessNotRegistered: scorecardPointsSchema,
+    domainValid: scorecardPointsSchema,
+    domainSuspicious: scorecardPointsSchema,
+    testCompany: scorecardPointsSchema,
+    completeWithDuns: scorecardPointsSchema,
+    completeWithoutDuns: scorecardPointsSchema,
+    dunsProvided: scorecardPointsSchema,
+    dunsMissing: scorecardPointsSchema,
+    perTradeReference: scorecardPointsSchema,
+    sameAddress: scorecardPointsSchema,
+    differentAddress: scorecardPointsSchema,
+  }),
+  // A company name or buyer email containing one of these as a whole word scores points.testCompany
+  testIndicators: z.array(z.string().trim().toLowerCase().min(1)).max(50),
+  tiers: z.object({
+    APPROVE: scorecardTierSchema,
+    CONDITIONAL: scorecardTierSchema,
+    REVIEW: scorecardTierSchema,
+    DECLINE: scorecardTierSchema.omit({ minScore: true }),
+  }),
+}).superRefine((data, ctx) => {
+  if (data.minScore >= data.maxScore) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "minScore must be below maxScore", path: ['minScore'] });
+  }
+  if (data.baseScore < data.minScore || data.baseScore > data.maxScore) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "baseScore must be between minScore and maxScore", path: ['baseScore'] });
+  }
+  const { APPROVE, CONDITIONAL, REVIEW, DECLINE } = data.tiers;
+  if (!(APPROVE.minScore > CONDITIONAL.minScore && CONDITIONAL.minScore > REVIEW.minScore)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Tier minimum scores must fall from APPROVE to CONDITIONAL to REVIEW", path: ['tiers'] });
+  }
+  if (APPROVE.minScore > data.maxScore || REVIEW.minScore <= data.minScore) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Tier minimum scores must lie within minScore and maxScore", path: ['tiers'] });
+  }
+  if (!(APPROVE.creditLimit >= CONDITIONAL.creditLimit && CONDITIONAL.creditLimit >= REVIEW.creditLimit)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Credit limits must not rise from APPROVE to CONDITIONAL to REVIEW", path: ['tiers'] });
+  }
+  if (DECLINE.creditLimit !== 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A declined application gets no credit", path: ['tiers', 'DECLINE', 'creditLimit'] });
+  }
+});
+
+export const scorecardSaveSchema = z.object({
+  // The version the edit started from, so two people editing at once can't overwrite each other
+  basedOnVersion: z.number().int().positive({ message: "The scorecard version being edited is required" }),
+  definition: scorecardDefinitionSchema,
+  changeNote: z.string().trim().min(1, { message: "Describe what changed" }).max(500),
+  createdBy: z.string().trim().min(1, { message: "Who is saving the scorecard is required" }),
 });
 
 // Type exports for better TypeScript support
 export type CustomerApplicationData = z.infer<typeof customerApplicationSchema>;
+export type DraftApplicationData = z.infer<typeof draftApplicationSchema>;
+export type DraftSaveData = z.infer<typeof draftSaveSchema>;
+export type DraftReferenceData = z.infer<typeof draftReferenceSchema>;
 
 export type DigitalSignatureData = z.infer<typeof digitalSignatureSchema>;
-export type FileUploadData = z.infer<typeof fileUploadSchema>; 
\ No newline at end of file
+export type FileUploadData = z.infer<typeof fileUploadSchema>; 
+export type InternationalShippingRequestData = z.infer<typeof internationalShippingRequestSchema>;
+export type ShippingRequestStatusUpdateData = z.infer<typeof shippingRequestStatusUpdateSchema>;
+export type LegalHoldUpdateData = z.infer<typeof legalHoldUpdateSchema>;
+export type ApiKeyCreateData = z.infer<typeof apiKeyCreateSchema>;
+export type WebhookSubscriptionCreateData = z.infer<typeof webhookSubscriptionCreateSchema>;
+export type InformationRequestCreateData = z.infer<typeof informationRequestCreateSchema>;
+export type InformationRequestResponseData = z.infer<typeof informationRequestResponseSchema>;
+export type LegacyApplicationData = z.infer<typeof legacyApplicationSchema>;
+export type LegacyImportRequestData = z.infer<typeof legacyImportRequestSchema>;
+export type ScorecardDefinition = z.infer<typeof scorecardDefinitionSchema>;
+export type ScorecardSaveData = z.infer<typeof scorecardSaveSchema>;
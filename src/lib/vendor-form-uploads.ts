@@ -0,0 +1,170 @@
+import { PutObjectCommand } from '@aws-sdk/client-s3';
+import { db } from '@/lib/db';
+import { vendorForms, type VendorForm } from '@/lib/schema';
+import { AWS_REGION, AWS_S3_BUCKET_NAME } from '@/lib/config';
+import { s3Client, vendorFormPrefix } from '@/lib/storage';
+import mimeTypesByExtension from '@/lib/upload-file-types.json';
+
+// Document uploads shared by the web form (/api/upload) and the partner API
+// (/api/v1/applications/[id]/documents)
+
+// File validation constants
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const ALLOWED_FILE_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'text/plain',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+// Also read by scripts/import-legacy-applications.mjs to label the files it uploads
+const MIME_TYPES_BY_EXTENSION: { [key: string]: string[] } = mimeTypesByExtension;
+
+const SUSPICIOUS_PATTERNS = [
+  /<script/i,
+  /javascript:/i,
+  /vbscript:/i,
+  /onclick/i,
+  /onerror/i,
+  /onload/i,
+  /eval\(/i,
+  /document\.write/i
+];
+
+// The file was refused; message and details go back to the client as a 400
+export class FileRejectedError extends Error {
+  constructor(message: string, public readonly details?: string) {
+    super(message);
+    this.name = 'FileRejectedError';
+  }
+}
+
+export function isUploadStorageConfigured(): boolean {
+  return !!s3Client && !!AWS_S3_BUCKET_NAME;
+}
+
+// Size, type, extension, filename and content checks. Returns the file's contents.
+export async function checkUploadedFile(file: File, source: string): Promise<Buffer> {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new FileRejectedError('File too large', `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+  }
+
+  // Validate file type by MIME type and extension
+  if (!ALLOWED_FILE_TYPES.includes(file.type)) {
+    throw new FileRejectedError('Invalid file type', `Allowed types: ${ALLOWED_FILE_TYPES.join(', ')}`);
+  }
+
+  const fileExtension = fileExtensionOf(file);
+  if (fileExtension && MIME_TYPES_BY_EXTENSION[fileExtension]) {
+    if (!MIME_TYPES_BY_EXTENSION[fileExtension].includes(file.type)) {
+      throw new FileRejectedError('File extension does not match content type');
+    }
+  }
+
+  // Validate filename for path traversal attacks
+  if (file.name.includes('..') || file.name.includes('/') || file.name.includes('\\')) {
+    throw new FileRejectedError('Invalid filename');
+  }
+
+  // Basic content scanning for malicious files
+  const fileBuffer = Buffer.from(await file.arrayBuffer());
+  const fileContent = fileBuffer.toString('utf-8', 0, Math.min(fileBuffer.length, 1024));
+  for (const pattern of SUSPICIOUS_PATTERNS) {
+    if (pattern.test(fileContent)) {
+      console.warn(`🔒 Suspicious file content detected in upload from ${source}: ${file.name}`);
+      throw new FileRejectedError('File content not allowed');
+    }
+  }
+
+  return fileBuffer;
+}
+
+function fileExtensionOf(file: File): string | undefined {
+  return file.name.split('.').pop()?.toLowerCase();
+}
+
+// Put the file in S3 under the application's prefix and record it in vendor_forms
+export async function storeVendorForm(
+  applicationId: number,
+  file: File,
+  fileBuffer: Buffer,
+  options: { informationRequestId?: number } = {}
+): Promise<VendorForm> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+  if (!s3Client || !AWS_S3_BUCKET_NAME) {
+    throw new Error('S3 is not configured');
+  }
+
+  // Generate a unique file name
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(2, 10);
+  const uniqueFileName = `${timestamp}-${randomString}.${fileExtensionOf(file) || 'bin'}`;
+  const s3Key = `${vendorFormPrefix(applicationId)}${uniqueFileName}`;
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: AWS_S3_BUCKET_NAME,
+    Key: s3Key,
+    Body: fileBuffer,
+    ContentType: file.type || 'application/octet-stream',
+    // Add metadata for better tracking
+    Metadata: {
+      'original-filename': file.name,
+      'application-id': applicationId.toString(),
+      'upload-timestamp': timestamp.toString(),
+    },
+    // For private files, don't set public read ACL
+    // ServerSideEncryption: 'AES256', // Optional: encrypt files at rest
+  }));
+
+  // Store S3 key instead of public URL for security
+  // This allows for generating pre-signed URLs when needed
+  const fileUrl = `s3://${AWS_S3_BUCKET_NAME}/${s3Key}`;
+
+  // Store file metadata in the database
+  const [vendorFormRecord] = await db.insert(vendorForms).values({
+    applicationId: applicationId,
+    fileName: file.name,
+    fileUrl: fileUrl,
+    fileType: file.type || 'application/octet-stream',
+    fileSize: file.size,
+    informationRequestId: options.informationRequestId,
+    uploadedAt: new Date(),
+  }).returning();
+
+  if (!vendorFormRecord) {
+    throw new Error('Failed to create vendor form record');
+  }
+  return vendorFormRecord;
+}
+
+// A client-facing description of S3 configuration errors, or null for anything else
+export function describeS3UploadError(error: unknown): { error: string; details: string } | null {
+  if (error instanceof Error) {
+    if (error.name === 'NoSuchBucket') {
+      return { error: 'S3 bucket does not exist', details: `Bucket ${AWS_S3_BUCKET_NAME} not found in region ${AWS_REGION}` };
+    }
+    if (error.name === 'InvalidAccessKeyId' || error.name === 'SignatureDoesNotMatch') {
+      return { error: 'AWS credentials error', details: 'Invalid AWS credentials or region mismatch' };
+    }
+  }
+  return null;
+}
+
+// The uploaded document as returned to clients. The S3 URL is never exposed.
+export function vendorFormResponse(vendorFormRecord: VendorForm) {
+  return {
+    id: vendorFormRecord.id,
+    applicationId: vendorFormRecord.applicationId,
+    fileName: vendorFormRecord.fileName,
+    fileType: vendorFormRecord.fileType,
+    fileSize: vendorFormRecord.fileSize,
+    createdAt: vendorFormRecord.createdAt,
+  };
+}
@@ -1,6 +1,11 @@
 // External data verification services
 // This module provides various verification capabilities to enhance credit analysis
 
+import { isSameAddress } from '@/lib/address';
+import type { ScorecardDefinition } from '@/lib/validation';
+import { adverseReason, rankReasons, type AdverseActionReason, type ReasonCode } from '@/lib/reason-codes';
+import { keywordPattern } from '@/lib/fraud-rule-matchers';
+
 interface DomainInfo {
   age: number | null;
   registrar: string | null;
@@ -171,87 +176,123 @@ export function validateAddress(address: string): { isValid: boolean; type: stri
   };
 }
 
-// Credit score calculation with external data
-export function calculateEnhancedCreditScore(applicationData: any, verificationData: any): {
+// "+20" or "-40"; scorecard points can be set either way
+function formatPoints(points: number): string {
+  return points > 0 ? `+${points}` : String(points);
+}
+
+// Credit score calculation with external data, using the points in the scorecard
+export function calculateEnhancedCreditScore(applicationData: any, verificationData: any, scorecard: ScorecardDefinition): {
   score: number;
+  maxScore: number;
   breakdown: Record<string, number>;
   reasoning: string[];
+  reasons: AdverseActionReason[]; // Adverse-action reasons, most points lost first
 } {
-  let score = 600; // Base score
+  const { points } = scorecard;
+  let score = scorecard.baseScore;
   const breakdown: Record<string, number> = {};
   const reasoning: string[] = [];
+  const reasons: AdverseActionReason[] = [];
+
+  // Record a reason code when a factor scored below the best it could have
+  const scoredBelowBest = (code: ReasonCode, best: number, actual: number) => {
+    if (best > actual) {
+      reasons.push(adverseReason(code, best - actual));
+    }
+  };
   
   // **CRITICAL VERIFICATION FAILURES - MAJOR PENALTIES**
   
   // Business verification - MASSIVE penalty for test/fake companies
   if (!verificationData.business?.isValid) {
-    const businessScore = -200; // HUGE penalty for invalid business
+    const businessScore = points.businessNotRegistered;
     breakdown['Business Registration'] = businessScore;
     score += businessScore;
     reasoning.push(`INVALID BUSINESS REGISTRATION: ${businessScore} points - MAJOR RED FLAG`);
+    scoredBelowBest('R01', points.businessRegistered, businessScore);
   } else {
-    const businessScore = 60;
+    const businessScore = points.businessRegistered;
     breakdown['Business Registration'] = businessScore;
     score += businessScore;
-    reasoning.push(`Valid business registration: +${businessScore} points`);
+    reasoning.push(`Valid business registration: ${formatPoints(businessScore)} points`);
   }
   
   // Domain verification - BIG penalty for suspicious domains
   if (!verificationData.domain?.isValid || verificationData.domain?.suspiciousIndicators?.length > 0) {
-    const domainScore = -100; // Big penalty for bad domains
+    const domainScore = points.domainSuspicious;
     breakdown['Domain Verification'] = domainScore;
     score += domainScore;
     reasoning.push(`SUSPICIOUS DOMAIN (${verificationData.domain?.suspiciousIndicators?.join(', ')}): ${domainScore} points`);
+    scoredBelowBest('R02', points.domainValid, domainScore);
   } else {
-    const domainScore = 30;
+    const domainScore = points.domainValid;
     breakdown['Domain Verification'] = domainScore;
     score += domainScore;
-    reasoning.push(`Valid domain: +${domainScore} points`);
+    reasoning.push(`Valid domain: ${formatPoints(domainScore)} points`);
   }
   
   // Test company detection - INSTANT FAIL
   const companyName = applicationData.legalEntityName?.toLowerCase() || '';
   const email = applicationData.buyerNameEmail?.toLowerCase() || '';
-  const testIndicators = ['test', 'demo', 'example', 'fake', 'temp'];
-  const isTestCompany = testIndicators.some(indicator => 
-    companyName.includes(indicator) || email.includes(indicator)
+  const isTestCompany = scorecard.testIndicators.some(indicator =>
+    keywordPattern(indicator).test(companyName) || keywordPattern(indicator).test(email)
   );
   
   if (isTestCompany) {
-    const testPenalty = -300; // MASSIVE penalty
+    const testPenalty = points.testCompany;
     breakdown['Test Company Detection'] = testPenalty;
     score += testPenalty;
     reasoning.push(`TEST/FAKE COMPANY DETECTED: ${testPenalty} points - AUTOMATIC HIGH RISK`);
+    scoredBelowBest('R03', 0, testPenalty);
   }
   
   // Application completeness
-  const completenessScore = applicationData.dunsNumber ? 50 : 20;
+  const completenessScore = applicationData.dunsNumber ? points.completeWithDuns : points.completeWithoutDuns;
   breakdown['Application Completeness'] = completenessScore;
   score += completenessScore;
-  reasoning.push(`Application completeness: +${completenessScore} points`);
+  reasoning.push(`Application completeness: ${formatPoints(completenessScore)} points`);
   
   // DUNS provided
-  const dunsScore = applicationData.dunsNumber ? 40 : -40;
+  const dunsScore = applicationData.dunsNumber ? points.dunsProvided : points.dunsMissing;
   breakdown['DUNS Verification'] = dunsScore;
   score += dunsScore;
-  reasoning.push(`DUNS ${applicationData.dunsNumber ? 'provided' : 'missing'}: ${dunsScore > 0 ? '+' : ''}${dunsScore} points`);
+  reasoning.push(`DUNS ${applicationData.dunsNumber ? 'provided' : 'missing'}: ${formatPoints(dunsScore)} points`);
+  // Completeness is scored on the DUNS number too, so both count towards its reason
+  scoredBelowBest('R05', points.completeWithDuns + points.dunsProvided, completenessScore + dunsScore);
   
   // Trade references
   const tradeRefCount = [applicationData.trade1Name, applicationData.trade2Name, applicationData.trade3Name]
     .filter(Boolean).length;
-  const tradeScore = tradeRefCount * 20;
+  const tradeScore = tradeRefCount * points.perTradeReference;
   breakdown['Trade References'] = tradeScore;
   score += tradeScore;
-  reasoning.push(`Trade references (${tradeRefCount}/3): +${tradeScore} points`);
+  reasoning.push(`Trade references (${tradeRefCount}/3): ${formatPoints(tradeScore)} points`);
+  scoredBelowBest('R04', 3 * points.perTradeReference, tradeScore);
   
-  // Address consistency
-  const addressScore = applicationData.billToAddress === applicationData.shipToAddress ? 20 : 10;
+  // Address consistency (same street, city, state and postal code)
+  const sameAddress = isSameAddress(
+    {
+      street: applicationData.billToAddress,
+      city: applicationData.billToCity,
+      state: applicationData.billToState,
+      postalCode: applicationData.billToPostalCode,
+    },
+    {
+      street: applicationData.shipToAddress,
+      city: applicationData.shipToCity,
+      state: applicationData.shipToState,
+      postalCode: applicationData.shipToPostalCode,
+    }
+  );
+  const addressScore = sameAddress ? points.sameAddress : points.differentAddress;
   breakdown['Address Consistency'] = addressScore;
   score += addressScore;
-  reasoning.push(`Address consistency: +${addressScore} points`);
+  reasoning.push(`Address consistency: ${formatPoints(addressScore)} points`);
+  scoredBelowBest('R06', Math.max(points.sameAddress, points.differentAddress), addressScore);
   
-  // *** FIX: Ensure score can drop low but not go below a reasonable minimum ***
-  score = Math.max(150, Math.min(850, Math.round(score)));
+  // Score can drop low but stays within the scorecard's range
+  score = Math.max(scorecard.minScore, Math.min(scorecard.maxScore, Math.round(score)));
   
-  return { score, breakdown, reasoning };
+  return { score, maxScore: scorecard.maxScore, breakdown, reasoning, reasons: rankReasons(reasons) };
 } 
\ No newline at end of file
@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import { customerApplications, webhookDeliveries, webhookSubscriptions, type WebhookDelivery, type WebhookSubscription } from '@/lib/schema';
+import { and, desc, eq, inArray, isNull, lte, ne, sql, type SQL } from 'drizzle-orm';
+import { WEBHOOK_EVENTS, isHttpsUrl, type WebhookSubscriptionCreateData } from '@/lib/validation';
+
+// Outbound webhooks: each lifecycle event is POSTed as JSON to every active subscription
+// for it. Requests are signed with the subscription's secret:
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<X-Webhook-Timestamp>.<body>">
+// Receivers should check the signature and reject stale timestamps. A delivery that
+// doesn't get a 2xx is retried with backoff by /api/webhook-retries (cron), and every
+// attempt is recorded in webhook_deliveries.
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Subscription details that are safe to list (no secret)
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, 'secret'>;
+
+// Wait before retry n (after the nth failed attempt); the delivery fails after the last
+const RETRY_DELAYS_MINUTES = [2, 10, 30, 120, 720];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// A delivery being attempted has next_attempt_at pushed this far ahead, so the cron and
+// an in-flight attempt never send it twice. Longer than the delivery timeout.
+const ATTEMPT_LEASE_MINUTES = 2;
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`, 'utf8').digest('hex');
+}
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+function toSummary(subscription: WebhookSubscription): WebhookSubscriptionSummary {
+  const summary: Partial<WebhookSubscription> = { ...subscription };
+  delete summary.secret;
+  return summary as WebhookSubscriptionSummary;
+}
+
+// Register a subscriber. The signing secret is only ever returned here.
+export async function createWebhookSubscription(
+  data: WebhookSubscriptionCreateData
+): Promise<{ subscription: WebhookSubscriptionSummary; secret: string }> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const secret = `whsec_${crypto.randomBytes(32).toString('base64url')}`;
+  const [subscription] = await db.insert(webhookSubscriptions).values({
+    url: data.url,
+    description: data.description,
+    events: data.events,
+    secret,
+    createdBy: data.createdBy,
+  }).returning();
+
+  console.log(`🪝 Webhook subscription #${subscription.id} created for ${subscription.url} by ${subscription.createdBy}`);
+  return { subscription: toSummary(subscription), secret };
+}
+
+export async function listWebhookSubscriptions(): Promise<WebhookSubscriptionSummary[]> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const rows = await db.select().from(webhookSubscriptions).orderBy(desc(webhookSubscriptions.createdAt));
+  return rows.map(toSummary);
+}
+
+// Stop sending to a subscriber; its pending retries fail on their next attempt.
+// Returns null if the subscription doesn't exist.
+export async function disableWebhookSubscription(id: number): Promise<WebhookSubscriptionSummary | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const [subscription] = await db
+    .update(webhookSubscriptions)
+    .set({ disabledAt: sql`coalesce(${webhookSubscriptions.disabledAt}, now())` })
+    .where(eq(webhookSubscriptions.id, id))
+    .returning();
+
+  if (subscription) {
+    console.log(`🪝 Webhook subscription #${id} (${subscription.url}) disabled`);
+  }
+  return subscription ? toSummary(subscription) : null;
+}
+
+// Send one delivery and record the outcome. The caller holds the attempt lease.
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const [subscription] = await db!
+    .select()
+    .from(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, delivery.subscriptionId))
+    .limit(1);
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  let retryable = true;
+
+  if (!subscription || subscription.disabledAt) {
+    error = 'Subscription disabled';
+    retryable = false;
+  } else if (!isHttpsUrl(subscription.url)) {
+    error = 'Subscription URL is not https';
+    retryable = false;
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AllianceChemical-Webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : 'Unknown error';
+    }
+  }
+
+  const givenUp = !!error && (attempts >= MAX_ATTEMPTS || !retryable);
+  const [updated] = await db!
+    .update(webhookDeliveries)
+    .set({
+      status: !error ? 'delivered' : givenUp ? 'failed' : 'pending',
+      attempts,
+      lastAttemptAt: new Date(),
+      lastResponseStatus: responseStatus,
+      lastError: error,
+      deliveredAt: error ? null : new Date(),
+      nextAttemptAt: error && !givenUp ? minutesFromNow(RETRY_DELAYS_MINUTES[attempts - 1]) : null,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+
+  if (!error) {
+    console.log(`🪝 Webhook ${delivery.event} delivered to subscription #${delivery.subscriptionId} (delivery #${delivery.id})`);
+  } else if (givenUp) {
+    console.error(`❌ Webhook delivery #${delivery.id} failed after ${attempts} attempt(s): ${error}`);
+  } else {
+    console.warn(`⚠️ Webhook delivery #${delivery.id} attempt ${attempts} failed (${error}); retrying later`);
+  }
+  return updated;
+}
+
+// Take the attempt lease on pending deliveries matching the condition
+async function claimDeliveries(condition: SQL | undefined, limit: number): Promise<WebhookDelivery[]> {
+  const due = db!
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, sql`now()`), condition))
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(limit);
+
+  return db!
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: minutesFromNow(ATTEMPT_LEASE_MINUTES) })
+    .where(and(
+      inArray(webhookDeliveries.id, due),
+      eq(webhookDeliveries.status, 'pending'),
+      lte(webhookDeliveries.nextAttemptAt, sql`now()`)
+    ))
+    .returning();
+}
+
+// Queue an application lifecycle event for every subscription to it and attempt each
+// delivery right away; failures are left to the retry cron. Never throws, so it can't
+// break the request or background job that raised the event.
+export async function emitApplicationEvent(
+  event: WebhookEvent,
+  applicationId: number,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    if (!db) {
+      throw new Error('Database connection not available');
+    }
+
+    const subscriptions = await db
+      .select({ id: webhookSubscriptions.id })
+      .from(webhookSubscriptions)
+      .where(and(
+        isNull(webhookSubscriptions.disabledAt),
+        sql`${webhookSubscriptions.events} @> ${JSON.stringify([event])}::jsonb`
+      ));
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const [application] = await db
+      .select({
+        id: customerApplications.id,
+        legalEntityName: customerApplications.legalEntityName,
+        applicationType: customerApplications.applicationType,
+        customerId: customerApplications.customerId,
+      })
+      .from(customerApplications)
+      .where(eq(customerApplications.id, applicationId))
+      .limit(1);
+    if (!application) {
+      throw new Error(`Application #${applicationId} not found`);
+    }
+
+    const eventId = `evt_${crypto.randomUUID()}`;
+    const payload = {
+      id: eventId,
+      type: event,
+      createdAt: new Date().toISOString(),
+      data: { application, ...details },
+    };
+
+    // Inserted already holding the attempt lease, so the cron leaves them to us
+    const deliveries = await db.insert(webhookDeliveries).values(subscriptions.map(subscription => ({
+      subscriptionId: subscription.id,
+      event,
+      eventId,
+      applicationId,
+      payload,
+      nextAttemptAt: minutesFromNow(ATTEMPT_LEASE_MINUTES),
+    }))).returning();
+
+    await Promise.all(deliveries.map(delivery => attemptDelivery(delivery).catch(error => {
+      console.error(`❌ Webhook delivery #${delivery.id} could not be attempted:`, error);
+    })));
+  } catch (error) {
+    console.error(`❌ Failed to emit webhook event ${event} for application #${applicationId}:`, error);
+  }
+}
+
+// One run of the retry cron: attempt deliveries whose backoff has elapsed
+export async function deliverDueWebhooks(options: { batchSize?: number } = {}) {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  const deliveries = await claimDeliveries(undefined, options.batchSize ?? 50);
+  const result = { attempted: deliveries.length, delivered: 0, retrying: 0, failed: 0 };
+
+  for (const delivery of deliveries) {
+    try {
+      const updated = await attemptDelivery(delivery);
+      if (updated.status === 'delivered') result.delivered++;
+      else if (updated.status === 'failed') result.failed++;
+      else result.retrying++;
+    } catch (error) {
+      // The lease expires and the next run picks it up again
+      console.error(`❌ Webhook delivery #${delivery.id} could not be attempted:`, error);
+      result.retrying++;
+    }
+  }
+
+  console.log(`🪝 Webhook retries: ${result.delivered} delivered, ${result.retrying} retrying, ${result.failed} failed`);
+  return result;
+}
+
+// Send a delivered or failed delivery again now, e.g. after a subscriber fixes its
+// endpoint; attempts start over. Returns null if the delivery doesn't exist or is still
+// pending (the retry cron already has it).
+export async function redeliverWebhook(deliveryId: number): Promise<WebhookDelivery | null> {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  await db
+    .update(webhookDeliveries)
+    .set({ status: 'pending', attempts: 0, nextAttemptAt: sql`now()` })
+    .where(and(eq(webhookDeliveries.id, deliveryId), ne(webhookDeliveries.status, 'pending')));
+
+  const [delivery] = await claimDeliveries(eq(webhookDeliveries.id, deliveryId), 1);
+  return delivery ? attemptDelivery(delivery) : null;
+}
+
+// Delivery log, newest first
+export async function listWebhookDeliveries(filters: { subscriptionId?: number; applicationId?: number; status?: string; limit?: number } = {}) {
+  if (!db) {
+    throw new Error('Database connection not available');
+  }
+
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(
+      filters.subscriptionId ? eq(webhookDeliveries.subscriptionId, filters.subscriptionId) : undefined,
+      filters.applicationId ? eq(webhookDeliveries.applicationId, filters.applicationId) : undefined,
+      filters.status ? eq(webhookDeliveries.status, filters.status) : undefined
+    ))
+    .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+    .limit(filters.limit ?? 100);
+}